@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { StyleSheet, Platform } from "react-native";
 import { NavigationContainer, LinkingOptions } from "@react-navigation/native";
 import * as Linking from "expo-linking";
@@ -6,9 +6,16 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
+import * as SplashScreen from "expo-splash-screen";
 
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { runMigrations } from "@/services/migrations";
+import { SHARED_LIST_PATH } from "@/services/mangaLists";
+import { downloadQueue } from "@/services/downloadQueue";
+import { downloadRetention } from "@/services/downloadRetention";
+
+SplashScreen.preventAutoHideAsync().catch(() => {});
 
 const prefix = Linking.createURL("/");
 
@@ -19,6 +26,10 @@ const linking: LinkingOptions<any> = {
       Browse: {
         screens: {
           MangaDetail: "title/:mangaId",
+          MangaList: {
+            path: "list/:listId",
+            alias: [SHARED_LIST_PATH],
+          },
         },
       },
     },
@@ -41,7 +52,29 @@ const linking: LinkingOptions<any> = {
 };
 
 export default function App() {
+  const [storageReady, setStorageReady] = useState(false);
+
+  // Stored data must be on the current schema before any screen reads it
+  useEffect(() => {
+    runMigrations()
+      .catch((err) => console.error("Storage migration failed:", err))
+      .finally(() => {
+        setStorageReady(true);
+        SplashScreen.hideAsync().catch(() => {});
+      });
+  }, []);
+
   useEffect(() => {
+    if (!storageReady) return;
+
+    // Downloads left in the queue pick up where they stopped
+    if (Platform.OS !== "web") {
+      downloadQueue.init();
+      downloadRetention.runCleanup().catch((err) => {
+        console.error("Download cleanup failed:", err);
+      });
+    }
+
     // Notifications are not supported in Expo Go since SDK 53
     // Only initialize in development builds
     if (Platform.OS !== "web" && !__DEV__) {
@@ -51,7 +84,11 @@ export default function App() {
         console.log("Notification service not available:", err.message);
       });
     }
-  }, []);
+  }, [storageReady]);
+
+  if (!storageReady) {
+    return null;
+  }
 
   return (
   <ErrorBoundary>
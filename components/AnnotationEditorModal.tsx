@@ -0,0 +1,431 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  annotations,
+  normalizeTags,
+  AnnotationError,
+  MangaAnnotation,
+  MAX_SCORE,
+  MIN_SCORE,
+} from "@/services/annotations";
+
+interface AnnotationEditorModalProps {
+  visible: boolean;
+  mangaId: string;
+  mangaTitle: string;
+  annotation: MangaAnnotation | null;
+  onClose: () => void;
+  onSaved: (annotation: MangaAnnotation | null) => void;
+}
+
+const SCORES = Array.from(
+  { length: MAX_SCORE - MIN_SCORE + 1 },
+  (_, i) => MIN_SCORE + i,
+);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatDateInput = (timestamp: number | null) => {
+  if (timestamp === null) return "";
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Dates are entered as YYYY-MM-DD and stored as local midnight
+const parseDateInput = (text: string, label: string): number | null => {
+  const value = text.trim();
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : null;
+  if (!date || !match || date.getDate() !== Number(match[3])) {
+    throw new AnnotationError(`${label} must be a date like 2024-05-31.`);
+  }
+  return date.getTime();
+};
+
+export function AnnotationEditorModal({
+  visible,
+  mangaId,
+  mangaTitle,
+  annotation,
+  onClose,
+  onSaved,
+}: AnnotationEditorModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [score, setScore] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState("");
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [startedAt, setStartedAt] = useState("");
+  const [finishedAt, setFinishedAt] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setScore(annotation?.score ?? null);
+      setNotes(annotation?.notes ?? "");
+      setTags(annotation?.tags ?? []);
+      setNewTag("");
+      setStartedAt(formatDateInput(annotation?.startedAt ?? null));
+      setFinishedAt(formatDateInput(annotation?.finishedAt ?? null));
+      annotations.getAllTags().then(setKnownTags);
+    }
+  }, [visible, annotation]);
+
+  const addTag = (tag: string) => {
+    setTags((prev) => normalizeTags([...prev, tag]));
+    setNewTag("");
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await annotations.save({
+        mangaId,
+        score,
+        notes,
+        tags: normalizeTags([...tags, newTag]),
+        startedAt: parseDateInput(startedAt, "Start date"),
+        finishedAt: parseDateInput(finishedAt, "Finish date"),
+      });
+      onSaved(saved);
+    } catch (error) {
+      Alert.alert(
+        "Couldn't Save Notes",
+        error instanceof AnnotationError
+          ? error.message
+          : "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  const suggestedTags = knownTags.filter(
+    (tag) =>
+      !tags.some((t) => t.toLowerCase() === tag.toLowerCase()) &&
+      tag.toLowerCase().includes(newTag.trim().toLowerCase()),
+  );
+
+  const renderDateRow = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+  ) => (
+    <View
+      style={[styles.inputRow, { backgroundColor: theme.backgroundDefault }]}
+    >
+      <ThemedText type="body" style={styles.dateLabel}>
+        {label}
+      </ThemedText>
+      <TextInput
+        style={[styles.input, { color: theme.text }]}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={theme.textSecondary}
+        value={value}
+        onChangeText={onChange}
+        keyboardType="numbers-and-punctuation"
+        maxLength={10}
+      />
+      {value ? (
+        <Pressable onPress={() => onChange("")} hitSlop={8}>
+          <Feather name="x-circle" size={16} color={theme.textSecondary} />
+        </Pressable>
+      ) : (
+        <Pressable
+          onPress={() => onChange(formatDateInput(Date.now()))}
+          hitSlop={8}
+        >
+          <ThemedText type="small" style={{ color: theme.primary }}>
+            Today
+          </ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <View style={styles.headerTitle}>
+            <ThemedText type="h3">My Notes</ThemedText>
+            <ThemedText
+              type="caption"
+              style={{ color: theme.textSecondary }}
+              numberOfLines={1}
+            >
+              {mangaTitle}
+            </ThemedText>
+          </View>
+          <Pressable onPress={handleSave} style={styles.saveBtn}>
+            <ThemedText
+              type="small"
+              style={{ color: theme.primary, fontWeight: "600" }}
+            >
+              Save
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            SCORE
+          </ThemedText>
+          <View style={styles.scoreRow}>
+            {SCORES.map((value) => {
+              const isActive = score === value;
+              return (
+                <Pressable
+                  key={value}
+                  // Tapping the current score clears it
+                  onPress={() => setScore(isActive ? null : value)}
+                  style={[
+                    styles.scoreChip,
+                    {
+                      backgroundColor: isActive
+                        ? theme.primary
+                        : theme.backgroundDefault,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{
+                      color: isActive ? "#FFFFFF" : theme.text,
+                      fontWeight: "600",
+                    }}
+                  >
+                    {value}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            NOTES
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.notesInput,
+              { color: theme.text, backgroundColor: theme.backgroundDefault },
+            ]}
+            placeholder="What did you think?"
+            placeholderTextColor={theme.textSecondary}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            MY TAGS
+          </ThemedText>
+          {tags.length > 0 ? (
+            <View style={styles.tagsWrap}>
+              {tags.map((tag) => (
+                <Pressable
+                  key={tag}
+                  onPress={() =>
+                    setTags((prev) => prev.filter((t) => t !== tag))
+                  }
+                  style={[styles.tagChip, { backgroundColor: theme.primary }]}
+                >
+                  <ThemedText type="caption" style={styles.tagChipText}>
+                    {tag}
+                  </ThemedText>
+                  <Feather name="x" size={12} color="#FFFFFF" />
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          <View
+            style={[
+              styles.inputRow,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="tag" size={16} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="Add a tag"
+              placeholderTextColor={theme.textSecondary}
+              value={newTag}
+              onChangeText={setNewTag}
+              onSubmitEditing={() => addTag(newTag)}
+              returnKeyType="done"
+              maxLength={30}
+            />
+            {newTag.trim() ? (
+              <Pressable onPress={() => addTag(newTag)} hitSlop={8}>
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Add
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+          {suggestedTags.length > 0 ? (
+            <View style={styles.tagsWrap}>
+              {suggestedTags.slice(0, 12).map((tag) => (
+                <Pressable
+                  key={tag}
+                  onPress={() => addTag(tag)}
+                  style={[
+                    styles.tagChip,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <Feather name="plus" size={12} color={theme.textSecondary} />
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {tag}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            DATES
+          </ThemedText>
+          {renderDateRow("Started", startedAt, setStartedAt)}
+          {renderDateRow("Finished", finishedAt, setFinishedAt)}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+    gap: Spacing.md,
+  },
+  headerTitle: {
+    flex: 1,
+    alignItems: "center",
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  saveBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+    letterSpacing: 1,
+  },
+  scoreRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  scoreChip: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  notesInput: {
+    minHeight: 120,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    fontSize: 15,
+  },
+  tagsWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  tagChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    gap: Spacing.xs,
+  },
+  tagChipText: {
+    color: "#FFFFFF",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  dateLabel: {
+    width: 72,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+});
@@ -0,0 +1,266 @@
+import React from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ChapterVolume } from "@/services/mangadex";
+import { AutoDownloadStatus } from "@/services/autoDownload";
+
+const NEXT_COUNTS = [5, 10, 25];
+
+export type BulkDownload =
+  | { type: "all" }
+  | { type: "unread" }
+  | { type: "next"; count: number }
+  | { type: "volume"; volume: string | null };
+
+interface BulkDownloadModalProps {
+  visible: boolean;
+  volumes: ChapterVolume[];
+  // null when the manga isn't bookmarked, since only bookmarks are checked
+  autoDownload: AutoDownloadStatus | null;
+  onClose: () => void;
+  onDownload: (selection: BulkDownload) => void;
+  onSelectChapters: () => void;
+  onToggleAutoDownload: (enabled: boolean) => void;
+}
+
+export function BulkDownloadModal({
+  visible,
+  volumes,
+  autoDownload,
+  onClose,
+  onDownload,
+  onSelectChapters,
+  onToggleAutoDownload,
+}: BulkDownloadModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const renderOption = (
+    icon: keyof typeof Feather.glyphMap,
+    label: string,
+    onPress: () => void,
+    detail?: string,
+  ) => (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.optionRow,
+        {
+          backgroundColor: theme.backgroundDefault,
+          opacity: pressed ? 0.7 : 1,
+        },
+      ]}
+    >
+      <Feather name={icon} size={18} color={theme.text} />
+      <ThemedText type="body" style={styles.optionLabel}>
+        {label}
+      </ThemedText>
+      {detail ? (
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {detail}
+        </ThemedText>
+      ) : null}
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Download</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.section}>
+            {renderOption("download", "All Chapters", () =>
+              onDownload({ type: "all" }),
+            )}
+            {renderOption("book", "Unread Chapters", () =>
+              onDownload({ type: "unread" }),
+            )}
+            <View
+              style={[
+                styles.optionRow,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <Feather name="fast-forward" size={18} color={theme.text} />
+              <ThemedText type="body" style={styles.optionLabel}>
+                Next Unread
+              </ThemedText>
+              <View style={styles.chips}>
+                {NEXT_COUNTS.map((count) => (
+                  <Pressable
+                    key={count}
+                    onPress={() => onDownload({ type: "next", count })}
+                    style={({ pressed }) => [
+                      styles.chip,
+                      {
+                        backgroundColor: theme.backgroundSecondary,
+                        opacity: pressed ? 0.7 : 1,
+                      },
+                    ]}
+                  >
+                    <ThemedText type="caption">{count}</ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+            {renderOption(
+              "check-square",
+              "Select Chapters",
+              onSelectChapters,
+              "Pick or range",
+            )}
+          </View>
+
+          {autoDownload ? (
+            <View style={styles.section}>
+              <ThemedText
+                type="caption"
+                style={[styles.sectionTitle, { color: theme.textSecondary }]}
+              >
+                NEW CHAPTERS
+              </ThemedText>
+              <View
+                style={[
+                  styles.optionRow,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <Feather name="download-cloud" size={18} color={theme.text} />
+                <View style={styles.optionLabel}>
+                  <ThemedText type="body">Auto-download</ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {autoDownload.category
+                      ? `Also on for everything in ${autoDownload.category}`
+                      : "Queued when the update check finds them"}
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={autoDownload.enabled}
+                  onValueChange={onToggleAutoDownload}
+                  trackColor={{
+                    false: theme.backgroundSecondary,
+                    true: theme.primary,
+                  }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            </View>
+          ) : null}
+
+          {volumes.length > 0 ? (
+            <View style={styles.section}>
+              <ThemedText
+                type="caption"
+                style={[styles.sectionTitle, { color: theme.textSecondary }]}
+              >
+                VOLUMES
+              </ThemedText>
+              {volumes.map((volume) => (
+                <React.Fragment key={volume.volume ?? "none"}>
+                  {renderOption(
+                    "layers",
+                    volume.volume ? `Volume ${volume.volume}` : "No Volume",
+                    () => onDownload({ type: "volume", volume: volume.volume }),
+                    `${volume.chapters.length} ch.`,
+                  )}
+                </React.Fragment>
+              ))}
+            </View>
+          ) : null}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.xl,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionTitle: {
+    marginLeft: Spacing.sm,
+    fontWeight: "600",
+    letterSpacing: 1,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  optionLabel: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  chip: {
+    minWidth: 36,
+    alignItems: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ReorderableList } from "@/components/ReorderableList";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { categories, Category, CategoryNameError } from "@/services/categories";
+import { autoDownload } from "@/services/autoDownload";
+import { notificationService } from "@/services/notificationService";
+
+interface CategoryManagerModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ROW_HEIGHT = 56;
+
+const showNameError = (error: unknown) => {
+  Alert.alert(
+    "Couldn't Save Category",
+    error instanceof CategoryNameError
+      ? error.message
+      : "Something went wrong. Please try again.",
+  );
+};
+
+export function CategoryManagerModal({
+  visible,
+  onClose,
+}: CategoryManagerModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [categoryList, setCategoryList] = useState<Category[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [newName, setNewName] = useState("");
+  const [autoDownloadIds, setAutoDownloadIds] = useState<number[]>([]);
+
+  const loadCategories = async () => {
+    const [categoryData, autoDownloadData] = await Promise.all([
+      categories.getCategories(),
+      autoDownload.getCategoryIds(),
+    ]);
+    setCategoryList(categoryData);
+    setAutoDownloadIds(autoDownloadData);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setEditingId(null);
+      setNewName("");
+      loadCategories();
+    }
+  }, [visible]);
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    try {
+      const created = await categories.createCategory(newName);
+      setCategoryList((prev) => [...prev, created]);
+      setNewName("");
+    } catch (error) {
+      showNameError(error);
+    }
+  };
+
+  const handleRename = async () => {
+    if (editingId === null) return;
+    try {
+      await categories.renameCategory(editingId, editingName);
+      setEditingId(null);
+      loadCategories();
+    } catch (error) {
+      showNameError(error);
+    }
+  };
+
+  const handleDelete = (category: Category) => {
+    Alert.alert(
+      "Delete Category",
+      `Delete "${category.name}"? Manga in it stay bookmarked.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await categories.deleteCategory(category.id);
+            setCategoryList((prev) => prev.filter((c) => c.id !== category.id));
+          },
+        },
+      ],
+    );
+  };
+
+  const handleToggleAutoDownload = async (category: Category) => {
+    const enabled = !autoDownloadIds.includes(category.id);
+    setAutoDownloadIds((prev) =>
+      enabled
+        ? [...prev, category.id]
+        : prev.filter((id) => id !== category.id),
+    );
+    await autoDownload.setCategory(category.id, enabled);
+    await notificationService.syncBackgroundTask();
+  };
+
+  const handleReorder = (reordered: Category[]) => {
+    setCategoryList(reordered);
+    categories.reorderCategories(reordered.map((c) => c.id));
+  };
+
+  const renderCategory = (
+    category: Category,
+    dragHandle: (handle: React.ReactNode) => React.ReactNode,
+  ) => (
+    <View style={[styles.row, { backgroundColor: theme.backgroundDefault }]}>
+      {dragHandle(
+        <View style={styles.iconButton}>
+          <Feather name="menu" size={18} color={theme.textSecondary} />
+        </View>,
+      )}
+      {editingId === category.id ? (
+        <>
+          <TextInput
+            style={[styles.input, { color: theme.text }]}
+            value={editingName}
+            onChangeText={setEditingName}
+            onSubmitEditing={handleRename}
+            returnKeyType="done"
+            maxLength={40}
+            autoFocus
+          />
+          <Pressable
+            onPress={handleRename}
+            style={styles.iconButton}
+            hitSlop={8}
+          >
+            <Feather name="check" size={18} color={theme.primary} />
+          </Pressable>
+          <Pressable
+            onPress={() => setEditingId(null)}
+            style={styles.iconButton}
+            hitSlop={8}
+          >
+            <Feather name="x" size={18} color={theme.textSecondary} />
+          </Pressable>
+        </>
+      ) : (
+        <>
+          <ThemedText type="body" style={styles.name} numberOfLines={1}>
+            {category.name}
+          </ThemedText>
+          <Pressable
+            onPress={() => handleToggleAutoDownload(category)}
+            style={styles.iconButton}
+            hitSlop={8}
+          >
+            <Feather
+              name="download-cloud"
+              size={18}
+              color={
+                autoDownloadIds.includes(category.id)
+                  ? theme.primary
+                  : theme.textSecondary
+              }
+            />
+          </Pressable>
+          <Pressable
+            onPress={() => {
+              setEditingId(category.id);
+              setEditingName(category.name);
+            }}
+            style={styles.iconButton}
+            hitSlop={8}
+          >
+            <Feather name="edit-2" size={18} color={theme.textSecondary} />
+          </Pressable>
+          <Pressable
+            onPress={() => handleDelete(category)}
+            style={styles.iconButton}
+            hitSlop={8}
+          >
+            <Feather name="trash-2" size={18} color={theme.textSecondary} />
+          </Pressable>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Categories</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View
+          style={[styles.addRow, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <Feather name="plus" size={18} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.input, { color: theme.text }]}
+            placeholder="New category"
+            placeholderTextColor={theme.textSecondary}
+            value={newName}
+            onChangeText={setNewName}
+            onSubmitEditing={handleAdd}
+            returnKeyType="done"
+            maxLength={40}
+          />
+          {newName.trim() ? (
+            <Pressable onPress={handleAdd} hitSlop={8}>
+              <ThemedText type="small" style={{ color: theme.primary }}>
+                Add
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+
+        <ThemedText
+          type="caption"
+          style={[styles.hint, { color: theme.textSecondary }]}
+        >
+          Drag the handle to change the order of the Library tabs. Tap the cloud
+          to auto-download new chapters of everything in a category.
+        </ThemedText>
+
+        <ReorderableList
+          data={categoryList}
+          keyExtractor={(category) => String(category.id)}
+          itemHeight={ROW_HEIGHT}
+          renderItem={renderCategory}
+          onReorder={handleReorder}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: Spacing.xl,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  hint: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.xl,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: ROW_HEIGHT - Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  name: {
+    flex: 1,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+  iconButton: {
+    padding: Spacing.sm,
+  },
+});
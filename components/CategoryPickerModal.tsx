@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { categories, Category, CategoryNameError } from "@/services/categories";
+
+interface CategoryPickerModalProps {
+  visible: boolean;
+  title: string;
+  initialSelection: number[];
+  confirmLabel?: string;
+  onClose: () => void;
+  onConfirm: (categoryIds: number[]) => void;
+  destructiveAction?: { label: string; onPress: () => void };
+}
+
+export function CategoryPickerModal({
+  visible,
+  title,
+  initialSelection,
+  confirmLabel = "Save",
+  onClose,
+  onConfirm,
+  destructiveAction,
+}: CategoryPickerModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [categoryList, setCategoryList] = useState<Category[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(initialSelection);
+      setNewName("");
+      categories.getCategories().then(setCategoryList);
+    }
+  }, [visible, initialSelection]);
+
+  const toggleCategory = (id: number) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id],
+    );
+  };
+
+  const handleAddCategory = async () => {
+    if (!newName.trim()) return;
+    try {
+      const created = await categories.createCategory(newName);
+      setCategoryList((prev) => [...prev, created]);
+      setSelected((prev) => [...prev, created.id]);
+      setNewName("");
+    } catch (error) {
+      Alert.alert(
+        "Couldn't Add Category",
+        error instanceof CategoryNameError
+          ? error.message
+          : "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">{title}</ThemedText>
+          <Pressable
+            onPress={() => onConfirm(selected)}
+            style={styles.confirmBtn}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: theme.primary, fontWeight: "600" }}
+            >
+              {confirmLabel}
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {categoryList.length === 0 ? (
+            <ThemedText
+              type="small"
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              No categories yet. Add one below.
+            </ThemedText>
+          ) : null}
+
+          {categoryList.map((category) => {
+            const isSelected = selected.includes(category.id);
+            return (
+              <Pressable
+                key={category.id}
+                onPress={() => toggleCategory(category.id)}
+                style={[
+                  styles.optionRow,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.checkbox,
+                    {
+                      borderColor: isSelected
+                        ? theme.primary
+                        : theme.textSecondary,
+                      backgroundColor: isSelected
+                        ? theme.primary
+                        : "transparent",
+                    },
+                  ]}
+                >
+                  {isSelected && (
+                    <Feather name="check" size={12} color="#FFFFFF" />
+                  )}
+                </View>
+                <ThemedText type="body" style={styles.optionLabel}>
+                  {category.name}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+
+          <View
+            style={[
+              styles.optionRow,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="plus" size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="New category"
+              placeholderTextColor={theme.textSecondary}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleAddCategory}
+              returnKeyType="done"
+              maxLength={40}
+            />
+            {newName.trim() ? (
+              <Pressable onPress={handleAddCategory} hitSlop={8}>
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Add
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+
+          {destructiveAction ? (
+            <Pressable
+              onPress={destructiveAction.onPress}
+              style={({ pressed }) => [
+                styles.destructiveRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              <Feather name="trash-2" size={18} color="#FF6B6B" />
+              <ThemedText type="body" style={{ color: "#FF6B6B" }}>
+                {destructiveAction.label}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  confirmBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.md,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  optionLabel: {
+    flex: 1,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+  destructiveRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+});
@@ -0,0 +1,301 @@
+import React from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { Manga } from "@/services/mangadex";
+import {
+  LibrarySortKey,
+  LibraryViewOptions,
+  defaultLibraryViewOptions,
+  DEFAULT_SORT_ASCENDING,
+} from "@/services/libraryView";
+
+interface LibraryFilterModalProps {
+  visible: boolean;
+  options: LibraryViewOptions;
+  availableTags: string[];
+  onChange: (options: LibraryViewOptions) => void;
+  onClose: () => void;
+}
+
+const SORT_OPTIONS: { value: LibrarySortKey; label: string }[] = [
+  { value: "custom", label: "Custom Order" },
+  { value: "title", label: "Title" },
+  { value: "dateAdded", label: "Date Added" },
+  { value: "lastRead", label: "Last Read" },
+  { value: "latestUpload", label: "Latest Chapter Upload" },
+  { value: "unread", label: "Unread Count" },
+  { value: "score", label: "My Score" },
+  { value: "dateFinished", label: "Date Finished" },
+];
+
+const STATUS_OPTIONS = [
+  { value: "ongoing", label: "Ongoing" },
+  { value: "completed", label: "Completed" },
+];
+
+const TYPE_OPTIONS: Manga["type"][] = ["Manga", "Manhwa", "Manhua"];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+export function LibraryFilterModal({
+  visible,
+  options,
+  availableTags,
+  onChange,
+  onClose,
+}: LibraryFilterModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const handleSort = (sortBy: LibrarySortKey) => {
+    // Tapping the active sort flips its direction
+    onChange({
+      ...options,
+      sortBy,
+      ascending:
+        sortBy === options.sortBy
+          ? !options.ascending
+          : DEFAULT_SORT_ASCENDING[sortBy],
+    });
+  };
+
+  const renderCheckbox = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[styles.optionRow, { backgroundColor: theme.backgroundDefault }]}
+    >
+      <View
+        style={[
+          styles.checkbox,
+          {
+            borderColor: isSelected ? theme.primary : theme.textSecondary,
+            backgroundColor: isSelected ? theme.primary : "transparent",
+          },
+        ]}
+      >
+        {isSelected && <Feather name="check" size={12} color="#FFFFFF" />}
+      </View>
+      <ThemedText type="body" style={styles.optionLabel}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Sort & Filter</ThemedText>
+          <Pressable
+            onPress={() => onChange(defaultLibraryViewOptions)}
+            style={styles.resetBtn}
+          >
+            <ThemedText type="small" style={{ color: theme.primary }}>
+              Reset
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          showsVerticalScrollIndicator={false}
+        >
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            SORT BY
+          </ThemedText>
+          {SORT_OPTIONS.map((option) => {
+            const isActive = options.sortBy === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => handleSort(option.value)}
+                style={[
+                  styles.optionRow,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <ThemedText type="body" style={styles.optionLabel}>
+                  {option.label}
+                </ThemedText>
+                {isActive ? (
+                  <Feather
+                    name={
+                      option.value === "custom"
+                        ? "check"
+                        : options.ascending
+                          ? "arrow-up"
+                          : "arrow-down"
+                    }
+                    size={20}
+                    color={theme.primary}
+                  />
+                ) : null}
+              </Pressable>
+            );
+          })}
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            SHOW ONLY
+          </ThemedText>
+          {renderCheckbox(
+            "downloaded",
+            "Downloaded",
+            options.downloadedOnly,
+            () =>
+              onChange({ ...options, downloadedOnly: !options.downloadedOnly }),
+          )}
+          {renderCheckbox("unread", "Unread", options.unreadOnly, () =>
+            onChange({ ...options, unreadOnly: !options.unreadOnly }),
+          )}
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            STATUS
+          </ThemedText>
+          {STATUS_OPTIONS.map((option) =>
+            renderCheckbox(
+              option.value,
+              option.label,
+              options.status.includes(option.value),
+              () =>
+                onChange({
+                  ...options,
+                  status: toggle(options.status, option.value),
+                }),
+            ),
+          )}
+
+          <ThemedText
+            type="caption"
+            style={[styles.sectionTitle, { color: theme.textSecondary }]}
+          >
+            TYPE
+          </ThemedText>
+          {TYPE_OPTIONS.map((type) =>
+            renderCheckbox(type, type, options.types.includes(type), () =>
+              onChange({ ...options, types: toggle(options.types, type) }),
+            ),
+          )}
+
+          {availableTags.length > 0 ? (
+            <ThemedText
+              type="caption"
+              style={[styles.sectionTitle, { color: theme.textSecondary }]}
+            >
+              MY TAGS
+            </ThemedText>
+          ) : null}
+          {availableTags.map((tag) =>
+            renderCheckbox(
+              `tag:${tag}`,
+              tag,
+              options.userTags.includes(tag),
+              () =>
+                onChange({
+                  ...options,
+                  userTags: toggle(options.userTags, tag),
+                }),
+            ),
+          )}
+
+          {options.sortBy !== "custom" ? (
+            <ThemedText
+              type="caption"
+              style={[styles.hint, { color: theme.textSecondary }]}
+            >
+              Switch back to Custom Order to drag manga within a category
+            </ThemedText>
+          ) : null}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  resetBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+    letterSpacing: 1,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  optionLabel: {
+    flex: 1,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  hint: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { mangaLists, MangaList, MangaListError } from "@/services/mangaLists";
+
+interface ListPickerModalProps {
+  visible: boolean;
+  initialSelection: number[];
+  onClose: () => void;
+  onConfirm: (listIds: number[]) => void;
+}
+
+export function ListPickerModal({
+  visible,
+  initialSelection,
+  onClose,
+  onConfirm,
+}: ListPickerModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [lists, setLists] = useState<MangaList[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(initialSelection);
+      setNewName("");
+      mangaLists.getLists().then(setLists);
+    }
+  }, [visible, initialSelection]);
+
+  const toggleList = (id: number) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id],
+    );
+  };
+
+  const handleAddList = async () => {
+    if (!newName.trim()) return;
+    try {
+      const created = await mangaLists.createList(newName);
+      setLists((prev) => [...prev, created]);
+      setSelected((prev) => [...prev, created.id]);
+      setNewName("");
+    } catch (error) {
+      Alert.alert(
+        "Couldn't Add List",
+        error instanceof MangaListError
+          ? error.message
+          : "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Add to List</ThemedText>
+          <Pressable
+            onPress={() => onConfirm(selected)}
+            style={styles.confirmBtn}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: theme.primary, fontWeight: "600" }}
+            >
+              Save
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {lists.length === 0 ? (
+            <ThemedText
+              type="small"
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              No lists yet. Add one below.
+            </ThemedText>
+          ) : null}
+
+          {lists.map((list) => {
+            const isSelected = selected.includes(list.id);
+            return (
+              <Pressable
+                key={list.id}
+                onPress={() => toggleList(list.id)}
+                style={[
+                  styles.optionRow,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.checkbox,
+                    {
+                      borderColor: isSelected
+                        ? theme.primary
+                        : theme.textSecondary,
+                      backgroundColor: isSelected
+                        ? theme.primary
+                        : "transparent",
+                    },
+                  ]}
+                >
+                  {isSelected && (
+                    <Feather name="check" size={12} color="#FFFFFF" />
+                  )}
+                </View>
+                <ThemedText type="body" style={styles.optionLabel}>
+                  {list.name}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {list.mangaCount}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+
+          <View
+            style={[
+              styles.optionRow,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="plus" size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="New list"
+              placeholderTextColor={theme.textSecondary}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleAddList}
+              returnKeyType="done"
+              maxLength={40}
+            />
+            {newName.trim() ? (
+              <Pressable onPress={handleAddList} hitSlop={8}>
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Add
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  confirmBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.md,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  optionLabel: {
+    flex: 1,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+});
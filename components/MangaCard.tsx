@@ -13,12 +13,15 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { BorderRadius, Spacing } from "@/constants/theme";
-import { Manga } from "@/services/mangadex";
+import { Manga, MangaStatistics } from "@/services/mangadex";
 
 interface MangaCardProps {
   manga: Manga;
   onPress: () => void;
+  onLongPress?: () => void;
   width?: number;
+  unreadCount?: number;
+  statistics?: MangaStatistics;
 }
 
 const springConfig: WithSpringConfig = {
@@ -34,10 +37,19 @@ const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const DEFAULT_CARD_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2 - Spacing.md) / 2;
 
+const formatCount = (count: number) => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return String(count);
+};
+
 export function MangaCard({
   manga,
   onPress,
+  onLongPress,
   width = DEFAULT_CARD_WIDTH,
+  unreadCount = 0,
+  statistics,
 }: MangaCardProps) {
   const { theme, isDark } = useTheme();
   const scale = useSharedValue(1);
@@ -59,6 +71,7 @@ export function MangaCard({
   return (
     <AnimatedPressable
       onPress={onPress}
+      onLongPress={onLongPress}
       onPressIn={handlePressIn}
       onPressOut={handlePressOut}
       style={[
@@ -86,6 +99,44 @@ export function MangaCard({
         </View>
       )}
 
+      {unreadCount > 0 ? (
+        <View style={[styles.unreadBadge, { backgroundColor: theme.primary }]}>
+          <ThemedText
+            type="caption"
+            style={styles.unreadBadgeText}
+            lightColor="#FFFFFF"
+            darkColor="#FFFFFF"
+          >
+            {unreadCount}
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {statistics ? (
+        <View style={styles.statsBadge}>
+          <Feather name="star" size={10} color="#FFD166" />
+          <ThemedText
+            type="caption"
+            style={styles.statsBadgeText}
+            lightColor="#FFFFFF"
+            darkColor="#FFFFFF"
+          >
+            {statistics.bayesianRating !== null
+              ? statistics.bayesianRating.toFixed(1)
+              : "-"}
+          </ThemedText>
+          <Feather name="users" size={10} color="#FFFFFF" />
+          <ThemedText
+            type="caption"
+            style={styles.statsBadgeText}
+            lightColor="#FFFFFF"
+            darkColor="#FFFFFF"
+          >
+            {formatCount(statistics.follows)}
+          </ThemedText>
+        </View>
+      ) : null}
+
       <LinearGradient
         colors={["transparent", "rgba(0,0,0,0.8)"]}
         style={styles.gradient}
@@ -132,4 +183,32 @@ const styles = StyleSheet.create({
   title: {
     fontWeight: "600",
   },
+  unreadBadge: {
+    position: "absolute",
+    top: Spacing.sm,
+    right: Spacing.sm,
+    minWidth: 24,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+  },
+  unreadBadgeText: {
+    fontWeight: "600",
+  },
+  statsBadge: {
+    position: "absolute",
+    top: Spacing.sm,
+    left: Spacing.sm,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    backgroundColor: "rgba(0,0,0,0.6)",
+  },
+  statsBadgeText: {
+    fontWeight: "600",
+  },
 });
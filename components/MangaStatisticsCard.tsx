@@ -0,0 +1,169 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { MangaStatistics } from "@/services/mangadex";
+
+interface MangaStatisticsCardProps {
+  statistics: MangaStatistics;
+}
+
+const SCORES = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
+
+const formatCount = (count: number) => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return String(count);
+};
+
+export function MangaStatisticsCard({ statistics }: MangaStatisticsCardProps) {
+  const { theme } = useTheme();
+  const { distribution } = statistics;
+  const votes = distribution
+    ? SCORES.reduce((sum, score) => sum + (distribution[score] || 0), 0)
+    : 0;
+  const maxVotes = distribution
+    ? Math.max(1, ...SCORES.map((score) => distribution[score] || 0))
+    : 1;
+
+  const renderStat = (
+    icon: keyof typeof Feather.glyphMap,
+    value: string,
+    label: string,
+  ) => (
+    <View style={styles.stat}>
+      <View style={styles.statValue}>
+        <Feather name={icon} size={14} color={theme.primary} />
+        <ThemedText type="h4">{value}</ThemedText>
+      </View>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+      <View style={styles.statsRow}>
+        {renderStat(
+          "star",
+          statistics.bayesianRating !== null
+            ? statistics.bayesianRating.toFixed(2)
+            : "-",
+          "Score",
+        )}
+        {renderStat(
+          "bar-chart-2",
+          statistics.rating !== null ? statistics.rating.toFixed(2) : "-",
+          "Mean",
+        )}
+        {renderStat("users", formatCount(statistics.follows), "Follows")}
+        {renderStat(
+          "message-square",
+          formatCount(statistics.comments),
+          "Comments",
+        )}
+      </View>
+
+      {distribution && votes > 0 ? (
+        <View style={styles.distribution}>
+          {SCORES.map((score) => {
+            const count = distribution[score] || 0;
+            return (
+              <View key={score} style={styles.barRow}>
+                <ThemedText
+                  type="caption"
+                  style={[styles.barLabel, { color: theme.textSecondary }]}
+                >
+                  {score}
+                </ThemedText>
+                <View
+                  style={[
+                    styles.barTrack,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.barFill,
+                      {
+                        backgroundColor: theme.primary,
+                        width: `${(count / maxVotes) * 100}%`,
+                      },
+                    ]}
+                  />
+                </View>
+                <ThemedText
+                  type="caption"
+                  style={[styles.barCount, { color: theme.textSecondary }]}
+                >
+                  {formatCount(count)}
+                </ThemedText>
+              </View>
+            );
+          })}
+          <ThemedText
+            type="caption"
+            style={[styles.votes, { color: theme.textSecondary }]}
+          >
+            {formatCount(votes)} rating{votes !== 1 ? "s" : ""} on MangaDex
+          </ThemedText>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: Spacing.xl,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  stat: {
+    alignItems: "center",
+    flex: 1,
+  },
+  statValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  distribution: {
+    gap: Spacing.xs,
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  barLabel: {
+    width: 18,
+    textAlign: "right",
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: BorderRadius.full,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    borderRadius: BorderRadius.full,
+  },
+  barCount: {
+    width: 44,
+  },
+  votes: {
+    textAlign: "center",
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,53 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+import { MAX_RESULT_OFFSET } from "@/services/mangadex";
+
+interface PaginationFooterProps {
+  loadingMore: boolean;
+  reachedEnd: boolean;
+  total: number;
+}
+
+export function PaginationFooter({
+  loadingMore,
+  reachedEnd,
+  total,
+}: PaginationFooterProps) {
+  const { theme } = useTheme();
+
+  if (loadingMore) {
+    return <LoadingIndicator size="small" />;
+  }
+
+  if (!reachedEnd) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText
+        type="small"
+        style={[styles.text, { color: theme.textSecondary }]}
+      >
+        {total > MAX_RESULT_OFFSET
+          ? `MangaDex only lists the first ${MAX_RESULT_OFFSET.toLocaleString()} results. Narrow your filters to see the rest.`
+          : "You've reached the end"}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: Spacing.xl,
+    paddingHorizontal: Spacing.lg,
+  },
+  text: {
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  FlatList,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { EmptyState } from "@/components/EmptyState";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { historyLog, HistoryEntry } from "@/services/historyLog";
+
+type DateRange = "all" | "today" | "week" | "month";
+
+interface ReadingTimelineProps {
+  onMangaPress: (mangaId: string) => void;
+  contentPaddingBottom: number;
+}
+
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES: { key: DateRange; label: string }[] = [
+  { key: "all", label: "All time" },
+  { key: "today", label: "Today" },
+  { key: "week", label: "7 days" },
+  { key: "month", label: "30 days" },
+];
+
+const READER_LABELS: Record<HistoryEntry["readerType"], string> = {
+  standard: "Standard",
+  lite: "Lite",
+  html: "HTML",
+};
+
+const getRangeStart = (range: DateRange): number | undefined => {
+  switch (range) {
+    case "today": {
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case "week":
+      return Date.now() - 7 * DAY_MS;
+    case "month":
+      return Date.now() - 30 * DAY_MS;
+    default:
+      return undefined;
+  }
+};
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return "<1 min";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `${date.toLocaleDateString()} ${time}`;
+};
+
+export function ReadingTimeline({
+  onMangaPress,
+  contentPaddingBottom,
+}: ReadingTimelineProps) {
+  const { theme } = useTheme();
+
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [range, setRange] = useState<DateRange>("all");
+  const [mangaFilter, setMangaFilter] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const loadEntries = useCallback(
+    async (offset: number) => {
+      const page = await historyLog.getEntries({
+        from: getRangeStart(range),
+        mangaId: mangaFilter?.id,
+        query: debouncedQuery,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      setEntries((prev) => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+      setLoading(false);
+    },
+    [range, mangaFilter, debouncedQuery],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries(0);
+    }, [loadEntries]),
+  );
+
+  const handleDeleteEntry = (entry: HistoryEntry) => {
+    Alert.alert(
+      "Delete Entry",
+      `Remove Ch. ${entry.chapterNumber} of "${entry.mangaTitle}" from your reading history?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await historyLog.deleteEntry(entry.id);
+            setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+          },
+        },
+      ],
+    );
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: active ? theme.primary : theme.backgroundDefault,
+        },
+      ]}
+    >
+      <ThemedText
+        type="caption"
+        style={{ color: active ? "#FFFFFF" : theme.textSecondary }}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => (
+    <Pressable
+      onPress={() => onMangaPress(item.mangaId)}
+      onLongPress={() => handleDeleteEntry(item)}
+      style={({ pressed }) => [
+        styles.entry,
+        {
+          backgroundColor: theme.backgroundDefault,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+    >
+      <View style={styles.entryContent}>
+        <ThemedText type="body" style={styles.entryTitle} numberOfLines={1}>
+          {item.mangaTitle}
+        </ThemedText>
+        <ThemedText type="small">
+          Ch. {item.chapterNumber} - {READER_LABELS[item.readerType]} reader
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {formatTimestamp(item.startedAt)} -{" "}
+          {formatDuration(item.endedAt - item.startedAt)} - {item.pagesRead}/
+          {item.totalPages} pages
+        </ThemedText>
+      </View>
+      <Pressable
+        onPress={() =>
+          setMangaFilter(
+            mangaFilter?.id === item.mangaId
+              ? null
+              : { id: item.mangaId, title: item.mangaTitle },
+          )
+        }
+        style={({ pressed }) => [
+          styles.iconButton,
+          { opacity: pressed ? 0.6 : 1 },
+        ]}
+        hitSlop={8}
+      >
+        <Feather
+          name="filter"
+          size={18}
+          color={
+            mangaFilter?.id === item.mangaId
+              ? theme.primary
+              : theme.textSecondary
+          }
+        />
+      </Pressable>
+      <Pressable
+        onPress={() => handleDeleteEntry(item)}
+        style={({ pressed }) => [
+          styles.iconButton,
+          { opacity: pressed ? 0.6 : 1 },
+        ]}
+        hitSlop={8}
+      >
+        <Feather name="trash-2" size={18} color={theme.textSecondary} />
+      </Pressable>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <View
+          style={[
+            styles.searchBar,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Feather name="search" size={18} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.input, { color: theme.text }]}
+            placeholder="Search history..."
+            placeholderTextColor={theme.textSecondary}
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+          {query.length > 0 ? (
+            <Pressable
+              onPress={() => setQuery("")}
+              style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+            >
+              <Feather name="x" size={18} color={theme.textSecondary} />
+            </Pressable>
+          ) : null}
+        </View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {DATE_RANGES.map((option) =>
+            renderChip(option.key, option.label, range === option.key, () =>
+              setRange(option.key),
+            ),
+          )}
+          {mangaFilter ? (
+            <Pressable
+              onPress={() => setMangaFilter(null)}
+              style={[
+                styles.chip,
+                styles.mangaChip,
+                { backgroundColor: theme.primary },
+              ]}
+            >
+              <ThemedText
+                type="caption"
+                style={styles.mangaChipText}
+                numberOfLines={1}
+              >
+                {mangaFilter.title}
+              </ThemedText>
+              <Feather name="x" size={12} color="#FFFFFF" />
+            </Pressable>
+          ) : null}
+        </ScrollView>
+      </View>
+
+      {loading ? (
+        <LoadingIndicator />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title="No Reading Sessions"
+          message={
+            debouncedQuery || mangaFilter || range !== "all"
+              ? "No sessions match these filters"
+              : "Chapters you read will be logged here"
+          }
+        />
+      ) : (
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => String(item.id)}
+          onEndReached={() => {
+            if (hasMore) loadEntries(entries.length);
+          }}
+          onEndReachedThreshold={0.5}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: contentPaddingBottom },
+          ]}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  filters: {
+    paddingHorizontal: Spacing.xl,
+    gap: Spacing.sm,
+    paddingBottom: Spacing.sm,
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: 40,
+    borderRadius: BorderRadius.xs,
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    height: "100%",
+  },
+  chipRow: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  mangaChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    maxWidth: 200,
+  },
+  mangaChipText: {
+    color: "#FFFFFF",
+    flexShrink: 1,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.sm,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  entryContent: {
+    flex: 1,
+    gap: 2,
+  },
+  entryTitle: {
+    fontWeight: "600",
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+});
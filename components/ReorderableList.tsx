@@ -0,0 +1,176 @@
+import React, { useEffect } from "react";
+import { StyleProp, ViewStyle } from "react-native";
+import {
+  Gesture,
+  GestureDetector,
+  ScrollView,
+} from "react-native-gesture-handler";
+import Animated, {
+  SharedValue,
+  runOnJS,
+  useAnimatedReaction,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+
+type Positions = Record<string, number>;
+
+interface ReorderableListProps<T> {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  // Rows are absolutely positioned, so every row must render at this height.
+  itemHeight: number;
+  renderItem: (
+    item: T,
+    dragHandle: (handle: React.ReactNode) => React.ReactNode,
+  ) => React.ReactNode;
+  onReorder: (data: T[]) => void;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+interface RowProps {
+  id: string;
+  count: number;
+  itemHeight: number;
+  positions: SharedValue<Positions>;
+  onDragEnd: (positions: Positions) => void;
+  children: (
+    handle: (handle: React.ReactNode) => React.ReactNode,
+  ) => React.ReactNode;
+}
+
+const toPositions = (keys: string[]): Positions =>
+  Object.fromEntries(keys.map((key, index) => [key, index]));
+
+function ReorderableRow({
+  id,
+  count,
+  itemHeight,
+  positions,
+  onDragEnd,
+  children,
+}: RowProps) {
+  const top = useSharedValue((positions.value[id] ?? 0) * itemHeight);
+  const dragStartTop = useSharedValue(0);
+  const isDragging = useSharedValue(false);
+
+  useAnimatedReaction(
+    () => positions.value[id],
+    (current, previous) => {
+      if (current !== previous && current !== undefined && !isDragging.value) {
+        top.value = withTiming(current * itemHeight, { duration: 150 });
+      }
+    },
+  );
+
+  const pan = Gesture.Pan()
+    .onStart(() => {
+      isDragging.value = true;
+      dragStartTop.value = top.value;
+    })
+    .onUpdate((event) => {
+      top.value = Math.max(
+        0,
+        Math.min(
+          dragStartTop.value + event.translationY,
+          (count - 1) * itemHeight,
+        ),
+      );
+      const from = positions.value[id];
+      const to = Math.round(top.value / itemHeight);
+      if (to === from) return;
+
+      // Shift every row between the old and new slot by one
+      const next: Positions = {};
+      for (const key in positions.value) {
+        let index = positions.value[key];
+        if (key === id) index = to;
+        else if (index > from && index <= to) index -= 1;
+        else if (index < from && index >= to) index += 1;
+        next[key] = index;
+      }
+      positions.value = next;
+    })
+    .onFinalize(() => {
+      if (!isDragging.value) return;
+      isDragging.value = false;
+      top.value = withTiming(positions.value[id] * itemHeight, {
+        duration: 150,
+      });
+      runOnJS(onDragEnd)(positions.value);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: itemHeight,
+    top: top.value,
+    zIndex: isDragging.value ? 1 : 0,
+    opacity: isDragging.value ? 0.9 : 1,
+  }));
+
+  return (
+    <Animated.View style={animatedStyle}>
+      {children((handle) => (
+        <GestureDetector gesture={pan}>
+          <Animated.View>{handle}</Animated.View>
+        </GestureDetector>
+      ))}
+    </Animated.View>
+  );
+}
+
+export function ReorderableList<T>({
+  data,
+  keyExtractor,
+  itemHeight,
+  renderItem,
+  onReorder,
+  contentContainerStyle,
+}: ReorderableListProps<T>) {
+  const order = data.map(keyExtractor).join("\n");
+  const positions = useSharedValue<Positions>(toPositions(order.split("\n")));
+
+  // Only reset when the keys change so unrelated re-renders mid-drag don't
+  // snap rows back to their old slots.
+  useEffect(() => {
+    positions.value = toPositions(order.split("\n"));
+  }, [order, positions]);
+
+  const handleDragEnd = (finalPositions: Positions) => {
+    const reordered = [...data].sort(
+      (a, b) =>
+        finalPositions[keyExtractor(a)] - finalPositions[keyExtractor(b)],
+    );
+    if (reordered.some((item, index) => item !== data[index])) {
+      onReorder(reordered);
+    }
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={contentContainerStyle}
+      showsVerticalScrollIndicator={false}
+    >
+      <Animated.View style={{ height: data.length * itemHeight }}>
+        {data.map((item) => {
+          const id = keyExtractor(item);
+          return (
+            <ReorderableRow
+              key={id}
+              id={id}
+              count={data.length}
+              itemHeight={itemHeight}
+              positions={positions}
+              onDragEnd={handleDragEnd}
+            >
+              {(dragHandle) => renderItem(item, dragHandle)}
+            </ReorderableRow>
+          );
+        })}
+      </Animated.View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { RetentionPolicy, RetentionRule } from "@/services/storage";
+import {
+  downloadRetention,
+  formatQuota,
+  CleanupPlan,
+} from "@/services/downloadRetention";
+
+const DAY_OPTIONS = [1, 3, 7, 14, 30];
+const KEEP_OPTIONS = [5, 10, 25, 50];
+const QUOTA_OPTIONS = [null, 500, 1024, 2048, 5120];
+const MAX_PREVIEW_ITEMS = 50;
+
+const RULES: { rule: RetentionRule; label: string; description: string }[] = [
+  {
+    rule: "forever",
+    label: "Keep Forever",
+    description: "Nothing is deleted automatically",
+  },
+  {
+    rule: "afterRead",
+    label: "Delete Once Read",
+    description: "Chapters go as soon as they're marked read",
+  },
+  {
+    rule: "daysAfterRead",
+    label: "Delete After Reading",
+    description: "Chapters go a set number of days after they're read",
+  },
+  {
+    rule: "keepLatest",
+    label: "Keep Latest Chapters",
+    description: "Only the newest chapters of each manga are kept",
+  },
+];
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface RetentionPolicyModalProps {
+  visible: boolean;
+  policy: RetentionPolicy;
+  onClose: () => void;
+  onSave: (policy: RetentionPolicy, cleanUpNow: boolean) => void;
+}
+
+export function RetentionPolicyModal({
+  visible,
+  policy,
+  onClose,
+  onSave,
+}: RetentionPolicyModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [draft, setDraft] = useState<RetentionPolicy>(policy);
+  const [plan, setPlan] = useState<CleanupPlan | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(policy);
+    }
+  }, [visible, policy]);
+
+  // The preview follows every change to the draft
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setPlan(null);
+    downloadRetention
+      .planCleanup(draft)
+      .then((result) => {
+        if (!cancelled) setPlan(result);
+      })
+      .catch((err) => console.error("Error previewing cleanup:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, draft]);
+
+  const update = (changes: Partial<RetentionPolicy>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const renderChips = <T,>(
+    options: T[],
+    selected: T,
+    label: (value: T) => string,
+    onSelect: (value: T) => void,
+  ) => (
+    <View style={styles.chips}>
+      {options.map((value) => {
+        const isActive = value === selected;
+        return (
+          <Pressable
+            key={label(value)}
+            onPress={() => onSelect(value)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: isActive
+                  ? theme.primary
+                  : theme.backgroundSecondary,
+              },
+            ]}
+          >
+            <ThemedText
+              type="caption"
+              style={{ color: isActive ? "#FFFFFF" : theme.textSecondary }}
+            >
+              {label(value)}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Download Cleanup</ThemedText>
+          <Pressable
+            onPress={() => onSave(draft, false)}
+            style={styles.confirmBtn}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: theme.primary, fontWeight: "600" }}
+            >
+              Save
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.section}>
+            <ThemedText
+              type="caption"
+              style={[styles.sectionTitle, { color: theme.textSecondary }]}
+            >
+              KEEP DOWNLOADS
+            </ThemedText>
+            {RULES.map(({ rule, label, description }) => {
+              const isSelected = draft.rule === rule;
+              return (
+                <Pressable
+                  key={rule}
+                  onPress={() => update({ rule })}
+                  style={[
+                    styles.optionRow,
+                    { backgroundColor: theme.backgroundDefault },
+                  ]}
+                >
+                  <Feather
+                    name={isSelected ? "check-circle" : "circle"}
+                    size={20}
+                    color={isSelected ? theme.primary : theme.textSecondary}
+                  />
+                  <View style={styles.optionInfo}>
+                    <ThemedText type="body">{label}</ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {description}
+                    </ThemedText>
+                    {isSelected && rule === "daysAfterRead"
+                      ? renderChips(
+                          DAY_OPTIONS,
+                          draft.days,
+                          (days) => `${days}d`,
+                          (days) => update({ days }),
+                        )
+                      : null}
+                    {isSelected && rule === "keepLatest"
+                      ? renderChips(
+                          KEEP_OPTIONS,
+                          draft.keepLatest,
+                          (count) => String(count),
+                          (keepLatest) => update({ keepLatest }),
+                        )
+                      : null}
+                  </View>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText
+              type="caption"
+              style={[styles.sectionTitle, { color: theme.textSecondary }]}
+            >
+              STORAGE LIMIT
+            </ThemedText>
+            <View
+              style={[
+                styles.optionRow,
+                { backgroundColor: theme.backgroundDefault },
+              ]}
+            >
+              <View style={styles.optionInfo}>
+                {renderChips(
+                  QUOTA_OPTIONS,
+                  draft.quotaMb,
+                  (quota) => (quota === null ? "None" : formatQuota(quota)),
+                  (quotaMb) => update({ quotaMb }),
+                )}
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Over the limit, the least recently read chapters are deleted
+                  first
+                </ThemedText>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText
+              type="caption"
+              style={[styles.sectionTitle, { color: theme.textSecondary }]}
+            >
+              PREVIEW
+            </ThemedText>
+            {plan === null ? (
+              <LoadingIndicator size="small" />
+            ) : (
+              <View
+                style={[
+                  styles.preview,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <ThemedText type="body">
+                  {plan.items.length === 0
+                    ? "Cleanup wouldn't delete anything"
+                    : `Cleanup would delete ${plan.items.length} chapter${plan.items.length !== 1 ? "s" : ""} (${formatSize(plan.bytes)})`}
+                </ThemedText>
+                {plan.items
+                  .slice(0, MAX_PREVIEW_ITEMS)
+                  .map(({ chapter, reason }) => (
+                    <View key={chapter.chapterId} style={styles.previewRow}>
+                      <ThemedText type="small" numberOfLines={1}>
+                        {chapter.mangaTitle} Ch. {chapter.chapterNumber}
+                      </ThemedText>
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        {reason} - {formatSize(chapter.totalSize)}
+                      </ThemedText>
+                    </View>
+                  ))}
+                {plan.items.length > MAX_PREVIEW_ITEMS ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    and {plan.items.length - MAX_PREVIEW_ITEMS} more
+                  </ThemedText>
+                ) : null}
+              </View>
+            )}
+            <ThemedText
+              type="caption"
+              style={[styles.hint, { color: theme.textSecondary }]}
+            >
+              Pinned manga are never cleaned up. Pin one from the Library
+              downloads tab.
+            </ThemedText>
+          </View>
+
+          {plan && plan.items.length > 0 ? (
+            <Pressable
+              onPress={() => onSave(draft, true)}
+              style={({ pressed }) => [
+                styles.cleanupButton,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              <Feather name="trash-2" size={18} color="#FF6B6B" />
+              <ThemedText type="body" style={{ color: "#FF6B6B" }}>
+                Save and Clean Up Now
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  confirmBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.xl,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionTitle: {
+    marginLeft: Spacing.sm,
+    fontWeight: "600",
+    letterSpacing: 1,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  optionInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginVertical: Spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  preview: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+  previewRow: {
+    gap: 2,
+  },
+  hint: {
+    marginLeft: Spacing.sm,
+  },
+  cleanupButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+});
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { Chapter } from "@/services/mangadex";
+import { GroupPreferences, getGroups } from "@/services/scanlationGroups";
+
+interface ScanlationGroupsModalProps {
+  visible: boolean;
+  chapters: Chapter[];
+  initialPreferences: GroupPreferences;
+  onClose: () => void;
+  onSave: (preferences: GroupPreferences) => void;
+}
+
+const BLOCKED_COLOR = "#FF6B6B";
+
+export function ScanlationGroupsModal({
+  visible,
+  chapters,
+  initialPreferences,
+  onClose,
+  onSave,
+}: ScanlationGroupsModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const [preferred, setPreferred] = useState<string[]>([]);
+  const [blocked, setBlocked] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setPreferred(initialPreferences.preferred);
+      setBlocked(initialPreferences.blocked);
+    }
+  }, [visible, initialPreferences]);
+
+  const groups = useMemo(() => getGroups(chapters), [chapters]);
+  const chapterCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const chapter of chapters) {
+      for (const group of chapter.groups) {
+        counts[group.id] = (counts[group.id] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [chapters]);
+
+  const togglePreferred = (id: string) => {
+    setBlocked((prev) => prev.filter((g) => g !== id));
+    setPreferred((prev) =>
+      prev.includes(id) ? prev.filter((g) => g !== id) : [...prev, id],
+    );
+  };
+
+  const toggleBlocked = (id: string) => {
+    setPreferred((prev) => prev.filter((g) => g !== id));
+    setBlocked((prev) =>
+      prev.includes(id) ? prev.filter((g) => g !== id) : [...prev, id],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+          <Pressable onPress={onClose} style={styles.closeBtn}>
+            <Feather name="x" size={24} color={theme.text} />
+          </Pressable>
+          <ThemedText type="h3">Groups</ThemedText>
+          <Pressable
+            onPress={() => onSave({ preferred, blocked })}
+            style={styles.confirmBtn}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: theme.primary, fontWeight: "600" }}
+            >
+              Save
+            </ThemedText>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[
+            styles.contentContainer,
+            { paddingBottom: insets.bottom + Spacing.xl },
+          ]}
+          showsVerticalScrollIndicator={false}
+        >
+          <ThemedText
+            type="small"
+            style={[styles.hint, { color: theme.textSecondary }]}
+          >
+            Starred groups are picked first, in the order you star them.
+            Chapters only available from blocked groups are hidden.
+          </ThemedText>
+
+          {groups.length === 0 ? (
+            <ThemedText
+              type="small"
+              style={[styles.emptyText, { color: theme.textSecondary }]}
+            >
+              No scanlation groups listed for these chapters.
+            </ThemedText>
+          ) : null}
+
+          {groups.map((group) => {
+            const rank = preferred.indexOf(group.id);
+            const isBlocked = blocked.includes(group.id);
+            const count = chapterCounts[group.id] || 0;
+            return (
+              <View
+                key={group.id}
+                style={[
+                  styles.groupRow,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <View style={styles.groupInfo}>
+                  <ThemedText
+                    type="body"
+                    numberOfLines={1}
+                    style={isBlocked && styles.blockedName}
+                  >
+                    {group.name}
+                  </ThemedText>
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {count} chapter{count !== 1 ? "s" : ""}
+                    {rank >= 0 ? ` · Preferred #${rank + 1}` : ""}
+                    {isBlocked ? " · Blocked" : ""}
+                  </ThemedText>
+                </View>
+                <Pressable
+                  onPress={() => togglePreferred(group.id)}
+                  style={styles.actionBtn}
+                  hitSlop={8}
+                >
+                  <Feather
+                    name="star"
+                    size={20}
+                    color={rank >= 0 ? theme.primary : theme.textSecondary}
+                  />
+                </Pressable>
+                <Pressable
+                  onPress={() => toggleBlocked(group.id)}
+                  style={styles.actionBtn}
+                  hitSlop={8}
+                >
+                  <Feather
+                    name="slash"
+                    size={20}
+                    color={isBlocked ? BLOCKED_COLOR : theme.textSecondary}
+                  />
+                </Pressable>
+              </View>
+            );
+          })}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  closeBtn: {
+    padding: Spacing.sm,
+    marginLeft: -Spacing.sm,
+  },
+  confirmBtn: {
+    padding: Spacing.sm,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  hint: {
+    marginBottom: Spacing.sm,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.md,
+  },
+  groupRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  groupInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  blockedName: {
+    opacity: 0.5,
+    textDecorationLine: "line-through",
+  },
+  actionBtn: {
+    padding: Spacing.xs,
+  },
+});
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { downloadQueue, DownloadQueueState } from "@/services/downloadQueue";
+
+export function useDownloadQueue(): DownloadQueueState {
+  return useSyncExternalStore(downloadQueue.subscribe, downloadQueue.getState);
+}
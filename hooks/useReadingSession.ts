@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import { historyLog, ReaderType } from "@/services/historyLog";
+
+interface UseReadingSessionProps {
+  mangaId: string;
+  mangaTitle: string;
+  chapterId: string;
+  chapterNumber: string;
+  readerType: ReaderType;
+  currentPage: number;
+  totalPages: number;
+}
+
+export function useReadingSession({
+  mangaId,
+  mangaTitle,
+  chapterId,
+  chapterNumber,
+  readerType,
+  currentPage,
+  totalPages,
+}: UseReadingSessionProps) {
+  const sessionRef = useRef<Promise<number | null> | null>(null);
+  const pagesSeenRef = useRef<Set<number>>(new Set());
+  const currentPageRef = useRef(currentPage);
+
+  const hasPages = totalPages > 0;
+
+  useEffect(() => {
+    if (!hasPages) return;
+
+    const start = () => {
+      if (sessionRef.current) return;
+      pagesSeenRef.current = new Set([currentPageRef.current]);
+      sessionRef.current = historyLog
+        .startSession({
+          mangaId,
+          mangaTitle,
+          chapterId,
+          chapterNumber,
+          readerType,
+          startPage: currentPageRef.current,
+          totalPages,
+        })
+        .catch((error) => {
+          console.error("Failed to start reading session:", error);
+          return null;
+        });
+    };
+
+    // Time in the background shouldn't count as reading, so a session ends
+    // when the app is backgrounded and a new one starts on return.
+    const end = () => {
+      const pending = sessionRef.current;
+      sessionRef.current = null;
+      const pagesRead = pagesSeenRef.current.size;
+      const lastPage = currentPageRef.current;
+      pending?.then((id) => {
+        if (id !== null) historyLog.updateSession(id, pagesRead, lastPage);
+      });
+    };
+
+    start();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") start();
+      else end();
+    });
+
+    return () => {
+      subscription.remove();
+      end();
+    };
+  }, [
+    mangaId,
+    mangaTitle,
+    chapterId,
+    chapterNumber,
+    readerType,
+    totalPages,
+    hasPages,
+  ]);
+
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+    const pending = sessionRef.current;
+    if (!pending) return;
+    pagesSeenRef.current.add(currentPage);
+    const pagesRead = pagesSeenRef.current.size;
+    pending.then((id) => {
+      if (id !== null) historyLog.updateSession(id, pagesRead, currentPage);
+    });
+  }, [currentPage]);
+}
@@ -2,6 +2,10 @@ import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import LibraryScreen from "@/screens/LibraryScreen";
 import MangaDetailScreen from "@/screens/MangaDetailScreen";
+import AuthorDetailScreen from "@/screens/AuthorDetailScreen";
+import MangaListScreen from "@/screens/MangaListScreen";
+import MangaListsScreen from "@/screens/MangaListsScreen";
+import DownloadsScreen from "@/screens/DownloadsScreen";
 import ChapterReaderScreen from "@/screens/ChapterReaderScreen";
 import LiteChapterReaderScreen from "@/screens/LiteChapterReaderScreen";
 import HtmlChapterReaderScreen from "@/screens/HtmlChapterReaderScreen";
@@ -11,6 +15,15 @@ import { getCommonScreenOptions } from "@/navigation/screenOptions";
 export type LibraryStackParamList = {
   Library: undefined;
   MangaDetail: { mangaId: string };
+  AuthorDetail: { authorId: string; name?: string };
+  MangaList: {
+    listId?: string;
+    localListId?: number;
+    name?: string;
+    ids?: string;
+  };
+  MangaLists: undefined;
+  Downloads: undefined;
   ChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
   LiteChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
   HtmlChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
@@ -42,6 +55,34 @@ export default function LibraryStackNavigator() {
           headerTransparent: true,
         }}
       />
+      <Stack.Screen
+        name="AuthorDetail"
+        component={AuthorDetailScreen}
+        options={({ route }) => ({
+          headerTitle: route.params.name || "Author",
+        })}
+      />
+      <Stack.Screen
+        name="MangaList"
+        component={MangaListScreen}
+        options={({ route }) => ({
+          headerTitle: route.params.name || "List",
+        })}
+      />
+      <Stack.Screen
+        name="MangaLists"
+        component={MangaListsScreen}
+        options={{
+          headerTitle: "My Lists",
+        }}
+      />
+      <Stack.Screen
+        name="Downloads"
+        component={DownloadsScreen}
+        options={{
+          headerTitle: "Downloads",
+        }}
+      />
       <Stack.Screen
         name="ChapterReader"
         component={ChapterReaderScreen}
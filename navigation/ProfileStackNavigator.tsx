@@ -1,11 +1,13 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import ProfileScreen from "@/screens/ProfileScreen";
+import StatisticsScreen from "@/screens/StatisticsScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "@/navigation/screenOptions";
 
 export type ProfileStackParamList = {
   Profile: undefined;
+  Statistics: undefined;
 };
 
 const Stack = createNativeStackNavigator<ProfileStackParamList>();
@@ -26,6 +28,13 @@ export default function ProfileStackNavigator() {
           headerTitle: "Profile",
         }}
       />
+      <Stack.Screen
+        name="Statistics"
+        component={StatisticsScreen}
+        options={{
+          headerTitle: "Reading Statistics",
+        }}
+      />
     </Stack.Navigator>
   );
 }
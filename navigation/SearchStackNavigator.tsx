@@ -2,6 +2,8 @@ import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import SearchScreen from "@/screens/SearchScreen";
 import MangaDetailScreen from "@/screens/MangaDetailScreen";
+import AuthorDetailScreen from "@/screens/AuthorDetailScreen";
+import MangaListScreen from "@/screens/MangaListScreen";
 import ChapterReaderScreen from "@/screens/ChapterReaderScreen";
 import LiteChapterReaderScreen from "@/screens/LiteChapterReaderScreen";
 import HtmlChapterReaderScreen from "@/screens/HtmlChapterReaderScreen";
@@ -11,9 +13,31 @@ import { getCommonScreenOptions } from "@/navigation/screenOptions";
 export type SearchStackParamList = {
   Search: undefined;
   MangaDetail: { mangaId: string };
-  ChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
-  LiteChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
-  HtmlChapterReader: { chapterId: string; mangaId: string; mangaTitle: string; chapterNumber: string };
+  AuthorDetail: { authorId: string; name?: string };
+  MangaList: {
+    listId?: string;
+    localListId?: number;
+    name?: string;
+    ids?: string;
+  };
+  ChapterReader: {
+    chapterId: string;
+    mangaId: string;
+    mangaTitle: string;
+    chapterNumber: string;
+  };
+  LiteChapterReader: {
+    chapterId: string;
+    mangaId: string;
+    mangaTitle: string;
+    chapterNumber: string;
+  };
+  HtmlChapterReader: {
+    chapterId: string;
+    mangaId: string;
+    mangaTitle: string;
+    chapterNumber: string;
+  };
 };
 
 const Stack = createNativeStackNavigator<SearchStackParamList>();
@@ -42,6 +66,20 @@ export default function SearchStackNavigator() {
           headerTransparent: true,
         }}
       />
+      <Stack.Screen
+        name="AuthorDetail"
+        component={AuthorDetailScreen}
+        options={({ route }) => ({
+          headerTitle: route.params.name || "Author",
+        })}
+      />
+      <Stack.Screen
+        name="MangaList"
+        component={MangaListScreen}
+        options={({ route }) => ({
+          headerTitle: route.params.name || "List",
+        })}
+      />
       <Stack.Screen
         name="ChapterReader"
         component={ChapterReaderScreen}
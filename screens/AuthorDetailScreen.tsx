@@ -0,0 +1,337 @@
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useState,
+} from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  Dimensions,
+  Alert,
+  Linking,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { MangaCard } from "@/components/MangaCard";
+import { EmptyState } from "@/components/EmptyState";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { mangadexApi, Author, Manga } from "@/services/mangadex";
+import { storage } from "@/services/storage";
+import { authorFollows } from "@/services/authorFollows";
+import { BrowseStackParamList } from "@/navigation/BrowseStackNavigator";
+
+type AuthorDetailScreenProps = {
+  navigation: NativeStackNavigationProp<BrowseStackParamList, "AuthorDetail">;
+  route: RouteProp<BrowseStackParamList, "AuthorDetail">;
+};
+
+const SCREEN_WIDTH = Dimensions.get("window").width;
+const CARD_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2 - Spacing.md) / 2;
+const AVATAR_SIZE = 88;
+
+export default function AuthorDetailScreen({
+  navigation,
+  route,
+}: AuthorDetailScreenProps) {
+  const { authorId } = route.params;
+  const { theme } = useTheme();
+
+  const [author, setAuthor] = useState<Author | null>(null);
+  const [works, setWorks] = useState<Manga[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingWorks, setLoadingWorks] = useState(true);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [showFullBiography, setShowFullBiography] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setLoadingWorks(true);
+      const [authorData, following, settings] = await Promise.all([
+        mangadexApi.getAuthor(authorId),
+        authorFollows.isFollowing(authorId),
+        storage.getSettings(),
+      ]);
+      setAuthor(authorData);
+      setIsFollowing(following);
+      setLoading(false);
+
+      setWorks(await mangadexApi.getAuthorWorks(authorId, settings.adultMode));
+    } catch (err) {
+      console.error("Error fetching author:", err);
+    } finally {
+      setLoading(false);
+      setLoadingWorks(false);
+    }
+  }, [authorId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useLayoutEffect(() => {
+    if (author) {
+      navigation.setOptions({ headerTitle: author.name });
+    }
+  }, [navigation, author]);
+
+  const handleFollowPress = async () => {
+    if (!author) return;
+    try {
+      if (isFollowing) {
+        await authorFollows.unfollow(author.id);
+        setIsFollowing(false);
+      } else {
+        // Titles already out aren't news; only later ones get reported
+        const known =
+          works.length > 0
+            ? works
+            : await mangadexApi.getAuthorWorks(
+                author.id,
+                (await storage.getSettings()).adultMode,
+              );
+        await authorFollows.follow(
+          author,
+          known.map((m) => m.id),
+        );
+        setIsFollowing(true);
+      }
+    } catch (err) {
+      console.error("Error updating follow:", err);
+      Alert.alert("Error", "Couldn't update this follow. Please try again.");
+    }
+  };
+
+  const handleMangaPress = (manga: Manga) => {
+    navigation.push("MangaDetail", { mangaId: manga.id });
+  };
+
+  if (loading) {
+    return <LoadingIndicator fullScreen />;
+  }
+
+  if (!author) {
+    return (
+      <EmptyState
+        icon="user-x"
+        title="Author Not Found"
+        message="Couldn't load this author. Check your connection and try again."
+      />
+    );
+  }
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.profileRow}>
+        {author.imageUrl ? (
+          <Image
+            source={{ uri: author.imageUrl }}
+            style={styles.avatar}
+            contentFit="cover"
+            transition={200}
+          />
+        ) : (
+          <View
+            style={[
+              styles.avatar,
+              styles.avatarPlaceholder,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <Feather name="user" size={36} color={theme.textSecondary} />
+          </View>
+        )}
+        <View style={styles.profileInfo}>
+          <ThemedText type="h3" numberOfLines={2}>
+            {author.name}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {loadingWorks
+              ? "Loading titles..."
+              : `${works.length} title${works.length !== 1 ? "s" : ""}`}
+          </ThemedText>
+          <Pressable
+            onPress={handleFollowPress}
+            disabled={loadingWorks}
+            style={({ pressed }) => [
+              styles.followButton,
+              {
+                backgroundColor: isFollowing
+                  ? theme.backgroundDefault
+                  : theme.primary,
+                opacity: pressed || loadingWorks ? 0.7 : 1,
+              },
+            ]}
+          >
+            <Feather
+              name={isFollowing ? "user-check" : "user-plus"}
+              size={16}
+              color={isFollowing ? theme.primary : "#FFFFFF"}
+            />
+            <ThemedText
+              type="small"
+              style={{
+                color: isFollowing ? theme.primary : "#FFFFFF",
+                fontWeight: "600",
+              }}
+            >
+              {isFollowing ? "Following" : "Follow"}
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+
+      {author.biography ? (
+        <Pressable onPress={() => setShowFullBiography(!showFullBiography)}>
+          <ThemedText
+            type="body"
+            style={[styles.biography, { color: theme.textSecondary }]}
+            numberOfLines={showFullBiography ? undefined : 4}
+          >
+            {author.biography}
+          </ThemedText>
+          {author.biography.length > 200 ? (
+            <ThemedText type="small" style={{ color: theme.primary }}>
+              {showFullBiography ? "Show less" : "Read more"}
+            </ThemedText>
+          ) : null}
+        </Pressable>
+      ) : null}
+
+      {author.links.length > 0 ? (
+        <View style={styles.links}>
+          {author.links.map((link) => (
+            <Pressable
+              key={link.site}
+              onPress={() => Linking.openURL(link.url)}
+              style={({ pressed }) => [
+                styles.linkChip,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              <Feather name="external-link" size={12} color={theme.primary} />
+              <ThemedText type="caption" style={{ color: theme.primary }}>
+                {link.label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
+      <ThemedText
+        type="small"
+        style={[styles.sectionTitle, { color: theme.textSecondary }]}
+      >
+        WORKS
+      </ThemedText>
+      {loadingWorks ? <LoadingIndicator /> : null}
+      {!loadingWorks && works.length === 0 ? (
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          No titles match your content settings.
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <ScreenFlatList
+      data={works}
+      keyExtractor={(item) => item.id}
+      numColumns={2}
+      ListHeaderComponent={renderHeader}
+      columnWrapperStyle={styles.row}
+      showsVerticalScrollIndicator={false}
+      renderItem={({ item }) => (
+        <View style={styles.cardContainer}>
+          <MangaCard
+            manga={item}
+            onPress={() => handleMangaPress(item)}
+            width={CARD_WIDTH}
+          />
+        </View>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+  },
+  avatar: {
+    width: AVATAR_SIZE,
+    height: AVATAR_SIZE,
+    borderRadius: AVATAR_SIZE / 2,
+  },
+  avatarPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  profileInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  followButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    marginTop: Spacing.xs,
+  },
+  biography: {
+    lineHeight: 22,
+  },
+  links: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  linkChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+    letterSpacing: 1,
+    marginTop: Spacing.md,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.md,
+  },
+  row: {
+    justifyContent: "space-between",
+    marginBottom: Spacing.md,
+  },
+  cardContainer: {
+    width: CARD_WIDTH,
+  },
+});
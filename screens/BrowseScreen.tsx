@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useRef } from "react";
 import { StyleSheet, View, Dimensions, RefreshControl, Platform, FlatList, Pressable } from "react-native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -11,11 +11,21 @@ import { LoadingIndicator } from "@/components/LoadingIndicator";
 import { EmptyState } from "@/components/EmptyState";
 import { ContinueReadingButton } from "@/components/ContinueReadingButton";
 import { ThemedText } from "@/components/ThemedText";
+import { PaginationFooter } from "@/components/PaginationFooter";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
-import { mangadexApi, Manga, SearchFilters } from "@/services/mangadex";
+import {
+  mangadexApi,
+  appendUniqueManga,
+  Manga,
+  MangaPage,
+  MangaStatistics,
+  SearchFilters,
+} from "@/services/mangadex";
 import { storage } from "@/services/storage";
+import { NetworkError, RateLimitError } from "@/services/apiClient";
+import { readState } from "@/services/readState";
 import { BrowseStackParamList } from "@/navigation/BrowseStackNavigator";
 import { useFocusEffect } from "@react-navigation/native";
 import { SearchFiltersModal } from "@/components/SearchFiltersModal";
@@ -26,10 +36,29 @@ type BrowseScreenProps = {
 
 type TabType = "manga" | "manhwa";
 
+type PageState = Record<TabType, { nextOffset: number | null; total: number }>;
+
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const CARD_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2 - Spacing.md) / 2;
 const TAB_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2) / 2;
 const IS_WEB = Platform.OS === "web";
+const PAGE_SIZE = 40;
+const EMPTY_PAGES: PageState = {
+  manga: { nextOffset: null, total: 0 },
+  manhwa: { nextOffset: null, total: 0 },
+};
+
+const fetchPage = (
+  tab: TabType,
+  offset: number,
+  adultMode: boolean,
+  languages: string[],
+): Promise<MangaPage> =>
+  tab === "manga"
+    ? mangadexApi.getManga(PAGE_SIZE, adultMode, languages, offset)
+    : mangadexApi.getManhwa(PAGE_SIZE, adultMode, languages, offset);
+
+const shuffle = (items: Manga[]) => [...items].sort(() => Math.random() - 0.5);
 
 export default function BrowseScreen({ navigation }: BrowseScreenProps) {
   const { theme, isDark } = useTheme();
@@ -43,6 +72,8 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
   const [combinedList, setCombinedList] = useState<Manga[]>([]);
   const [loading, setLoading] = useState(!IS_WEB);
   const [refreshing, setRefreshing] = useState(false);
+  const [pages, setPages] = useState<PageState>(EMPTY_PAGES);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(IS_WEB ? "web" : null);
   const [adultMode, setAdultMode] = useState(false);
   const [languages, setLanguages] = useState<string[]>(["en", "ja"]);
@@ -53,8 +84,16 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
     sortBy: "followedCount",
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showCardStatistics, setShowCardStatistics] = useState(false);
+  const [statistics, setStatistics] = useState<Record<string, MangaStatistics>>(
+    {},
+  );
 
   const indicatorPosition = useSharedValue(0);
+  // Bumped on every reload so a page requested before it is dropped
+  const requestIdRef = useRef(0);
+  const loadingMoreRef = useRef(false);
 
   const animatedIndicatorStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: indicatorPosition.value }],
@@ -69,10 +108,15 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
   };
 
   const hasActiveFilters = filters.includedTags.length > 0 || filters.excludedTags.length > 0 || filters.status.length > 0 || filters.sortBy !== "followedCount";
+  // Filtered results mix both tabs, so both keep paging
+  const currentTabs: TabType[] = hasActiveFilters
+    ? ["manga", "manhwa"]
+    : [activeTab];
 
   const fetchAllData = useCallback(
     async (isRefresh = false, isAdultMode = false, langs: string[] = ["en", "ja"], searchFilters?: SearchFilters) => {
       try {
+        const requestId = ++requestIdRef.current;
         if (isRefresh) {
           setRefreshing(true);
         } else {
@@ -83,19 +127,38 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
         const hasFilters = searchFilters && (searchFilters.includedTags.length > 0 || searchFilters.excludedTags.length > 0 || searchFilters.status.length > 0 || searchFilters.sortBy !== "followedCount");
 
         const [mangaResult, manhwaResult] = await Promise.all([
-          mangadexApi.getManga(40, isAdultMode, langs),
-          mangadexApi.getManhwa(40, isAdultMode, langs),
+          fetchPage("manga", 0, isAdultMode, langs),
+          fetchPage("manhwa", 0, isAdultMode, langs),
         ]);
+        if (requestId !== requestIdRef.current) return;
 
-        setMangaList(mangaResult.data);
-        setManhwaList(manhwaResult.data);
+        setMangaList(appendUniqueManga([], mangaResult.data));
+        setManhwaList(appendUniqueManga([], manhwaResult.data));
+        setPages({
+          manga: {
+            nextOffset: mangaResult.nextOffset,
+            total: mangaResult.total,
+          },
+          manhwa: {
+            nextOffset: manhwaResult.nextOffset,
+            total: manhwaResult.total,
+          },
+        });
         
         if (hasFilters) {
-          const combined = [...mangaResult.data, ...manhwaResult.data].sort(() => Math.random() - 0.5);
-          setCombinedList(combined);
+          setCombinedList(
+            appendUniqueManga(
+              [],
+              shuffle([...mangaResult.data, ...manhwaResult.data]),
+            ),
+          );
         }
       } catch (err) {
-        setError("Failed to load content. Please try again.");
+        setError(
+          err instanceof NetworkError || err instanceof RateLimitError
+            ? err.message
+            : "Failed to load content. Please try again.",
+        );
         console.error("Error fetching data:", err);
       } finally {
         setLoading(false);
@@ -105,6 +168,14 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
     [],
   );
 
+  useEffect(() => {
+    const ids = [...mangaList, ...manhwaList].map((item) => item.id);
+    if (!showCardStatistics || ids.length === 0) return;
+    mangadexApi
+      .getStatistics(ids)
+      .then((loaded) => setStatistics((prev) => ({ ...prev, ...loaded })));
+  }, [showCardStatistics, mangaList, manhwaList]);
+
   useFocusEffect(
     useCallback(() => {
       const loadSettings = async () => {
@@ -120,7 +191,11 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
         }
       };
       loadSettings();
-    }, [adultMode, languages])
+      readState.getUnreadCounts().then(setUnreadCounts);
+      storage
+        .getSettings()
+        .then((settings) => setShowCardStatistics(settings.showCardStatistics));
+    }, [adultMode, languages]),
   );
 
   useEffect(() => {
@@ -135,6 +210,45 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
     }
   }, []);
 
+  const loadMore = async () => {
+    if (loading || refreshing || loadingMoreRef.current) return;
+    const pending = currentTabs.filter((tab) => pages[tab].nextOffset !== null);
+    if (pending.length === 0) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const results = await Promise.all(
+        pending.map((tab) =>
+          fetchPage(tab, pages[tab].nextOffset!, adultMode, languages),
+        ),
+      );
+      if (requestId !== requestIdRef.current) return;
+
+      const nextPages = { ...pages };
+      pending.forEach((tab, i) => {
+        const result = results[i];
+        nextPages[tab] = { nextOffset: result.nextOffset, total: result.total };
+        if (tab === "manga") {
+          setMangaList((prev) => appendUniqueManga(prev, result.data));
+        } else {
+          setManhwaList((prev) => appendUniqueManga(prev, result.data));
+        }
+      });
+      setPages(nextPages);
+      if (hasActiveFilters) {
+        const added = shuffle(results.flatMap((result) => result.data));
+        setCombinedList((prev) => appendUniqueManga(prev, added));
+      }
+    } catch (err) {
+      console.error("Error loading more:", err);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
   const handleRefresh = () => {
     fetchAllData(true, adultMode, languages, filters);
   };
@@ -159,6 +273,8 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
         manga={item}
         onPress={() => handleMangaPress(item)}
         width={CARD_WIDTH}
+        unreadCount={unreadCounts[item.id]}
+        statistics={showCardStatistics ? statistics[item.id] : undefined}
       />
     </View>
   );
@@ -237,7 +353,15 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
     </View>
   );
 
-  const currentList = hasActiveFilters ? combinedList : (activeTab === "manga" ? mangaList : manhwaList);
+  const currentList = hasActiveFilters
+    ? combinedList
+    : activeTab === "manga"
+      ? mangaList
+      : manhwaList;
+  const reachedEnd =
+    currentList.length > 0 &&
+    currentTabs.every((tab) => pages[tab].nextOffset === null);
+  const currentTotal = Math.max(...currentTabs.map((tab) => pages[tab].total));
 
   if (loading) {
     return <LoadingIndicator fullScreen />;
@@ -274,6 +398,15 @@ export default function BrowseScreen({ navigation }: BrowseScreenProps) {
         ]}
         columnWrapperStyle={styles.row}
         showsVerticalScrollIndicator={false}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          <PaginationFooter
+            loadingMore={loadingMore}
+            reachedEnd={reachedEnd}
+            total={currentTotal}
+          />
+        }
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -22,9 +22,11 @@ import { LoadingIndicator } from "@/components/LoadingIndicator";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { mangadexApi } from "@/services/mangadex";
 import { storage, AppSettings } from "@/services/storage";
+import { readState } from "@/services/readState";
 import { downloadManager } from "@/services/downloadManager";
 import { BrowseStackParamList } from "@/navigation/BrowseStackNavigator";
 import { useVolumeScroll } from "@/hooks/useVolumeScroll";
+import { useReadingSession } from "@/hooks/useReadingSession";
 
 type ChapterReaderScreenProps = {
   navigation: NativeStackNavigationProp<BrowseStackParamList, "ChapterReader">;
@@ -180,6 +182,16 @@ export default function ChapterReaderScreen({
     onScrollDown: handleVolumeScrollDown,
   });
 
+  useReadingSession({
+    mangaId,
+    mangaTitle,
+    chapterId,
+    chapterNumber,
+    readerType: "standard",
+    currentPage,
+    totalPages: pages.length,
+  });
+
   useEffect(() => {
     loadChapter();
     return () => {
@@ -224,7 +236,10 @@ export default function ChapterReaderScreen({
       if (pageUrls.length > 0) {
         setPages(pageUrls);
         setCurrentPage(savedStartPageRef.current);
-        await storage.markChapterAsRead(mangaId, chapterId);
+        await readState.markRead(mangaId, {
+          id: chapterId,
+          number: chapterNumber,
+        });
       } else {
         setPages([]);
       }
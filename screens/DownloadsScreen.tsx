@@ -0,0 +1,536 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { StyleSheet, View, Pressable, FlatList, Alert } from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useFocusEffect } from "@react-navigation/native";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { EmptyState } from "@/components/EmptyState";
+import { ReorderableList } from "@/components/ReorderableList";
+import { useTheme } from "@/hooks/useTheme";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { downloadManager, DownloadedChapter } from "@/services/downloadManager";
+import { downloadQueue, QueuedChapter } from "@/services/downloadQueue";
+import { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
+
+type DownloadsScreenProps = {
+  navigation: NativeStackNavigationProp<LibraryStackParamList, "Downloads">;
+};
+
+type TabType = "queue" | "failed" | "completed";
+
+const QUEUE_ROW_HEIGHT = 76 + Spacing.sm;
+
+const TABS: { key: TabType; label: string }[] = [
+  { key: "queue", label: "Queue" },
+  { key: "failed", label: "Failed" },
+  { key: "completed", label: "Completed" },
+];
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (timestamp: number) => {
+  const diff = Date.now() - timestamp;
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const describeQueued = (item: QueuedChapter) => {
+  if (item.status === "paused") return "Paused";
+  if (item.status === "queued") return "Waiting";
+  if (item.pageCount === 0) return "Starting…";
+  const speed =
+    item.bytesPerSecond > 0 ? ` - ${formatSize(item.bytesPerSecond)}/s` : "";
+  return `${item.pagesDone}/${item.pageCount} pages${speed}`;
+};
+
+export default function DownloadsScreen({ navigation }: DownloadsScreenProps) {
+  const { theme } = useTheme();
+  const tabBarHeight = useBottomTabBarHeight();
+  const headerHeight = useHeaderHeight();
+  const queue = useDownloadQueue();
+
+  const [activeTab, setActiveTab] = useState<TabType>("queue");
+  const [completed, setCompleted] = useState<DownloadedChapter[]>([]);
+  const queuedIdsRef = useRef<string[]>([]);
+
+  const active = queue.items.filter((item) => item.status !== "failed");
+  const failed = queue.items.filter((item) => item.status === "failed");
+
+  const loadCompleted = useCallback(async () => {
+    const downloads = await downloadManager.getDownloadedChapters();
+    setCompleted(downloads.reverse());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCompleted();
+    }, [loadCompleted]),
+  );
+
+  // Chapters leaving the queue have either finished or been cancelled
+  useEffect(() => {
+    const ids = queue.items.map((item) => item.chapterId);
+    const left = queuedIdsRef.current.some((id) => !ids.includes(id));
+    queuedIdsRef.current = ids;
+    if (left) loadCompleted();
+  }, [queue.items, loadCompleted]);
+
+  const handleCancel = (item: QueuedChapter) => {
+    Alert.alert(
+      "Cancel Download",
+      `Stop downloading ${item.mangaTitle} Ch. ${item.chapterNumber}? Pages saved so far are deleted.`,
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Cancel Download",
+          style: "destructive",
+          onPress: () => downloadQueue.remove(item.chapterId),
+        },
+      ],
+    );
+  };
+
+  const handleReorder = (items: QueuedChapter[]) => {
+    downloadQueue
+      .reorder(items.map((item) => item.chapterId))
+      .catch((err) => console.error("Error reordering downloads:", err));
+  };
+
+  const handleOpenChapter = (chapter: DownloadedChapter) => {
+    navigation.navigate("LiteChapterReader", {
+      chapterId: chapter.chapterId,
+      mangaId: chapter.mangaId,
+      mangaTitle: chapter.mangaTitle,
+      chapterNumber: chapter.chapterNumber,
+    });
+  };
+
+  const handleCompletedLongPress = (chapter: DownloadedChapter) => {
+    Alert.alert(
+      `${chapter.mangaTitle} Ch. ${chapter.chapterNumber}`,
+      undefined,
+      [
+        {
+          text: "View Manga",
+          onPress: () =>
+            navigation.navigate("MangaDetail", { mangaId: chapter.mangaId }),
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await downloadManager.deleteDownload(chapter.chapterId);
+            loadCompleted();
+          },
+        },
+        { text: "Cancel", style: "cancel" },
+      ],
+    );
+  };
+
+  const renderQueued = (
+    item: QueuedChapter,
+    dragHandle: (handle: React.ReactNode) => React.ReactNode,
+  ) => {
+    const isDownloading = item.status === "downloading";
+    const progress = item.pageCount > 0 ? item.pagesDone / item.pageCount : 0;
+    return (
+      <View
+        style={[styles.queueRow, { backgroundColor: theme.backgroundDefault }]}
+      >
+        {dragHandle(
+          <View style={styles.dragHandle}>
+            <Feather name="menu" size={20} color={theme.textSecondary} />
+          </View>,
+        )}
+        <View style={styles.itemContent}>
+          <ThemedText type="body" style={styles.itemTitle} numberOfLines={1}>
+            {item.mangaTitle}
+          </ThemedText>
+          <ThemedText
+            type="caption"
+            style={{ color: theme.textSecondary }}
+            numberOfLines={1}
+          >
+            Ch. {item.chapterNumber} - {describeQueued(item)}
+          </ThemedText>
+          <View
+            style={[
+              styles.progressTrack,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+          >
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${Math.round(progress * 100)}%`,
+                  backgroundColor: isDownloading
+                    ? theme.primary
+                    : theme.textSecondary,
+                },
+              ]}
+            />
+          </View>
+        </View>
+        <Pressable
+          onPress={() =>
+            item.status === "paused"
+              ? downloadQueue.resume(item.chapterId)
+              : downloadQueue.pause(item.chapterId)
+          }
+          style={({ pressed }) => [
+            styles.iconButton,
+            { opacity: pressed ? 0.6 : 1 },
+          ]}
+          hitSlop={8}
+        >
+          <Feather
+            name={item.status === "paused" ? "play-circle" : "pause-circle"}
+            size={22}
+            color={theme.primary}
+          />
+        </Pressable>
+        <Pressable
+          onPress={() => handleCancel(item)}
+          style={({ pressed }) => [
+            styles.iconButton,
+            { opacity: pressed ? 0.6 : 1 },
+          ]}
+          hitSlop={8}
+        >
+          <Feather name="x" size={20} color={theme.textSecondary} />
+        </Pressable>
+      </View>
+    );
+  };
+
+  const renderFailed = ({ item }: { item: QueuedChapter }) => (
+    <View
+      style={[styles.listItem, { backgroundColor: theme.backgroundDefault }]}
+    >
+      <Feather name="alert-circle" size={20} color={theme.accent} />
+      <View style={styles.itemContent}>
+        <ThemedText type="body" style={styles.itemTitle} numberOfLines={1}>
+          {item.mangaTitle}
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Ch. {item.chapterNumber}
+        </ThemedText>
+        <ThemedText
+          type="caption"
+          style={{ color: theme.accent }}
+          numberOfLines={2}
+        >
+          {item.error || "Could not download chapter."}
+        </ThemedText>
+      </View>
+      <Pressable
+        onPress={() => downloadQueue.resume(item.chapterId)}
+        style={({ pressed }) => [
+          styles.retryButton,
+          { backgroundColor: theme.primary, opacity: pressed ? 0.7 : 1 },
+        ]}
+      >
+        <Feather name="rotate-cw" size={14} color="#FFFFFF" />
+        <ThemedText type="caption" style={{ color: "#FFFFFF" }}>
+          Retry
+        </ThemedText>
+      </Pressable>
+      <Pressable
+        onPress={() => downloadQueue.remove(item.chapterId)}
+        style={({ pressed }) => [
+          styles.iconButton,
+          { opacity: pressed ? 0.6 : 1 },
+        ]}
+        hitSlop={8}
+      >
+        <Feather name="x" size={20} color={theme.textSecondary} />
+      </Pressable>
+    </View>
+  );
+
+  const renderCompleted = ({ item }: { item: DownloadedChapter }) => (
+    <Pressable
+      onPress={() => handleOpenChapter(item)}
+      onLongPress={() => handleCompletedLongPress(item)}
+      style={({ pressed }) => [
+        styles.listItem,
+        {
+          backgroundColor: theme.backgroundDefault,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+    >
+      <Feather name="check-circle" size={20} color={theme.primary} />
+      <View style={styles.itemContent}>
+        <ThemedText type="body" style={styles.itemTitle} numberOfLines={1}>
+          {item.mangaTitle}
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Ch. {item.chapterNumber} - {item.pageCount} pages -{" "}
+          {formatSize(item.totalSize)} - {formatDate(item.downloadedAt)}
+        </ThemedText>
+      </View>
+      <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+    </Pressable>
+  );
+
+  const renderSummary = () => {
+    if (activeTab === "queue" && active.length > 0) {
+      return (
+        <View
+          style={[styles.summary, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {active.length} chapter{active.length !== 1 ? "s" : ""}
+            {queue.paused ? " - Paused" : ""}
+          </ThemedText>
+          <Pressable
+            onPress={() =>
+              queue.paused
+                ? downloadQueue.resumeAll()
+                : downloadQueue.pauseAll()
+            }
+            hitSlop={8}
+          >
+            <ThemedText type="caption" style={{ color: theme.primary }}>
+              {queue.paused ? "Resume All" : "Pause All"}
+            </ThemedText>
+          </Pressable>
+        </View>
+      );
+    }
+    if (activeTab === "failed" && failed.length > 0) {
+      return (
+        <View
+          style={[styles.summary, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {failed.length} failed
+          </ThemedText>
+          <Pressable onPress={() => downloadQueue.retryFailed()} hitSlop={8}>
+            <ThemedText type="caption" style={{ color: theme.primary }}>
+              Retry All
+            </ThemedText>
+          </Pressable>
+        </View>
+      );
+    }
+    if (activeTab === "completed" && completed.length > 0) {
+      return (
+        <View
+          style={[styles.summary, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {completed.length} chapter{completed.length !== 1 ? "s" : ""} -{" "}
+            {formatSize(completed.reduce((sum, c) => sum + c.totalSize, 0))}
+          </ThemedText>
+        </View>
+      );
+    }
+    return null;
+  };
+
+  const renderContent = () => {
+    const contentStyle = [
+      styles.listContent,
+      { paddingBottom: tabBarHeight + Spacing.xl },
+    ];
+    switch (activeTab) {
+      case "queue":
+        return active.length === 0 ? (
+          <EmptyState
+            icon="download"
+            title="Nothing Downloading"
+            message="Chapters you download from a manga's page show up here"
+          />
+        ) : (
+          <ReorderableList
+            data={active}
+            keyExtractor={(item) => item.chapterId}
+            itemHeight={QUEUE_ROW_HEIGHT}
+            renderItem={renderQueued}
+            onReorder={handleReorder}
+            contentContainerStyle={contentStyle}
+          />
+        );
+      case "failed":
+        return failed.length === 0 ? (
+          <EmptyState
+            icon="check"
+            title="No Failed Downloads"
+            message="Chapters that couldn't be downloaded are listed here to retry"
+          />
+        ) : (
+          <FlatList
+            data={failed}
+            renderItem={renderFailed}
+            keyExtractor={(item) => item.chapterId}
+            contentContainerStyle={contentStyle}
+            showsVerticalScrollIndicator={false}
+          />
+        );
+      case "completed":
+        return completed.length === 0 ? (
+          <EmptyState
+            icon="archive"
+            title="No Downloads"
+            message="Downloaded chapters will appear here for offline reading"
+          />
+        ) : (
+          <FlatList
+            data={completed}
+            renderItem={renderCompleted}
+            keyExtractor={(item) => item.chapterId}
+            contentContainerStyle={contentStyle}
+            showsVerticalScrollIndicator={false}
+          />
+        );
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <View
+        style={[styles.tabContainer, { paddingTop: headerHeight + Spacing.md }]}
+      >
+        <View
+          style={[styles.tabBar, { backgroundColor: theme.backgroundDefault }]}
+        >
+          {TABS.map((tab) => {
+            const isActive = activeTab === tab.key;
+            const count =
+              tab.key === "queue"
+                ? active.length
+                : tab.key === "failed"
+                  ? failed.length
+                  : 0;
+            return (
+              <Pressable
+                key={tab.key}
+                onPress={() => setActiveTab(tab.key)}
+                style={[
+                  styles.tab,
+                  isActive && { backgroundColor: theme.primary },
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={[
+                    styles.tabText,
+                    { color: isActive ? "#FFFFFF" : theme.textSecondary },
+                  ]}
+                >
+                  {tab.label}
+                  {count > 0 ? ` (${count})` : ""}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      {renderSummary()}
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  tabContainer: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  tabBar: {
+    flexDirection: "row",
+    borderRadius: BorderRadius.xs,
+    padding: Spacing.xs,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xs - 2,
+    alignItems: "center",
+  },
+  tabText: {
+    fontWeight: "600",
+  },
+  summary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginHorizontal: Spacing.xl,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    marginBottom: Spacing.sm,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.sm,
+  },
+  queueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: QUEUE_ROW_HEIGHT - Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+  listItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  dragHandle: {
+    padding: Spacing.xs,
+  },
+  itemContent: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    marginTop: Spacing.xs,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+  iconButton: {
+    padding: Spacing.xs,
+  },
+  retryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+});
@@ -18,8 +18,10 @@ import { ThemedText } from "@/components/ThemedText";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { mangadexApi } from "@/services/mangadex";
 import { storage, AppSettings } from "@/services/storage";
+import { readState } from "@/services/readState";
 import { downloadManager } from "@/services/downloadManager";
 import { useVolumeScroll } from "@/hooks/useVolumeScroll";
+import { useReadingSession } from "@/hooks/useReadingSession";
 
 type HtmlChapterReaderParams = {
   HtmlChapterReader: {
@@ -78,6 +80,16 @@ export default function HtmlChapterReaderScreen({
     onScrollDown: handleVolumeScrollDown,
   });
 
+  useReadingSession({
+    mangaId,
+    mangaTitle,
+    chapterId,
+    chapterNumber,
+    readerType: "html",
+    currentPage,
+    totalPages: totalPages,
+  });
+
   useEffect(() => {
     loadChapter();
   }, [chapterId]);
@@ -304,7 +316,10 @@ export default function HtmlChapterReaderScreen({
 
       setHtmlContent(html);
 
-      await storage.markChapterAsRead(mangaId, chapterId);
+      await readState.markRead(mangaId, {
+        id: chapterId,
+        number: chapterNumber,
+      });
     } catch (err) {
       console.error("Failed to load chapter:", err);
     } finally {
@@ -4,6 +4,7 @@ import {
   View,
   Pressable,
   FlatList,
+  ScrollView,
   Alert,
   ActivityIndicator,
 } from "react-native";
@@ -16,7 +17,13 @@ import { Feather } from "@expo/vector-icons";
 
 import { ThemedText } from "@/components/ThemedText";
 import { EmptyState } from "@/components/EmptyState";
+import { ReadingTimeline } from "@/components/ReadingTimeline";
+import { ReorderableList } from "@/components/ReorderableList";
+import { CategoryPickerModal } from "@/components/CategoryPickerModal";
+import { CategoryManagerModal } from "@/components/CategoryManagerModal";
+import { LibraryFilterModal } from "@/components/LibraryFilterModal";
 import { useTheme } from "@/hooks/useTheme";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import {
   storage,
@@ -24,6 +31,15 @@ import {
   ReadingHistoryItem,
 } from "@/services/storage";
 import { downloadManager, DownloadedChapter } from "@/services/downloadManager";
+import { downloadRetention } from "@/services/downloadRetention";
+import { categories, Category } from "@/services/categories";
+import {
+  libraryView,
+  LibraryViewContext,
+  LibraryViewOptions,
+  defaultLibraryViewOptions,
+} from "@/services/libraryView";
+import { normalizeTags } from "@/services/annotations";
 import { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
 
 type LibraryScreenProps = {
@@ -31,6 +47,10 @@ type LibraryScreenProps = {
 };
 
 type TabType = "bookmarks" | "history" | "downloads";
+type HistoryView = "recent" | "timeline";
+
+// thumbnail + vertical padding + gap below; reorderable rows need a fixed height
+const BOOKMARK_ROW_HEIGHT = 80 + Spacing.md * 2 + Spacing.sm;
 
 interface GroupedDownloads {
   mangaId: string;
@@ -43,23 +63,70 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
   const { theme } = useTheme();
   const tabBarHeight = useBottomTabBarHeight();
   const headerHeight = useHeaderHeight();
+  const queue = useDownloadQueue();
 
   const [activeTab, setActiveTab] = useState<TabType>("bookmarks");
+  const [historyView, setHistoryView] = useState<HistoryView>("recent");
   const [bookmarks, setBookmarks] = useState<BookmarkedManga[]>([]);
+  const [viewOptions, setViewOptions] = useState<LibraryViewOptions>(
+    defaultLibraryViewOptions,
+  );
+  const [viewContext, setViewContext] = useState<LibraryViewContext>({
+    unreadCounts: {},
+    lastReadAt: {},
+    latestUploadAt: {},
+    downloadedIds: new Set(),
+    annotations: {},
+  });
+  const [showLibraryFilter, setShowLibraryFilter] = useState(false);
+  const [categoryList, setCategoryList] = useState<Category[]>([]);
+  const [membership, setMembership] = useState<Record<number, string[]>>({});
+  const [activeCategory, setActiveCategory] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showMovePicker, setShowMovePicker] = useState(false);
+  const [moveInitialSelection, setMoveInitialSelection] = useState<number[]>(
+    [],
+  );
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
   const [history, setHistory] = useState<ReadingHistoryItem[]>([]);
   const [downloads, setDownloads] = useState<GroupedDownloads[]>([]);
   const [totalDownloadSize, setTotalDownloadSize] = useState(0);
+  const [pinnedManga, setPinnedManga] = useState<string[]>([]);
   const [exportingChapterId, setExportingChapterId] = useState<string | null>(null);
   const [exportProgress, setExportProgress] = useState(0);
 
   const loadData = useCallback(async () => {
-    const [bookmarksData, historyData, allDownloads] = await Promise.all([
+    const [
+      bookmarksData,
+      historyData,
+      allDownloads,
+      context,
+      options,
+      categoryData,
+      membershipData,
+      pinned,
+    ] = await Promise.all([
       storage.getBookmarks(),
       storage.getReadingHistory(),
       downloadManager.getAllDownloads(),
+      libraryView.getContext(),
+      libraryView.getOptions(),
+      categories.getCategories(),
+      categories.getMembership(),
+      downloadRetention.getPinnedManga(),
     ]);
     setBookmarks(bookmarksData);
+    setViewContext(context);
+    setViewOptions(options);
+    setCategoryList(categoryData);
+    setMembership(membershipData);
+    setActiveCategory((current) =>
+      current !== null && categoryData.some((c) => c.id === current)
+        ? current
+        : null,
+    );
     setHistory(historyData);
+    setPinnedManga(pinned);
     
     const grouped = allDownloads.reduce<GroupedDownloads[]>((acc, chapter) => {
       const existing = acc.find((g: GroupedDownloads) => g.mangaId === chapter.mangaId);
@@ -91,24 +158,97 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
     }, [loadData]),
   );
 
-  const handleRemoveBookmark = async (mangaId: string) => {
-    Alert.alert(
-      "Remove Bookmark",
-      "Are you sure you want to remove this manga from your bookmarks?",
-      [
+  const toggleSelected = (mangaId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(mangaId)
+        ? prev.filter((id) => id !== mangaId)
+        : [...prev, mangaId],
+    );
+  };
+
+  const handleSelectCategory = (categoryId: number | null) => {
+    setActiveCategory(categoryId);
+    setSelectedIds([]);
+  };
+
+  const handleOpenMovePicker = () => {
+    // A single manga from "All" starts from its current categories
+    const current =
+      activeCategory === null && selectedIds.length === 1
+        ? categoryList
+            .filter((c) => membership[c.id]?.includes(selectedIds[0]))
+            .map((c) => c.id)
+        : [];
+    setMoveInitialSelection(current);
+    setShowMovePicker(true);
+  };
+
+  const handleMoveSelected = async (categoryIds: number[]) => {
+    setShowMovePicker(false);
+    await categories.moveManga(selectedIds, activeCategory, categoryIds);
+    setSelectedIds([]);
+    loadData();
+  };
+
+  const removeSelectedBookmarks = async () => {
+    for (const mangaId of selectedIds) {
+      await storage.removeBookmark(mangaId);
+    }
+    setSelectedIds([]);
+    loadData();
+  };
+
+  const handleRemoveSelected = () => {
+    const count = selectedIds.length;
+    const label = `${count} manga`;
+    const category = categoryList.find((c) => c.id === activeCategory);
+
+    if (!category) {
+      Alert.alert("Remove Bookmarks", `Remove ${label} from your bookmarks?`, [
         { text: "Cancel", style: "cancel" },
         {
           text: "Remove",
           style: "destructive",
+          onPress: removeSelectedBookmarks,
+        },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      "Remove Selected",
+      `Remove ${label} from "${category.name}" only, or remove the bookmarks entirely?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: `Remove from ${category.name}`,
           onPress: async () => {
-            await storage.removeBookmark(mangaId);
+            await categories.removeManga(category.id, selectedIds);
+            setSelectedIds([]);
             loadData();
           },
         },
+        {
+          text: "Remove Bookmarks",
+          style: "destructive",
+          onPress: removeSelectedBookmarks,
+        },
       ],
     );
   };
 
+  const handleChangeViewOptions = (options: LibraryViewOptions) => {
+    setViewOptions(options);
+    libraryView.saveOptions(options);
+  };
+
+  const handleReorderCategory = (reordered: BookmarkedManga[]) => {
+    if (activeCategory === null) return;
+    const ids = reordered.map((b) => b.id);
+    setMembership((prev) => ({ ...prev, [activeCategory]: ids }));
+    categories.reorderManga(activeCategory, ids);
+  };
+
   const handleClearHistory = () => {
     Alert.alert(
       "Clear History",
@@ -168,6 +308,11 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
     );
   };
 
+  const handleTogglePin = async (mangaId: string) => {
+    await downloadRetention.setPinned(mangaId, !pinnedManga.includes(mangaId));
+    loadData();
+  };
+
   const handleOpenDownloadedChapter = (chapter: DownloadedChapter) => {
     navigation.navigate("LiteChapterReader" as any, {
       chapterId: chapter.chapterId,
@@ -273,10 +418,17 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
     return date.toLocaleDateString();
   };
 
-  const renderBookmarkItem = ({ item }: { item: BookmarkedManga }) => (
+  const renderBookmark = (
+    item: BookmarkedManga,
+    dragHandle?: (handle: React.ReactNode) => React.ReactNode,
+  ) => (
     <Pressable
-      onPress={() => handleMangaPress(item.id)}
-      onLongPress={() => handleRemoveBookmark(item.id)}
+      onPress={() =>
+        selectedIds.length > 0
+          ? toggleSelected(item.id)
+          : handleMangaPress(item.id)
+      }
+      onLongPress={() => toggleSelected(item.id)}
       style={({ pressed }) => [
         styles.listItem,
         {
@@ -312,12 +464,41 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
           style={[styles.itemMeta, { color: theme.textSecondary }]}
         >
           Added {formatDate(item.bookmarkedAt)}
+          {viewContext.annotations[item.id]?.score
+            ? ` - ★ ${viewContext.annotations[item.id].score}/10`
+            : ""}
         </ThemedText>
       </View>
-      <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+      {viewContext.unreadCounts[item.id] > 0 ? (
+        <View style={[styles.unreadBadge, { backgroundColor: theme.primary }]}>
+          <ThemedText type="caption" style={styles.unreadBadgeText}>
+            {viewContext.unreadCounts[item.id]}
+          </ThemedText>
+        </View>
+      ) : null}
+      {selectedIds.length > 0 ? (
+        <Feather
+          name={selectedIds.includes(item.id) ? "check-circle" : "circle"}
+          size={20}
+          color={
+            selectedIds.includes(item.id) ? theme.primary : theme.textSecondary
+          }
+        />
+      ) : dragHandle ? (
+        dragHandle(
+          <View style={styles.dragHandle}>
+            <Feather name="menu" size={20} color={theme.textSecondary} />
+          </View>,
+        )
+      ) : (
+        <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+      )}
     </Pressable>
   );
 
+  const renderBookmarkItem = ({ item }: { item: BookmarkedManga }) =>
+    renderBookmark(item);
+
   const renderDownloadItem = ({ item }: { item: GroupedDownloads }) => (
     <View style={[styles.downloadGroup, { backgroundColor: theme.backgroundDefault }]}>
       <Pressable
@@ -336,6 +517,24 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
             {item.chapters.length} chapter{item.chapters.length !== 1 ? "s" : ""} - {formatSize(item.totalSize)}
           </ThemedText>
         </View>
+        <Pressable
+          onPress={() => handleTogglePin(item.mangaId)}
+          style={({ pressed }) => [
+            styles.pinBtn,
+            { opacity: pressed ? 0.6 : 1 },
+          ]}
+          hitSlop={8}
+        >
+          <Feather
+            name={pinnedManga.includes(item.mangaId) ? "lock" : "unlock"}
+            size={18}
+            color={
+              pinnedManga.includes(item.mangaId)
+                ? theme.primary
+                : theme.textSecondary
+            }
+          />
+        </Pressable>
         <Pressable
           onPress={() => handleDeleteMangaDownloads(item.mangaId, item.mangaTitle)}
           style={({ pressed }) => [
@@ -463,11 +662,37 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
     </Pressable>
   );
 
+  const bookmarksById = new Map(bookmarks.map((b) => [b.id, b]));
+  const categoryBookmarks =
+    activeCategory === null
+      ? bookmarks
+      : (membership[activeCategory] || [])
+          .map((id) => bookmarksById.get(id))
+          .filter((b): b is BookmarkedManga => b !== undefined);
+  const visibleBookmarks = libraryView.apply(
+    categoryBookmarks,
+    viewOptions,
+    viewContext,
+  );
+  const hasViewFilters = libraryView.hasActiveFilters(viewOptions);
+  // Keep selected tags listed even after the last manga using them loses the
+  // tag, so the filter can still be switched off.
+  const userTags = normalizeTags([
+    ...viewOptions.userTags,
+    ...Object.values(viewContext.annotations).flatMap((a) => a.tags),
+  ]).sort((a, b) => a.localeCompare(b));
+  const activeCategoryName = categoryList.find(
+    (c) => c.id === activeCategory,
+  )?.name;
+
   const getCurrentData = () => {
     switch (activeTab) {
-      case "bookmarks": return bookmarks;
-      case "history": return history;
-      case "downloads": return downloads;
+      case "bookmarks":
+        return visibleBookmarks;
+      case "history":
+        return history;
+      case "downloads":
+        return downloads;
     }
   };
   
@@ -477,7 +702,24 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
   const getEmptyState = () => {
     switch (activeTab) {
       case "bookmarks":
-        return { icon: "bookmark" as const, title: "No Bookmarks", message: "Manga you bookmark will appear here" };
+        if (categoryBookmarks.length > 0 && hasViewFilters) {
+          return {
+            icon: "filter" as const,
+            title: "No Matches",
+            message: "No bookmarks match the current filters",
+          };
+        }
+        return activeCategoryName
+          ? {
+              icon: "folder" as const,
+              title: `Nothing in ${activeCategoryName}`,
+              message: "Long-press bookmarks in All to move them here",
+            }
+          : {
+              icon: "bookmark" as const,
+              title: "No Bookmarks",
+              message: "Manga you bookmark will appear here",
+            };
       case "history":
         return { icon: "clock" as const, title: "No Reading History", message: "Your reading history will appear here" };
       case "downloads":
@@ -503,7 +745,10 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
           ]}
         >
           <Pressable
-            onPress={() => setActiveTab("bookmarks")}
+            onPress={() => {
+              setActiveTab("bookmarks");
+              setSelectedIds([]);
+            }}
             style={[
               styles.tab,
               activeTab === "bookmarks" && {
@@ -527,7 +772,10 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
             </ThemedText>
           </Pressable>
           <Pressable
-            onPress={() => setActiveTab("history")}
+            onPress={() => {
+              setActiveTab("history");
+              setSelectedIds([]);
+            }}
             style={[
               styles.tab,
               activeTab === "history" && {
@@ -549,7 +797,10 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
             </ThemedText>
           </Pressable>
           <Pressable
-            onPress={() => setActiveTab("downloads")}
+            onPress={() => {
+              setActiveTab("downloads");
+              setSelectedIds([]);
+            }}
             style={[
               styles.tab,
               activeTab === "downloads" && {
@@ -571,7 +822,38 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
             </ThemedText>
           </Pressable>
         </View>
-        {activeTab === "history" && history.length > 0 ? (
+        {activeTab === "bookmarks" ? (
+          <View style={styles.headerActions}>
+            <Pressable
+              onPress={() => navigation.navigate("MangaLists")}
+              style={({ pressed }) => [
+                styles.clearButton,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather name="list" size={18} color={theme.textSecondary} />
+            </Pressable>
+            <Pressable
+              onPress={() => setShowLibraryFilter(true)}
+              style={({ pressed }) => [
+                styles.clearButton,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather
+                name="filter"
+                size={18}
+                color={
+                  hasViewFilters || viewOptions.sortBy !== "custom"
+                    ? theme.primary
+                    : theme.textSecondary
+                }
+              />
+            </Pressable>
+          </View>
+        ) : activeTab === "history" &&
+          historyView === "recent" &&
+          history.length > 0 ? (
           <Pressable
             onPress={handleClearHistory}
             style={({ pressed }) => [
@@ -581,16 +863,35 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
           >
             <Feather name="trash-2" size={18} color={theme.textSecondary} />
           </Pressable>
-        ) : activeTab === "downloads" && downloads.length > 0 ? (
-          <Pressable
-            onPress={handleClearAllDownloads}
-            style={({ pressed }) => [
-              styles.clearButton,
-              { opacity: pressed ? 0.6 : 1 },
-            ]}
-          >
-            <Feather name="trash-2" size={18} color={theme.textSecondary} />
-          </Pressable>
+        ) : activeTab === "downloads" ? (
+          <View style={styles.headerActions}>
+            <Pressable
+              onPress={() => navigation.navigate("Downloads")}
+              style={({ pressed }) => [
+                styles.clearButton,
+                { opacity: pressed ? 0.6 : 1 },
+              ]}
+            >
+              <Feather
+                name="activity"
+                size={18}
+                color={
+                  queue.items.length > 0 ? theme.primary : theme.textSecondary
+                }
+              />
+            </Pressable>
+            {downloads.length > 0 ? (
+              <Pressable
+                onPress={handleClearAllDownloads}
+                style={({ pressed }) => [
+                  styles.clearButton,
+                  { opacity: pressed ? 0.6 : 1 },
+                ]}
+              >
+                <Feather name="trash-2" size={18} color={theme.textSecondary} />
+              </Pressable>
+            ) : null}
+          </View>
         ) : null}
       </View>
 
@@ -602,8 +903,159 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
         </View>
       )}
 
-      {isEmpty ? (
+      {activeTab === "bookmarks" && selectedIds.length > 0 ? (
+        <View
+          style={[
+            styles.selectionBar,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Pressable
+            onPress={() => setSelectedIds([])}
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+            hitSlop={8}
+          >
+            <Feather name="x" size={18} color={theme.textSecondary} />
+          </Pressable>
+          <ThemedText type="small" style={styles.selectionCount}>
+            {selectedIds.length} selected
+          </ThemedText>
+          <Pressable
+            onPress={() => setSelectedIds(visibleBookmarks.map((b) => b.id))}
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+            hitSlop={8}
+          >
+            <Feather name="check-square" size={18} color={theme.text} />
+          </Pressable>
+          <Pressable
+            onPress={handleOpenMovePicker}
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+            hitSlop={8}
+          >
+            <Feather name="folder" size={18} color={theme.text} />
+          </Pressable>
+          <Pressable
+            onPress={handleRemoveSelected}
+            style={({ pressed }) => [
+              styles.selectionAction,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+            hitSlop={8}
+          >
+            <Feather name="trash-2" size={18} color="#FF6B6B" />
+          </Pressable>
+        </View>
+      ) : activeTab === "bookmarks" ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.categoryTabs}
+          contentContainerStyle={styles.categoryTabsContent}
+        >
+          {[{ id: null, name: "All" }, ...categoryList].map((category) => {
+            const isActive = activeCategory === category.id;
+            const count =
+              category.id === null
+                ? bookmarks.length
+                : membership[category.id]?.length || 0;
+            return (
+              <Pressable
+                key={category.id ?? "all"}
+                onPress={() => handleSelectCategory(category.id)}
+                onLongPress={() => setShowCategoryManager(true)}
+                style={[
+                  styles.historyToggleButton,
+                  {
+                    backgroundColor: isActive
+                      ? theme.primary
+                      : theme.backgroundDefault,
+                  },
+                ]}
+              >
+                <ThemedText
+                  type="caption"
+                  style={{
+                    color: isActive ? "#FFFFFF" : theme.textSecondary,
+                    fontWeight: "600",
+                  }}
+                >
+                  {category.name} ({count})
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+          <Pressable
+            onPress={() => setShowCategoryManager(true)}
+            style={[
+              styles.historyToggleButton,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="sliders" size={14} color={theme.textSecondary} />
+          </Pressable>
+        </ScrollView>
+      ) : null}
+
+      {activeTab === "history" && (
+        <View style={styles.historyToggle}>
+          {(["recent", "timeline"] as HistoryView[]).map((view) => (
+            <Pressable
+              key={view}
+              onPress={() => setHistoryView(view)}
+              style={[
+                styles.historyToggleButton,
+                {
+                  backgroundColor:
+                    historyView === view
+                      ? theme.primary
+                      : theme.backgroundDefault,
+                },
+              ]}
+            >
+              <ThemedText
+                type="caption"
+                style={{
+                  color: historyView === view ? "#FFFFFF" : theme.textSecondary,
+                  fontWeight: "600",
+                }}
+              >
+                {view === "recent" ? "Last Read" : "Timeline"}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {activeTab === "history" && historyView === "timeline" ? (
+        <ReadingTimeline
+          onMangaPress={handleMangaPress}
+          contentPaddingBottom={tabBarHeight + Spacing.xl}
+        />
+      ) : isEmpty ? (
         <EmptyState {...getEmptyState()} />
+      ) : activeTab === "bookmarks" &&
+        activeCategory !== null &&
+        libraryView.isCustomOrder(viewOptions) ? (
+        <ReorderableList
+          data={visibleBookmarks}
+          keyExtractor={(item) => item.id}
+          itemHeight={BOOKMARK_ROW_HEIGHT}
+          renderItem={renderBookmark}
+          onReorder={handleReorderCategory}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: tabBarHeight + Spacing.xl },
+          ]}
+        />
       ) : (
         <FlatList
           data={currentData as any}
@@ -628,6 +1080,29 @@ export default function LibraryScreen({ navigation }: LibraryScreenProps) {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <CategoryPickerModal
+        visible={showMovePicker}
+        title={activeCategory === null ? "Set Categories" : "Move To"}
+        confirmLabel={activeCategory === null ? "Save" : "Move"}
+        initialSelection={moveInitialSelection}
+        onClose={() => setShowMovePicker(false)}
+        onConfirm={handleMoveSelected}
+      />
+      <LibraryFilterModal
+        visible={showLibraryFilter}
+        options={viewOptions}
+        availableTags={userTags}
+        onChange={handleChangeViewOptions}
+        onClose={() => setShowLibraryFilter(false)}
+      />
+      <CategoryManagerModal
+        visible={showCategoryManager}
+        onClose={() => {
+          setShowCategoryManager(false);
+          loadData();
+        }}
+      />
     </View>
   );
 }
@@ -661,6 +1136,10 @@ const styles = StyleSheet.create({
   clearButton: {
     padding: Spacing.sm,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   listContent: {
     paddingHorizontal: Spacing.xl,
     paddingTop: Spacing.sm,
@@ -690,6 +1169,56 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
   itemMeta: {},
+  unreadBadge: {
+    minWidth: 24,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+  },
+  unreadBadgeText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  categoryTabs: {
+    flexGrow: 0,
+  },
+  categoryTabsContent: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  selectionBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: Spacing.xl,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.xs,
+  },
+  selectionCount: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  selectionAction: {
+    padding: Spacing.sm,
+  },
+  dragHandle: {
+    padding: Spacing.xs,
+  },
+  historyToggle: {
+    flexDirection: "row",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  historyToggleButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
   downloadStats: {
     marginHorizontal: Spacing.xl,
     paddingHorizontal: Spacing.md,
@@ -712,6 +1241,9 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: Spacing.xs,
   },
+  pinBtn: {
+    padding: Spacing.sm,
+  },
   deleteBtn: {
     padding: Spacing.sm,
   },
@@ -22,8 +22,10 @@ import { LoadingIndicator } from "@/components/LoadingIndicator";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { mangadexApi } from "@/services/mangadex";
 import { storage, AppSettings } from "@/services/storage";
+import { readState } from "@/services/readState";
 import { downloadManager } from "@/services/downloadManager";
 import { useVolumeScroll } from "@/hooks/useVolumeScroll";
+import { useReadingSession } from "@/hooks/useReadingSession";
 
 type LiteChapterReaderParams = {
   LiteChapterReader: {
@@ -467,6 +469,16 @@ export default function LiteChapterReaderScreen({
     onScrollDown: handleVolumeScrollDown,
   });
 
+  useReadingSession({
+    mangaId,
+    mangaTitle,
+    chapterId,
+    chapterNumber,
+    readerType: "lite",
+    currentPage,
+    totalPages: allPageUrls.length,
+  });
+
   useEffect(() => {
     loadChapter();
     return () => {
@@ -574,7 +586,10 @@ export default function LiteChapterReaderScreen({
         const preloadUrls = pageUrls.slice(0, Math.min(3, pageUrls.length));
         Image.prefetch(preloadUrls, "memory-disk");
 
-        await storage.markChapterAsRead(mangaId, chapterId);
+        await readState.markRead(mangaId, {
+          id: chapterId,
+          number: chapterNumber,
+        });
       } else {
         setAllPageUrls([]);
       }
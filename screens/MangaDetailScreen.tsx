@@ -1,14 +1,24 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useState,
+  useCallback,
+  useRef,
+  useMemo,
+} from "react";
 import {
   StyleSheet,
   View,
   Pressable,
   ScrollView,
+  TextInput,
   Dimensions,
   FlatList,
   Share,
   Alert,
   ActivityIndicator,
+  Linking,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from "react-native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp, useFocusEffect } from "@react-navigation/native";
@@ -27,11 +37,47 @@ import Animated, {
 import { ThemedText } from "@/components/ThemedText";
 import { LoadingIndicator } from "@/components/LoadingIndicator";
 import { SimilarMangaSection } from "@/components/SimilarMangaSection";
+import { CategoryPickerModal } from "@/components/CategoryPickerModal";
+import { AnnotationEditorModal } from "@/components/AnnotationEditorModal";
+import { MangaStatisticsCard } from "@/components/MangaStatisticsCard";
+import { ScanlationGroupsModal } from "@/components/ScanlationGroupsModal";
+import { ListPickerModal } from "@/components/ListPickerModal";
+import {
+  BulkDownloadModal,
+  BulkDownload,
+} from "@/components/BulkDownloadModal";
 import { useTheme } from "@/hooks/useTheme";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
-import { mangadexApi, Manga, Chapter } from "@/services/mangadex";
+import {
+  mangadexApi,
+  mergeChapters,
+  countVolumeChapters,
+  Manga,
+  Chapter,
+  ChapterQuery,
+  ChapterVolume,
+  MangaPerson,
+  MangaStatistics,
+} from "@/services/mangadex";
 import { storage, AppSettings } from "@/services/storage";
-import { downloadManager, DownloadProgress } from "@/services/downloadManager";
+import { readState, toReadChapter } from "@/services/readState";
+import { categories } from "@/services/categories";
+import { annotations, MangaAnnotation } from "@/services/annotations";
+import { mangaLists } from "@/services/mangaLists";
+import { downloadManager } from "@/services/downloadManager";
+import { downloadQueue, QueuedChapter } from "@/services/downloadQueue";
+import { autoDownload, AutoDownloadStatus } from "@/services/autoDownload";
+import { notificationService } from "@/services/notificationService";
+import {
+  scanlationGroups,
+  GroupPreferences,
+  emptyGroupPreferences,
+  groupByChapter,
+  pickVersion,
+  resolveChapters,
+  countChapters,
+} from "@/services/scanlationGroups";
 import { BrowseStackParamList } from "@/navigation/BrowseStackNavigator";
 
 type MangaDetailScreenProps = {
@@ -41,6 +87,19 @@ type MangaDetailScreenProps = {
 
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const COVER_HEIGHT = 300;
+// Start loading the next chapter page this far above the end of the screen
+const LOAD_MORE_DISTANCE = 800;
+const FALLBACK_LANGUAGES = [
+  "en",
+  "ko",
+  "ja",
+  "zh",
+  "es",
+  "pt-br",
+  "fr",
+  "de",
+  "ru",
+];
 
 const springConfig: WithSpringConfig = {
   damping: 15,
@@ -52,6 +111,55 @@ const springConfig: WithSpringConfig = {
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+// "Next" starts at the chapter being read, otherwise at the first unread one
+const selectBulkChapters = (
+  resolved: Chapter[],
+  readNumbers: Set<string>,
+  selection: BulkDownload,
+  currentChapter: string | null,
+): Chapter[] => {
+  switch (selection.type) {
+    case "all":
+      return resolved;
+    case "unread":
+      return resolved.filter((c) => !readNumbers.has(c.chapter));
+    case "volume":
+      return resolved.filter((c) => c.volume === selection.volume);
+    case "next": {
+      const start = currentChapter
+        ? Math.max(
+            0,
+            resolved.findIndex((c) => c.chapter === currentChapter),
+          )
+        : 0;
+      return resolved
+        .slice(start)
+        .filter((c) => !readNumbers.has(c.chapter))
+        .slice(0, selection.count);
+    }
+  }
+};
+
+// One unlabelled credit when the same people did story and art,
+// otherwise separate "Story" and "Art" credits
+const getCredits = (
+  manga: Manga,
+): { label: string | null; people: MangaPerson[] }[] => {
+  const names = (people: MangaPerson[]) => people.map((p) => p.name).join(", ");
+  const { authors, artists } = manga;
+  if (artists.length === 0 || names(artists) === names(authors)) {
+    return authors.length > 0 ? [{ label: null, people: authors }] : [];
+  }
+  if (authors.length === 0) return [{ label: "Art", people: artists }];
+  return [
+    { label: "Story", people: authors },
+    { label: "Art", people: artists },
+  ];
+};
+
 export default function MangaDetailScreen({
   navigation,
   route,
@@ -64,19 +172,67 @@ export default function MangaDetailScreen({
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingChapters, setLoadingChapters] = useState(true);
+  const [loadingMoreChapters, setLoadingMoreChapters] = useState(false);
+  const [nextChapterOffset, setNextChapterOffset] = useState<number | null>(
+    null,
+  );
+  const [chapterQuery, setChapterQuery] = useState<ChapterQuery>({});
+  const [chapterSearch, setChapterSearch] = useState("");
+  const [volumes, setVolumes] = useState<ChapterVolume[]>([]);
+  const [totalChapters, setTotalChapters] = useState(0);
+  const [feedTotal, setFeedTotal] = useState(0);
+  const [feedLanguages, setFeedLanguages] = useState<string[]>(["en"]);
+  const [adultMode, setAdultMode] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
-  const [readChapters, setReadChapters] = useState<string[]>([]);
+  const [bookmarkCategoryIds, setBookmarkCategoryIds] = useState<number[]>([]);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [listIds, setListIds] = useState<number[]>([]);
+  const [showListPicker, setShowListPicker] = useState(false);
+  const [showBulkDownload, setShowBulkDownload] = useState(false);
+  const [autoDownloadStatus, setAutoDownloadStatus] =
+    useState<AutoDownloadStatus | null>(null);
+  const [loadingBulkDownload, setLoadingBulkDownload] = useState(false);
+  const [selectingChapters, setSelectingChapters] = useState(false);
+  const [selectedChapters, setSelectedChapters] = useState<
+    Map<string, Chapter>
+  >(new Map());
+  const [annotation, setAnnotation] = useState<MangaAnnotation | null>(null);
+  const [statistics, setStatistics] = useState<MangaStatistics | null>(null);
+  const [groupPreferences, setGroupPreferences] = useState<GroupPreferences>(
+    emptyGroupPreferences,
+  );
+  const [showGroupsModal, setShowGroupsModal] = useState(false);
+  const [expandedChapters, setExpandedChapters] = useState<Set<string>>(
+    new Set(),
+  );
+  const [showAnnotationEditor, setShowAnnotationEditor] = useState(false);
+  const [readChapters, setReadChapters] = useState<Record<string, number>>({});
   const [showFullDescription, setShowFullDescription] = useState(false);
+  const [showAltTitles, setShowAltTitles] = useState(false);
   const [progress, setProgress] = useState<{ chapterId: string; chapterNumber: string } | null>(null);
   const [chapterLanguage, setChapterLanguage] = useState("en");
   const [downloadedChapters, setDownloadedChapters] = useState<Set<string>>(new Set());
-  const [downloadProgress, setDownloadProgress] = useState<Record<string, DownloadProgress>>({});
   const [dataSaver, setDataSaver] = useState(false);
   const [readerType, setReaderType] = useState<"standard" | "lite">("lite");
   const [similarManga, setSimilarManga] = useState<Manga[]>([]);
   const [loadingSimilar, setLoadingSimilar] = useState(true);
 
   const buttonScale = useSharedValue(1);
+  // Bumped whenever the chapter list starts over, so older pages are dropped
+  const chapterRequestRef = useRef(0);
+  const loadingMoreChaptersRef = useRef(false);
+  const queuedIdsRef = useRef<string[]>([]);
+  const { items: queueItems } = useDownloadQueue();
+  const queuedChapters = useMemo(
+    () =>
+      new Map(
+        queueItems
+          .filter((item) => item.mangaId === mangaId)
+          .map((item) => [item.chapterId, item]),
+      ),
+    [queueItems, mangaId],
+  );
+  const isFullFeed = !chapterQuery.volume && !chapterQuery.chapter;
 
   const animatedButtonStyle = useAnimatedStyle(() => ({
     transform: [{ scale: buttonScale.value }],
@@ -92,24 +248,48 @@ export default function MangaDetailScreen({
         ? settings.chapterLanguages
         : ["en"];
       const isAdultMode = settings.adultMode;
+      const requestId = ++chapterRequestRef.current;
+      setAdultMode(isAdultMode);
       setChapterLanguage(langCodes[0]);
       setDataSaver(settings.dataSaver);
       setReaderType(settings.readerType || "lite");
 
-      const [mangaData, bookmarked, readChapterIds, savedProgress, downloads] =
-        await Promise.all([
-          mangadexApi.getMangaDetails(mangaId),
-          storage.isBookmarked(mangaId),
-          storage.getReadChapters(mangaId),
-          storage.getReadingProgress(mangaId),
-          downloadManager.getDownloadsByManga(mangaId),
-        ]);
-      
-      setDownloadedChapters(new Set(downloads.map(d => d.chapterId)));
+      const [
+        mangaData,
+        bookmarked,
+        readChapterIds,
+        savedProgress,
+        downloads,
+        savedAnnotation,
+        savedGroups,
+      ] = await Promise.all([
+        mangadexApi.getMangaDetails(mangaId),
+        storage.isBookmarked(mangaId),
+        readState.getReadChapters(mangaId),
+        storage.getReadingProgress(mangaId),
+        downloadManager.getDownloadsByManga(mangaId),
+        annotations.get(mangaId),
+        scanlationGroups.getPreferences(mangaId),
+      ]);
+
+      setDownloadedChapters(new Set(downloads.map((d) => d.chapterId)));
 
       setManga(mangaData);
       setIsBookmarked(bookmarked);
+      if (mangaData && bookmarked) {
+        storage.updateBookmarkedManga(mangaData).catch(() => {});
+      }
       setReadChapters(readChapterIds);
+      setAnnotation(savedAnnotation);
+      setGroupPreferences(savedGroups);
+      // Details usually come straight from the response cache, so show them
+      // while the chapter feed is still loading
+      setLoading(false);
+
+      mangadexApi
+        .getMangaStatistics(mangaId)
+        .then(setStatistics)
+        .catch((err) => console.error("Error fetching statistics:", err));
 
       if (savedProgress) {
         setProgress({
@@ -118,17 +298,40 @@ export default function MangaDetailScreen({
         });
       }
 
-      let chaptersData = await mangadexApi.getChapters(mangaId, langCodes, isAdultMode);
-      
-      if (chaptersData.length === 0) {
-        const fallbackLangs = ["en", "ko", "ja", "zh", "es", "pt-br", "fr", "de", "ru"];
-        chaptersData = await mangadexApi.getChapters(mangaId, fallbackLangs, isAdultMode);
-        if (chaptersData.length > 0) {
+      // Only the first page is fetched up front; the rest loads on scroll
+      const loadFeed = (langs: string[]) =>
+        Promise.all([
+          mangadexApi.getChapterPage(mangaId, langs, isAdultMode),
+          mangadexApi
+            .getVolumes(mangaId, langs)
+            .catch((): ChapterVolume[] => []),
+        ]);
+      let feedLangs = langCodes;
+      let [firstPage, volumeList] = await loadFeed(feedLangs);
+
+      if (firstPage.data.length === 0) {
+        const [fallbackPage, fallbackVolumes] =
+          await loadFeed(FALLBACK_LANGUAGES);
+        if (fallbackPage.data.length > 0) {
+          feedLangs = FALLBACK_LANGUAGES;
+          [firstPage, volumeList] = [fallbackPage, fallbackVolumes];
           setChapterLanguage("multi");
         }
       }
+      if (requestId !== chapterRequestRef.current) return;
 
-      setChapters(chaptersData);
+      setFeedLanguages(feedLangs);
+      setChapterQuery({});
+      setChapters(mergeChapters([], firstPage.data));
+      setNextChapterOffset(firstPage.nextOffset);
+      setFeedTotal(firstPage.total);
+      setVolumes(volumeList);
+      setLoadingChapters(false);
+
+      // The aggregate gives a total without paging through the feed
+      setTotalChapters(
+        volumeList.length > 0 ? countVolumeChapters(volumeList) : 0,
+      );
 
       setLoadingSimilar(true);
       const similar = await mangadexApi.getSimilarManga(mangaId, 8, isAdultMode);
@@ -146,6 +349,24 @@ export default function MangaDetailScreen({
     fetchData();
   }, [fetchData]);
 
+  // Unread counts compare against this, so it's counted from the whole feed
+  // in the reader's languages, the same way the update check counts it
+  const isFeedComplete =
+    !loadingChapters &&
+    isFullFeed &&
+    nextChapterOffset === null &&
+    feedLanguages !== FALLBACK_LANGUAGES;
+
+  useEffect(() => {
+    if (isFeedComplete && chapters.length > 0) {
+      readState.setChapterCount(mangaId, countChapters(chapters));
+    }
+  }, [isFeedComplete, chapters, mangaId]);
+
+  const refreshReadChapters = useCallback(async () => {
+    setReadChapters(await readState.getReadChapters(mangaId));
+  }, [mangaId]);
+
   useFocusEffect(
     useCallback(() => {
       const reloadReaderType = async () => {
@@ -153,18 +374,60 @@ export default function MangaDetailScreen({
         setReaderType(settings.readerType || "lite");
       };
       reloadReaderType();
-    }, [])
+      refreshReadChapters();
+    }, [refreshReadChapters]),
   );
 
+  const handleOpenBulkDownload = async () => {
+    setAutoDownloadStatus(
+      isBookmarked ? await autoDownload.getStatus(mangaId) : null,
+    );
+    setShowBulkDownload(true);
+  };
+
+  const handleToggleAutoDownload = async (enabled: boolean) => {
+    setAutoDownloadStatus((prev) => (prev ? { ...prev, enabled } : prev));
+    await autoDownload.setManga(mangaId, enabled);
+    await notificationService.syncBackgroundTask();
+  };
+
   const handleBookmarkPress = async () => {
     if (!manga) return;
 
     if (isBookmarked) {
-      await storage.removeBookmark(mangaId);
-      setIsBookmarked(false);
+      setBookmarkCategoryIds(await categories.getMangaCategoryIds(mangaId));
     } else {
       await storage.addBookmark(manga);
       setIsBookmarked(true);
+      setBookmarkCategoryIds([]);
+    }
+    setShowCategoryPicker(true);
+  };
+
+  const handleSaveCategories = async (categoryIds: number[]) => {
+    setShowCategoryPicker(false);
+    await categories.setMangaCategories(mangaId, categoryIds);
+  };
+
+  const handleRemoveBookmark = async () => {
+    setShowCategoryPicker(false);
+    await storage.removeBookmark(mangaId);
+    setIsBookmarked(false);
+  };
+
+  const handleListsPress = async () => {
+    setListIds(await mangaLists.getMangaListIds(mangaId));
+    setShowListPicker(true);
+  };
+
+  const handleSaveLists = async (ids: number[]) => {
+    setShowListPicker(false);
+    if (!manga) return;
+    try {
+      await mangaLists.setMangaLists(manga, ids);
+    } catch (err) {
+      console.error("Error saving lists:", err);
+      Alert.alert("Error", "Couldn't update your lists. Please try again.");
     }
   };
 
@@ -181,6 +444,16 @@ export default function MangaDetailScreen({
     }
   };
 
+  // Chapters leaving the queue have either finished or been cancelled
+  useEffect(() => {
+    const left = queuedIdsRef.current.some((id) => !queuedChapters.has(id));
+    queuedIdsRef.current = [...queuedChapters.keys()];
+    if (!left) return;
+    downloadManager.getDownloadsByManga(mangaId).then((downloads) => {
+      setDownloadedChapters(new Set(downloads.map((d) => d.chapterId)));
+    });
+  }, [queuedChapters, mangaId]);
+
   const handleDownload = async (chapter: Chapter) => {
     if (!manga) return;
     
@@ -207,40 +480,169 @@ export default function MangaDetailScreen({
       return;
     }
 
-    const progressCallback = (progress: DownloadProgress) => {
-      setDownloadProgress(prev => ({ ...prev, [chapter.id]: progress }));
-      
-      if (progress.status === "completed") {
-        setDownloadedChapters(prev => new Set([...prev, chapter.id]));
-        setTimeout(() => {
-          setDownloadProgress(prev => {
-            const next = { ...prev };
-            delete next[chapter.id];
-            return next;
-          });
-        }, 1000);
-      } else if (progress.status === "failed") {
-        Alert.alert("Download Failed", "Could not download chapter. Please try again.");
-        setDownloadProgress(prev => {
-          const next = { ...prev };
-          delete next[chapter.id];
-          return next;
-        });
-      }
-    };
+    const queued = queuedChapters.get(chapter.id);
+    if (queued) {
+      handleQueuedPress(queued);
+      return;
+    }
 
-    await downloadManager.downloadChapter(
-      chapter.id,
-      manga.id,
-      manga.title,
-      chapter.chapter,
+    try {
+      await downloadQueue.enqueue(manga, [chapter], dataSaver);
+    } catch (err) {
+      console.error("Error queueing download:", err);
+      Alert.alert(
+        "Download Failed",
+        "Could not queue this chapter. Please try again.",
+      );
+    }
+  };
+
+  const handleQueuedPress = (item: QueuedChapter) => {
+    if (item.status === "paused") {
+      downloadQueue.resume(item.chapterId);
+      return;
+    }
+    if (item.status === "failed") {
+      Alert.alert(
+        "Download Failed",
+        item.error || "Could not download chapter.",
+        [
+          {
+            text: "Cancel Download",
+            style: "destructive",
+            onPress: () => downloadQueue.remove(item.chapterId),
+          },
+          { text: "Close", style: "cancel" },
+          {
+            text: "Retry",
+            onPress: () => downloadQueue.resume(item.chapterId),
+          },
+        ],
+      );
+      return;
+    }
+    Alert.alert(
+      `Ch. ${item.chapterNumber}`,
+      item.status === "downloading" ? "Downloading…" : "Waiting to download",
+      [
+        { text: "Pause", onPress: () => downloadQueue.pause(item.chapterId) },
+        {
+          text: "Cancel Download",
+          style: "destructive",
+          onPress: () => downloadQueue.remove(item.chapterId),
+        },
+        { text: "Close", style: "cancel" },
+      ],
+    );
+  };
+
+  const formatSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const estimateSize = (picked: Chapter[]) =>
+    downloadManager.estimateSize(
+      picked.reduce((sum, c) => sum + c.pages, 0),
       dataSaver,
-      progressCallback,
-      manga
     );
+
+  // Every batch gets one confirmation; chapters already saved or queued are left out
+  const confirmBulkDownload = (picked: Chapter[], onQueued?: () => void) => {
+    if (!manga) return;
+    const pending = picked.filter(
+      (c) => !downloadedChapters.has(c.id) && !queuedChapters.has(c.id),
+    );
+    if (pending.length === 0) {
+      Alert.alert(
+        "Nothing to Download",
+        "These chapters are already downloaded or queued.",
+      );
+      return;
+    }
+
+    const pageCount = pending.reduce((sum, c) => sum + c.pages, 0);
+    Alert.alert(
+      `Download ${pending.length} Chapter${pending.length !== 1 ? "s" : ""}?`,
+      `${pageCount} pages, about ${formatSize(estimateSize(pending))}${dataSaver ? " with data saver" : ""}.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Download",
+          onPress: async () => {
+            try {
+              await downloadQueue.enqueue(manga, pending, dataSaver);
+              onQueued?.();
+            } catch (err) {
+              console.error("Error queueing downloads:", err);
+              Alert.alert(
+                "Download Failed",
+                "Could not queue these chapters. Please try again.",
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  // Batches cover the whole feed, not just the pages loaded so far
+  const handleBulkDownload = async (selection: BulkDownload) => {
+    setShowBulkDownload(false);
+    setLoadingBulkDownload(true);
+    try {
+      const all =
+        isFullFeed && nextChapterOffset === null
+          ? chapters
+          : await mangadexApi.getChapters(mangaId, feedLanguages, adultMode);
+      const readNumbers = new Set(
+        all
+          .filter((c) => readChapters[c.id] !== undefined)
+          .map((c) => c.chapter),
+      );
+      confirmBulkDownload(
+        selectBulkChapters(
+          resolveChapters(all, groupPreferences),
+          readNumbers,
+          selection,
+          progress?.chapterNumber ?? null,
+        ),
+      );
+    } catch (err) {
+      console.error("Error loading chapters to download:", err);
+      Alert.alert("Error", "Couldn't load the chapter list. Please try again.");
+    } finally {
+      setLoadingBulkDownload(false);
+    }
+  };
+
+  const handleSelectChapters = () => {
+    setShowBulkDownload(false);
+    setSelectedChapters(new Map());
+    setSelectingChapters(true);
   };
 
-  const handleChapterPress = async (chapter: Chapter) => {
+  const handleExitSelection = () => {
+    setSelectingChapters(false);
+    setSelectedChapters(new Map());
+  };
+
+  const toggleChapterSelection = (chapter: Chapter) => {
+    setSelectedChapters((prev) => {
+      const next = new Map(prev);
+      if (next.has(chapter.id)) {
+        next.delete(chapter.id);
+      } else {
+        next.set(chapter.id, chapter);
+      }
+      return next;
+    });
+  };
+
+  const handleChapterPress = async (
+    chapter: Pick<Chapter, "id" | "chapter">,
+  ) => {
     if (!manga) return;
 
     await storage.addToHistory(manga, chapter.id, chapter.chapter);
@@ -254,19 +656,237 @@ export default function MangaDetailScreen({
     });
   };
 
-  const handleStartReading = () => {
-    if (!manga || chapters.length === 0) return;
+  // Long-pressing a chapter row acts on every version of that chapter
+  const handleChapterLongPress = (
+    chapter: Chapter,
+    versions: Chapter[] = [chapter],
+  ) => {
+    const readVersion = versions.find((v) => readChapters[v.id] !== undefined);
+    const readAt = readVersion ? readChapters[readVersion.id] : undefined;
+    const isRead = readAt !== undefined;
+
+    Alert.alert(
+      `Ch. ${chapter.chapter}`,
+      isRead && readAt > 0
+        ? `Read on ${new Date(readAt).toLocaleDateString()}`
+        : undefined,
+      [
+        isRead
+          ? {
+              text: "Mark as Unread",
+              onPress: async () => {
+                await readState.markUnread(
+                  mangaId,
+                  versions.map((v) => v.id),
+                );
+                refreshReadChapters();
+              },
+            }
+          : {
+              text: "Mark as Read",
+              onPress: async () => {
+                await readState.markRead(mangaId, toReadChapter(chapter));
+                refreshReadChapters();
+              },
+            },
+        // Earlier chapters are only all loaded when the full feed is shown
+        ...(isFullFeed
+          ? [
+              {
+                text: "Mark Previous as Read",
+                onPress: async () => {
+                  // One version per chapter, the one each row shows
+                  const row = chapterEntries.find(({ versions }) =>
+                    versions.some((v) => v.id === chapter.id),
+                  );
+                  await readState.markPreviousAsRead(
+                    mangaId,
+                    chapterEntries.map(({ picked }) => toReadChapter(picked)),
+                    row ? row.picked.id : chapter.id,
+                  );
+                  refreshReadChapters();
+                },
+              },
+            ]
+          : []),
+        { text: "Cancel", style: "cancel" },
+      ],
+    );
+  };
+
+  // Walks the full feed from the start, loading pages until an unread chapter turns up
+  const findFirstUnread = async (): Promise<Chapter | null> => {
+    const requestIdAtStart = chapterRequestRef.current;
+    let loaded = isFullFeed ? chapters : [];
+    let offset = isFullFeed ? nextChapterOffset : 0;
+
+    for (;;) {
+      const readNumbers = new Set(
+        loaded
+          .filter((c) => readChapters[c.id] !== undefined)
+          .map((c) => c.chapter),
+      );
+      const resolved = resolveChapters(loaded, groupPreferences);
+      const firstUnread = resolved.find((c) => !readNumbers.has(c.chapter));
+      if (firstUnread || offset === null) {
+        return firstUnread || resolved[0] || null;
+      }
 
+      const page = await mangadexApi.getChapterPage(
+        mangaId,
+        feedLanguages,
+        adultMode,
+        { offset },
+      );
+      loaded = mergeChapters(loaded, page.data);
+      offset = page.nextOffset;
+      if (isFullFeed && chapterRequestRef.current === requestIdAtStart) {
+        setChapters(loaded);
+        setNextChapterOffset(offset);
+      }
+    }
+  };
+
+  const handleStartReading = async () => {
+    if (!manga || feedTotal === 0) return;
+
+    // The saved chapter may be past the pages loaded so far
     if (progress) {
-      const chapterToResume = chapters.find((c) => c.id === progress.chapterId);
-      if (chapterToResume) {
-        handleChapterPress(chapterToResume);
-        return;
+      handleChapterPress({
+        id: progress.chapterId,
+        chapter: progress.chapterNumber,
+      });
+      return;
+    }
+
+    try {
+      const chapter = await findFirstUnread();
+      if (chapter) {
+        handleChapterPress(chapter);
       }
+    } catch (err) {
+      console.error("Error finding the next chapter:", err);
+      Alert.alert("Error", "Couldn't load the chapter list. Please try again.");
+    }
+  };
+
+  // Switching between the full feed, a volume and a chapter search starts over
+  const showChapters = async (query: ChapterQuery) => {
+    const requestId = ++chapterRequestRef.current;
+    setChapterQuery(query);
+    setExpandedChapters(new Set());
+    setLoadingChapters(true);
+    try {
+      const page = await mangadexApi.getChapterPage(
+        mangaId,
+        feedLanguages,
+        adultMode,
+        query,
+      );
+      if (requestId !== chapterRequestRef.current) return;
+      setChapters(mergeChapters([], page.data));
+      setNextChapterOffset(page.nextOffset);
+    } catch (err) {
+      console.error("Error loading chapters:", err);
+      if (requestId !== chapterRequestRef.current) return;
+      setChapters([]);
+      setNextChapterOffset(null);
+    } finally {
+      if (requestId === chapterRequestRef.current) {
+        setLoadingChapters(false);
+      }
+    }
+  };
+
+  const loadMoreChapters = async () => {
+    if (
+      loadingChapters ||
+      nextChapterOffset === null ||
+      loadingMoreChaptersRef.current
+    )
+      return;
+
+    const requestId = chapterRequestRef.current;
+    loadingMoreChaptersRef.current = true;
+    setLoadingMoreChapters(true);
+    try {
+      const page = await mangadexApi.getChapterPage(
+        mangaId,
+        feedLanguages,
+        adultMode,
+        {
+          ...chapterQuery,
+          offset: nextChapterOffset,
+        },
+      );
+      if (requestId !== chapterRequestRef.current) return;
+      setChapters((prev) => mergeChapters(prev, page.data));
+      setNextChapterOffset(page.nextOffset);
+    } catch (err) {
+      console.error("Error loading more chapters:", err);
+    } finally {
+      loadingMoreChaptersRef.current = false;
+      setLoadingMoreChapters(false);
+    }
+  };
+
+  const handleScroll = ({
+    nativeEvent,
+  }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = nativeEvent;
+    if (
+      contentOffset.y + layoutMeasurement.height >=
+      contentSize.height - LOAD_MORE_DISTANCE
+    ) {
+      loadMoreChapters();
+    }
+  };
+
+  const handleChapterSearch = () => {
+    const number = chapterSearch.trim();
+    showChapters(number ? { chapter: number } : {});
+  };
+
+  const handleClearChapterSearch = () => {
+    setChapterSearch("");
+    if (chapterQuery.chapter) {
+      showChapters({});
     }
+  };
+
+  const handleVolumePress = (volume: string | null) => {
+    setChapterSearch("");
+    showChapters(volume ? { volume } : {});
+  };
 
-    const firstUnread = chapters.find((c) => !readChapters.includes(c.id));
-    handleChapterPress(firstUnread || chapters[0]);
+  const handleSaveGroups = async (preferences: GroupPreferences) => {
+    setShowGroupsModal(false);
+    setGroupPreferences(preferences);
+    try {
+      await scanlationGroups.savePreferences(mangaId, preferences);
+    } catch (err) {
+      console.error("Error saving group preferences:", err);
+      Alert.alert(
+        "Couldn't Save Groups",
+        "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  const toggleVersions = (key: string) => {
+    setExpandedChapters((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleAuthorPress = (person: MangaPerson) => {
+    navigation.push("AuthorDetail", { authorId: person.id, name: person.name });
   };
 
   const handleSimilarMangaPress = (selectedManga: Manga) => {
@@ -285,6 +905,220 @@ export default function MangaDetailScreen({
 
   const accentColor = isDark ? Colors.dark.accent : Colors.light.accent;
   const hasProgress = progress !== null;
+  const credits = getCredits(manga);
+  // One row per chapter; chapters only blocked groups uploaded are hidden
+  const chapterEntries = groupByChapter(chapters).flatMap(
+    ({ key, versions }) => {
+      const picked = pickVersion(versions, groupPreferences);
+      return picked ? [{ key, versions, picked }] : [];
+    },
+  );
+
+  // Fills in every chapter between the first and last selected rows
+  const handleSelectRange = () => {
+    const selectedRows = chapterEntries.flatMap(({ versions }, index) =>
+      versions.some((v) => selectedChapters.has(v.id)) ? [index] : [],
+    );
+    if (selectedRows.length < 2) {
+      Alert.alert(
+        "Select a Range",
+        "Select the first and last chapter of the range, then tap Range.",
+      );
+      return;
+    }
+    setSelectedChapters((prev) => {
+      const next = new Map(prev);
+      chapterEntries
+        .slice(selectedRows[0], selectedRows[selectedRows.length - 1] + 1)
+        .forEach(({ versions, picked }) => {
+          if (!versions.some((v) => next.has(v.id))) {
+            next.set(picked.id, picked);
+          }
+        });
+      return next;
+    });
+  };
+
+  const formatGroups = (chapter: Chapter) =>
+    chapter.groups.map((g) => g.name).join(", ") || "No Group";
+
+  const renderChapterRow = (
+    chapter: Chapter,
+    versions: Chapter[] | null,
+    key: string,
+  ) => {
+    const isVersion = versions === null;
+    const isRead = isVersion
+      ? readChapters[chapter.id] !== undefined
+      : versions.some((v) => readChapters[v.id] !== undefined);
+    const isDownloaded = downloadedChapters.has(chapter.id);
+    const queued = queuedChapters.get(chapter.id);
+    const isSelected = selectedChapters.has(chapter.id);
+    const otherVersions = versions ? versions.length - 1 : 0;
+    const isExpanded = expandedChapters.has(key);
+
+    return (
+      <Pressable
+        key={chapter.id}
+        onPress={() =>
+          selectingChapters
+            ? toggleChapterSelection(chapter)
+            : handleChapterPress(chapter)
+        }
+        onLongPress={
+          selectingChapters
+            ? undefined
+            : () => handleChapterLongPress(chapter, versions || [chapter])
+        }
+        style={({ pressed }) => [
+          styles.chapterItem,
+          isVersion && styles.versionItem,
+          {
+            backgroundColor: isVersion
+              ? theme.backgroundSecondary
+              : theme.backgroundDefault,
+            opacity: pressed ? 0.8 : 1,
+          },
+        ]}
+      >
+        <View style={styles.chapterInfo}>
+          <View style={styles.chapterTitleRow}>
+            {!isRead ? (
+              <View
+                style={[styles.unreadDot, { backgroundColor: theme.primary }]}
+              />
+            ) : null}
+            <ThemedText
+              type={isVersion ? "small" : "body"}
+              style={[styles.chapterTitle, isRead && { opacity: 0.6 }]}
+              numberOfLines={1}
+            >
+              {isVersion
+                ? formatGroups(chapter)
+                : `Ch. ${chapter.chapter}${chapter.title ? ` - ${chapter.title}` : ""}`}
+            </ThemedText>
+          </View>
+          <View style={styles.chapterMeta}>
+            <ThemedText
+              type="caption"
+              style={{ color: theme.textSecondary, flexShrink: 1 }}
+              numberOfLines={1}
+            >
+              {formatDate(chapter.publishedAt)}
+              {isVersion
+                ? `${chapter.uploader ? ` · ${chapter.uploader}` : ""} · ${chapter.language.toUpperCase()}`
+                : ` · ${formatGroups(chapter)}`}
+            </ThemedText>
+            {isDownloaded && (
+              <View
+                style={[
+                  styles.downloadBadge,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+              >
+                <Feather name="check" size={10} color={theme.primary} />
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.primary, fontSize: 10 }}
+                >
+                  Saved
+                </ThemedText>
+              </View>
+            )}
+            {otherVersions > 0 ? (
+              <Pressable
+                onPress={(e) => {
+                  e.stopPropagation();
+                  toggleVersions(key);
+                }}
+                style={[
+                  styles.versionsToggle,
+                  { borderColor: theme.textSecondary + "40" },
+                ]}
+                hitSlop={8}
+              >
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary, fontSize: 10 }}
+                >
+                  +{otherVersions} version{otherVersions !== 1 ? "s" : ""}
+                </ThemedText>
+                <Feather
+                  name={isExpanded ? "chevron-up" : "chevron-down"}
+                  size={10}
+                  color={theme.textSecondary}
+                />
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+        {selectingChapters ? (
+          <View style={styles.downloadBtn}>
+            <View
+              style={[
+                styles.selectCheckbox,
+                {
+                  borderColor: isSelected ? theme.primary : theme.textSecondary,
+                  backgroundColor: isSelected ? theme.primary : "transparent",
+                },
+              ]}
+            >
+              {isSelected && <Feather name="check" size={12} color="#FFFFFF" />}
+            </View>
+          </View>
+        ) : (
+          <Pressable
+            onPress={(e) => {
+              e.stopPropagation();
+              handleDownload(chapter);
+            }}
+            style={({ pressed }) => [
+              styles.downloadBtn,
+              { opacity: pressed ? 0.6 : 1 },
+            ]}
+            hitSlop={8}
+          >
+            {queued?.status === "downloading" ? (
+              <View style={styles.downloadProgress}>
+                <ActivityIndicator size="small" color={theme.primary} />
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.primary, fontSize: 10 }}
+                >
+                  {queued.pageCount > 0
+                    ? Math.round((queued.pagesDone / queued.pageCount) * 100)
+                    : 0}
+                  %
+                </ThemedText>
+              </View>
+            ) : queued ? (
+              <Feather
+                name={
+                  queued.status === "paused"
+                    ? "pause-circle"
+                    : queued.status === "failed"
+                      ? "alert-circle"
+                      : "clock"
+                }
+                size={20}
+                color={
+                  queued.status === "failed"
+                    ? theme.accent
+                    : theme.textSecondary
+                }
+              />
+            ) : (
+              <Feather
+                name={isDownloaded ? "check-circle" : "download"}
+                size={20}
+                color={isDownloaded ? theme.primary : theme.textSecondary}
+              />
+            )}
+          </Pressable>
+        )}
+      </Pressable>
+    );
+  };
   const buttonText = hasProgress
     ? `Continue Ch. ${progress.chapterNumber}`
     : "Start Reading";
@@ -295,6 +1129,9 @@ export default function MangaDetailScreen({
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+        keyboardShouldPersistTaps="handled"
       >
         <View style={styles.coverContainer}>
           {manga.coverUrl ? (
@@ -338,7 +1175,26 @@ export default function MangaDetailScreen({
                 type="small"
                 style={[styles.author, { color: theme.textSecondary }]}
               >
-                {manga.author}
+                {credits.length === 0
+                  ? manga.author
+                  : credits.map((credit, i) => (
+                      <React.Fragment key={credit.label || "credit"}>
+                        {i > 0 ? " · " : ""}
+                        {credit.label ? `${credit.label}: ` : ""}
+                        {credit.people.map((person, j) => (
+                          <React.Fragment key={person.id}>
+                            {j > 0 ? ", " : ""}
+                            <ThemedText
+                              type="small"
+                              style={{ color: theme.primary }}
+                              onPress={() => handleAuthorPress(person)}
+                            >
+                              {person.name}
+                            </ThemedText>
+                          </React.Fragment>
+                        ))}
+                      </React.Fragment>
+                    ))}
               </ThemedText>
             </View>
             <View style={styles.buttonGroup}>
@@ -359,6 +1215,23 @@ export default function MangaDetailScreen({
                   style={isBookmarked ? { opacity: 1 } : { opacity: 0.6 }}
                 />
               </Pressable>
+              <Pressable
+                onPress={handleListsPress}
+                style={({ pressed }) => [
+                  styles.shareButton,
+                  {
+                    backgroundColor: theme.backgroundDefault,
+                    opacity: pressed ? 0.7 : 1,
+                  },
+                ]}
+              >
+                <Feather
+                  name="list"
+                  size={24}
+                  color={theme.text}
+                  style={{ opacity: 0.7 }}
+                />
+              </Pressable>
               <Pressable
                 onPress={handleShare}
                 style={({ pressed }) => [
@@ -387,9 +1260,33 @@ export default function MangaDetailScreen({
               ]}
             >
               <ThemedText type="caption" style={{ color: theme.text }}>
-                {manga.status.charAt(0).toUpperCase() + manga.status.slice(1)}
+                {capitalize(manga.status)}
               </ThemedText>
             </View>
+            {manga.publicationDemographic ? (
+              <View
+                style={[
+                  styles.statusBadge,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <ThemedText type="caption" style={{ color: theme.text }}>
+                  {capitalize(manga.publicationDemographic)}
+                </ThemedText>
+              </View>
+            ) : null}
+            {manga.contentRating && manga.contentRating !== "safe" ? (
+              <View
+                style={[
+                  styles.statusBadge,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <ThemedText type="caption" style={{ color: theme.text }}>
+                  {capitalize(manga.contentRating)}
+                </ThemedText>
+              </View>
+            ) : null}
             {manga.year ? (
               <View
                 style={[
@@ -443,113 +1340,336 @@ export default function MangaDetailScreen({
             ) : null}
           </Pressable>
 
-          <View style={styles.chaptersSection}>
-            <View style={styles.chapterHeader}>
-              <ThemedText type="h4">Chapters</ThemedText>
-              <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                {chapters.length} chapters
-              </ThemedText>
-            </View>
+          {manga.lastChapter || manga.lastVolume ? (
+            <ThemedText
+              type="small"
+              style={[styles.finalChapter, { color: theme.textSecondary }]}
+            >
+              Final chapter:
+              {manga.lastVolume ? ` Vol. ${manga.lastVolume}` : ""}
+              {manga.lastChapter ? ` Ch. ${manga.lastChapter}` : ""}
+            </ThemedText>
+          ) : null}
 
-            {loadingChapters ? (
-              <LoadingIndicator />
-            ) : chapters.length === 0 ? (
-              <View style={styles.noChapters}>
+          {manga.altTitles.length > 0 ? (
+            <Pressable
+              onPress={() => setShowAltTitles(!showAltTitles)}
+              style={styles.altTitles}
+            >
+              <View style={styles.altTitlesHeader}>
                 <ThemedText
-                  type="body"
-                  style={{ color: theme.textSecondary, textAlign: "center" }}
+                  type="small"
+                  style={{ color: theme.text, fontWeight: "600" }}
                 >
-                  No chapters available in this language
+                  Also known as
                 </ThemedText>
+                <Feather
+                  name={showAltTitles ? "chevron-up" : "chevron-down"}
+                  size={16}
+                  color={theme.textSecondary}
+                />
               </View>
+              {(showAltTitles
+                ? manga.altTitles
+                : manga.altTitles.slice(0, 2)
+              ).map((alt, index) => (
+                <ThemedText
+                  key={`${alt.language}-${index}`}
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                  numberOfLines={showAltTitles ? undefined : 1}
+                >
+                  {alt.title} ({alt.language})
+                </ThemedText>
+              ))}
+            </Pressable>
+          ) : null}
+
+          {manga.links.length > 0 ? (
+            <View style={styles.links}>
+              {manga.links.map((link) => (
+                <Pressable
+                  key={link.site}
+                  onPress={() => Linking.openURL(link.url)}
+                  style={({ pressed }) => [
+                    styles.linkChip,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      opacity: pressed ? 0.7 : 1,
+                    },
+                  ]}
+                >
+                  <Feather
+                    name="external-link"
+                    size={12}
+                    color={theme.primary}
+                  />
+                  <ThemedText type="caption" style={{ color: theme.primary }}>
+                    {link.label}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+
+          {statistics ? <MangaStatisticsCard statistics={statistics} /> : null}
+
+          <Pressable
+            onPress={() => setShowAnnotationEditor(true)}
+            style={({ pressed }) => [
+              styles.notesCard,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+          >
+            <View style={styles.notesHeader}>
+              <ThemedText type="h4" style={styles.notesTitle}>
+                My Notes
+              </ThemedText>
+              {annotation?.score ? (
+                <View style={styles.notesScore}>
+                  <Feather name="star" size={14} color={theme.primary} />
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.primary, fontWeight: "600" }}
+                  >
+                    {annotation.score}/10
+                  </ThemedText>
+                </View>
+              ) : null}
+              <Feather name="edit-2" size={16} color={theme.textSecondary} />
+            </View>
+            {annotation ? (
+              <>
+                {annotation.startedAt || annotation.finishedAt ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                  >
+                    {annotation.startedAt
+                      ? `Started ${new Date(annotation.startedAt).toLocaleDateString()}`
+                      : ""}
+                    {annotation.startedAt && annotation.finishedAt ? " - " : ""}
+                    {annotation.finishedAt
+                      ? `Finished ${new Date(annotation.finishedAt).toLocaleDateString()}`
+                      : ""}
+                  </ThemedText>
+                ) : null}
+                {annotation.notes ? (
+                  <ThemedText
+                    type="small"
+                    style={{ color: theme.textSecondary }}
+                    numberOfLines={4}
+                  >
+                    {annotation.notes}
+                  </ThemedText>
+                ) : null}
+                {annotation.tags.length > 0 ? (
+                  <View style={styles.notesTags}>
+                    {annotation.tags.map((tag) => (
+                      <View
+                        key={tag}
+                        style={[
+                          styles.tag,
+                          { backgroundColor: theme.backgroundSecondary },
+                        ]}
+                      >
+                        <ThemedText
+                          type="caption"
+                          style={{ color: theme.textSecondary }}
+                        >
+                          {tag}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
+                ) : null}
+              </>
             ) : (
-              chapters.map((chapter) => {
-                const isRead = readChapters.includes(chapter.id);
-                const isDownloaded = downloadedChapters.has(chapter.id);
-                const chapterProgress = downloadProgress[chapter.id];
-                const isDownloading = chapterProgress?.status === "downloading";
-                
-                return (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Add a score, notes, tags or reading dates
+              </ThemedText>
+            )}
+          </Pressable>
+
+          <View style={styles.chaptersSection}>
+            <View style={styles.chapterHeader}>
+              <ThemedText type="h4">Chapters</ThemedText>
+              <View style={styles.chapterHeaderActions}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {totalChapters || chapterEntries.length} chapters
+                </ThemedText>
+                {chapters.length > 0 ? (
                   <Pressable
-                    key={chapter.id}
-                    onPress={() => handleChapterPress(chapter)}
+                    onPress={() => setShowGroupsModal(true)}
                     style={({ pressed }) => [
-                      styles.chapterItem,
+                      styles.groupsButton,
                       {
                         backgroundColor: theme.backgroundDefault,
-                        opacity: pressed ? 0.8 : 1,
+                        opacity: pressed ? 0.7 : 1,
                       },
                     ]}
                   >
-                    <View style={styles.chapterInfo}>
-                      <View style={styles.chapterTitleRow}>
-                        {!isRead ? (
-                          <View
-                            style={[
-                              styles.unreadDot,
-                              { backgroundColor: theme.primary },
-                            ]}
-                          />
-                        ) : null}
-                        <ThemedText
-                          type="body"
-                          style={[
-                            styles.chapterTitle,
-                            isRead && { opacity: 0.6 },
-                          ]}
-                          numberOfLines={1}
-                        >
-                          Ch. {chapter.chapter}
-                          {chapter.title ? ` - ${chapter.title}` : ""}
-                        </ThemedText>
-                      </View>
-                      <View style={styles.chapterMeta}>
-                        <ThemedText
-                          type="caption"
-                          style={{ color: theme.textSecondary }}
-                        >
-                          {formatDate(chapter.publishedAt)}
-                        </ThemedText>
-                        {isDownloaded && (
-                          <View style={[styles.downloadBadge, { backgroundColor: theme.primary + "20" }]}>
-                            <Feather name="check" size={10} color={theme.primary} />
-                            <ThemedText type="caption" style={{ color: theme.primary, fontSize: 10 }}>
-                              Saved
-                            </ThemedText>
-                          </View>
-                        )}
-                      </View>
-                    </View>
+                    <Feather name="users" size={14} color={theme.primary} />
+                    <ThemedText type="caption" style={{ color: theme.primary }}>
+                      Groups
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {feedTotal > 0 ? (
+                  <Pressable
+                    onPress={() =>
+                      selectingChapters
+                        ? handleExitSelection()
+                        : handleOpenBulkDownload()
+                    }
+                    disabled={loadingBulkDownload}
+                    style={({ pressed }) => [
+                      styles.groupsButton,
+                      {
+                        backgroundColor: theme.backgroundDefault,
+                        opacity: pressed ? 0.7 : 1,
+                      },
+                    ]}
+                  >
+                    {loadingBulkDownload ? (
+                      <ActivityIndicator size="small" color={theme.primary} />
+                    ) : (
+                      <Feather
+                        name={selectingChapters ? "x" : "download"}
+                        size={14}
+                        color={theme.primary}
+                      />
+                    )}
+                    <ThemedText type="caption" style={{ color: theme.primary }}>
+                      {selectingChapters ? "Done" : "Download"}
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+              </View>
+            </View>
+
+            {feedTotal > 0 ? (
+              <View
+                style={[
+                  styles.chapterSearch,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <Feather name="search" size={16} color={theme.textSecondary} />
+                <TextInput
+                  style={[styles.chapterSearchInput, { color: theme.text }]}
+                  placeholder="Go to chapter"
+                  placeholderTextColor={theme.textSecondary}
+                  value={chapterSearch}
+                  onChangeText={setChapterSearch}
+                  onSubmitEditing={handleChapterSearch}
+                  keyboardType="numbers-and-punctuation"
+                  returnKeyType="search"
+                />
+                {chapterSearch || chapterQuery.chapter ? (
+                  <Pressable onPress={handleClearChapterSearch} hitSlop={8}>
+                    <Feather
+                      name="x-circle"
+                      size={16}
+                      color={theme.textSecondary}
+                    />
+                  </Pressable>
+                ) : null}
+              </View>
+            ) : null}
+
+            {volumes.some((v) => v.volume !== null) ? (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.volumeChips}
+              >
+                {[
+                  null,
+                  ...volumes.map((v) => v.volume).filter((v) => v !== null),
+                ].map((volume) => {
+                  const isActive = volume
+                    ? chapterQuery.volume === volume
+                    : isFullFeed;
+                  return (
                     <Pressable
-                      onPress={(e) => {
-                        e.stopPropagation();
-                        handleDownload(chapter);
-                      }}
+                      key={volume ?? "all"}
+                      onPress={() => handleVolumePress(volume)}
                       style={({ pressed }) => [
-                        styles.downloadBtn,
-                        { opacity: pressed ? 0.6 : 1 },
+                        styles.volumeChip,
+                        {
+                          backgroundColor: isActive
+                            ? theme.primary
+                            : theme.backgroundDefault,
+                          opacity: pressed ? 0.7 : 1,
+                        },
                       ]}
-                      hitSlop={8}
                     >
-                      {isDownloading ? (
-                        <View style={styles.downloadProgress}>
-                          <ActivityIndicator size="small" color={theme.primary} />
-                          <ThemedText type="caption" style={{ color: theme.primary, fontSize: 10 }}>
-                            {chapterProgress.progress}%
-                          </ThemedText>
-                        </View>
-                      ) : (
-                        <Feather
-                          name={isDownloaded ? "check-circle" : "download"}
-                          size={20}
-                          color={isDownloaded ? theme.primary : theme.textSecondary}
-                        />
-                      )}
+                      <ThemedText
+                        type="caption"
+                        style={{
+                          color: isActive ? "#FFFFFF" : theme.textSecondary,
+                        }}
+                      >
+                        {volume ? `Vol. ${volume}` : "All"}
+                      </ThemedText>
                     </Pressable>
-                  </Pressable>
-                );
-              })
+                  );
+                })}
+              </ScrollView>
+            ) : null}
+
+            {loadingChapters ? (
+              <LoadingIndicator />
+            ) : chapterEntries.length === 0 ? (
+              <View style={styles.noChapters}>
+                <ThemedText
+                  type="body"
+                  style={{ color: theme.textSecondary, textAlign: "center" }}
+                >
+                  {chapterQuery.chapter
+                    ? `No chapter ${chapterQuery.chapter} in your languages`
+                    : chapterQuery.volume
+                      ? `No chapters in volume ${chapterQuery.volume}`
+                      : "No chapters available in this language"}
+                </ThemedText>
+              </View>
+            ) : (
+              chapterEntries.map(({ key, versions, picked }) => (
+                <React.Fragment key={key}>
+                  {renderChapterRow(picked, versions, key)}
+                  {versions.length > 1 && expandedChapters.has(key)
+                    ? versions
+                        .filter((v) => v.id !== picked.id)
+                        .map((v) => renderChapterRow(v, null, key))
+                    : null}
+                </React.Fragment>
+              ))
             )}
+
+            {!loadingChapters && nextChapterOffset !== null ? (
+              loadingMoreChapters ? (
+                <LoadingIndicator size="small" />
+              ) : (
+                <Pressable
+                  onPress={loadMoreChapters}
+                  style={({ pressed }) => [
+                    styles.loadMoreButton,
+                    {
+                      backgroundColor: theme.backgroundDefault,
+                      opacity: pressed ? 0.7 : 1,
+                    },
+                  ]}
+                >
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    Load more chapters
+                  </ThemedText>
+                </Pressable>
+              )
+            ) : null}
           </View>
 
           <SimilarMangaSection
@@ -560,7 +1680,63 @@ export default function MangaDetailScreen({
         </View>
       </ScrollView>
 
-      {chapters.length > 0 ? (
+      {selectingChapters ? (
+        <View
+          style={[
+            styles.bottomBar,
+            styles.selectionBar,
+            {
+              paddingBottom: insets.bottom + Spacing.md,
+              backgroundColor: theme.backgroundRoot,
+            },
+          ]}
+        >
+          <View style={styles.selectionInfo}>
+            <ThemedText type="body">
+              {selectedChapters.size} selected
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {selectedChapters.size > 0
+                ? `About ${formatSize(estimateSize([...selectedChapters.values()]))}`
+                : "Tap chapters to select them"}
+            </ThemedText>
+          </View>
+          <Pressable
+            onPress={handleSelectRange}
+            style={({ pressed }) => [
+              styles.selectionButton,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.7 : 1,
+              },
+            ]}
+          >
+            <ThemedText type="small" style={{ color: theme.primary }}>
+              Range
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={() =>
+              confirmBulkDownload(
+                [...selectedChapters.values()],
+                handleExitSelection,
+              )
+            }
+            disabled={selectedChapters.size === 0}
+            style={({ pressed }) => [
+              styles.selectionButton,
+              {
+                backgroundColor: theme.primary,
+                opacity: pressed || selectedChapters.size === 0 ? 0.6 : 1,
+              },
+            ]}
+          >
+            <ThemedText type="small" style={{ color: "#FFFFFF" }}>
+              Download
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : feedTotal > 0 ? (
         <View
           style={[
             styles.bottomBar,
@@ -596,6 +1772,52 @@ export default function MangaDetailScreen({
           </AnimatedPressable>
         </View>
       ) : null}
+
+      <BulkDownloadModal
+        visible={showBulkDownload}
+        volumes={volumes}
+        autoDownload={autoDownloadStatus}
+        onClose={() => setShowBulkDownload(false)}
+        onDownload={handleBulkDownload}
+        onSelectChapters={handleSelectChapters}
+        onToggleAutoDownload={handleToggleAutoDownload}
+      />
+
+      <CategoryPickerModal
+        visible={showCategoryPicker}
+        title="Bookmark"
+        initialSelection={bookmarkCategoryIds}
+        onClose={() => setShowCategoryPicker(false)}
+        onConfirm={handleSaveCategories}
+        destructiveAction={{
+          label: "Remove Bookmark",
+          onPress: handleRemoveBookmark,
+        }}
+      />
+      <ListPickerModal
+        visible={showListPicker}
+        initialSelection={listIds}
+        onClose={() => setShowListPicker(false)}
+        onConfirm={handleSaveLists}
+      />
+      <ScanlationGroupsModal
+        visible={showGroupsModal}
+        chapters={chapters}
+        initialPreferences={groupPreferences}
+        onClose={() => setShowGroupsModal(false)}
+        onSave={handleSaveGroups}
+      />
+      <AnnotationEditorModal
+        visible={showAnnotationEditor}
+        mangaId={mangaId}
+        mangaTitle={manga.title}
+        annotation={annotation}
+        onClose={() => setShowAnnotationEditor(false)}
+        onSaved={(saved) => {
+          setAnnotation(saved);
+          setShowAnnotationEditor(false);
+        }}
+      />
     </View>
   );
 }
@@ -677,6 +1899,7 @@ const styles = StyleSheet.create({
   },
   metaRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: Spacing.sm,
     marginTop: Spacing.md,
   },
@@ -701,6 +1924,56 @@ const styles = StyleSheet.create({
   description: {
     marginTop: Spacing.lg,
   },
+  finalChapter: {
+    marginTop: Spacing.md,
+  },
+  altTitles: {
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  altTitlesHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  links: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  linkChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+  },
+  notesCard: {
+    marginTop: Spacing.xl,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.sm,
+  },
+  notesHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  notesTitle: {
+    flex: 1,
+  },
+  notesScore: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  notesTags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
   chaptersSection: {
     marginTop: Spacing["2xl"],
   },
@@ -710,9 +1983,51 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.md,
   },
+  chapterHeaderActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  groupsButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chapterSearch: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
+  chapterSearchInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 0,
+  },
+  volumeChips: {
+    gap: Spacing.xs,
+    paddingBottom: Spacing.md,
+  },
+  volumeChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
   noChapters: {
     padding: Spacing.xl,
   },
+  loadMoreButton: {
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.sm,
+  },
   chapterItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -720,6 +2035,19 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.xs,
     marginBottom: Spacing.sm,
   },
+  versionItem: {
+    marginLeft: Spacing.xl,
+    paddingVertical: Spacing.sm,
+  },
+  versionsToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderWidth: 1,
+    borderRadius: BorderRadius.xs,
+  },
   chapterInfo: {
     flex: 1,
     gap: Spacing.xs,
@@ -761,6 +2089,14 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 2,
   },
+  selectCheckbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
   bottomBar: {
     position: "absolute",
     bottom: 0,
@@ -780,4 +2116,17 @@ const styles = StyleSheet.create({
   startButtonText: {
     fontWeight: "700",
   },
+  selectionBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  selectionInfo: {
+    flex: 1,
+  },
+  selectionButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
 });
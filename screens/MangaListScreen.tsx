@@ -0,0 +1,294 @@
+import React, { useCallback, useLayoutEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  Dimensions,
+  Alert,
+  Share,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp, useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ScreenFlatList } from "@/components/ScreenFlatList";
+import { ThemedText } from "@/components/ThemedText";
+import { MangaCard } from "@/components/MangaCard";
+import { EmptyState } from "@/components/EmptyState";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { mangadexApi, Manga } from "@/services/mangadex";
+import { ApiError, NotFoundError } from "@/services/apiClient";
+import { storage } from "@/services/storage";
+import { mangaLists, MangaListError } from "@/services/mangaLists";
+import { BrowseStackParamList } from "@/navigation/BrowseStackNavigator";
+
+type MangaListScreenProps = {
+  navigation: NativeStackNavigationProp<BrowseStackParamList, "MangaList">;
+  route: RouteProp<BrowseStackParamList, "MangaList">;
+};
+
+const SCREEN_WIDTH = Dimensions.get("window").width;
+const CARD_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2 - Spacing.md) / 2;
+
+// One screen shows a saved local list, a public MangaDex list, or a list
+// opened from a share link or file (ids only, not saved yet).
+export default function MangaListScreen({
+  navigation,
+  route,
+}: MangaListScreenProps) {
+  const { listId, localListId, name: initialName, ids } = route.params;
+  const isLocal = localListId !== undefined;
+  const { theme } = useTheme();
+
+  const [name, setName] = useState(initialName || "List");
+  const [manga, setManga] = useState<Manga[]>([]);
+  const [hiddenCount, setHiddenCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const loadList = useCallback(async () => {
+    try {
+      setError(null);
+      if (localListId !== undefined) {
+        const list = await mangaLists.getList(Number(localListId));
+        if (!list) {
+          setError("This list no longer exists.");
+          return;
+        }
+        setName(list.name);
+        setManga(list.manga);
+        return;
+      }
+
+      const settings = await storage.getSettings();
+      let mangaIds: string[];
+      if (listId) {
+        const list = await mangadexApi.getList(listId);
+        setName(list.name);
+        mangaIds = list.mangaIds;
+      } else {
+        const shared = mangaLists.parseShareLink({ name: initialName, ids });
+        setName(shared.name);
+        mangaIds = shared.mangaIds;
+      }
+      const found = await mangadexApi.getMangaByIds(
+        mangaIds,
+        settings.adultMode,
+      );
+      setManga(found);
+      setHiddenCount(mangaIds.length - found.length);
+    } catch (err) {
+      console.error("Error loading list:", err);
+      setError(
+        err instanceof NotFoundError ||
+          (err instanceof ApiError && err.status === 403)
+          ? "This list is private or no longer exists."
+          : err instanceof MangaListError
+            ? err.message
+            : "Couldn't load this list. Check your connection and try again.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [listId, localListId, initialName, ids]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadList();
+    }, [loadList]),
+  );
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerTitle: name });
+  }, [navigation, name]);
+
+  const handleSave = async () => {
+    try {
+      const list = await mangaLists.importList(name, manga);
+      setSaved(true);
+      Alert.alert("List Saved", `Saved as "${list.name}" in your lists.`);
+    } catch (err) {
+      Alert.alert(
+        "Couldn't Save List",
+        err instanceof MangaListError
+          ? err.message
+          : "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  const handleShare = () => {
+    const shared = { name, mangaIds: manga.map((m) => m.id) };
+    Alert.alert(`Share "${name}"`, undefined, [
+      {
+        text: "Share Link",
+        onPress: () =>
+          Share.share({
+            message: mangaLists.createShareLink(shared),
+            title: name,
+          }).catch((err) => console.error("Error sharing list:", err)),
+      },
+      {
+        text: "Export File",
+        onPress: async () => {
+          const result = await mangaLists.exportListFile(shared);
+          if (!result.success) {
+            Alert.alert(
+              "Export Failed",
+              result.error || "Could not export the list.",
+            );
+          }
+        },
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleMangaLongPress = (item: Manga) => {
+    Alert.alert(item.title, undefined, [
+      {
+        text: "Remove from List",
+        style: "destructive",
+        onPress: async () => {
+          await mangaLists.removeManga(Number(localListId), [item.id]);
+          setManga((prev) => prev.filter((m) => m.id !== item.id));
+        },
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  if (loading) {
+    return <LoadingIndicator fullScreen />;
+  }
+
+  if (error) {
+    return <EmptyState icon="list" title="List Unavailable" message={error} />;
+  }
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.headerInfo}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {manga.length} title{manga.length !== 1 ? "s" : ""}
+          {isLocal ? "" : listId ? " · MangaDex list" : " · Shared list"}
+        </ThemedText>
+        {hiddenCount > 0 ? (
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {hiddenCount} hidden by your content settings
+          </ThemedText>
+        ) : null}
+      </View>
+      {isLocal ? (
+        manga.length > 0 ? (
+          <Pressable
+            onPress={handleShare}
+            style={({ pressed }) => [
+              styles.actionButton,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.7 : 1,
+              },
+            ]}
+          >
+            <Feather name="share-2" size={16} color={theme.primary} />
+            <ThemedText type="small" style={{ color: theme.primary }}>
+              Share
+            </ThemedText>
+          </Pressable>
+        ) : null
+      ) : (
+        <Pressable
+          onPress={handleSave}
+          disabled={saved || manga.length === 0}
+          style={({ pressed }) => [
+            styles.actionButton,
+            {
+              backgroundColor: saved ? theme.backgroundDefault : theme.primary,
+              opacity: pressed || manga.length === 0 ? 0.7 : 1,
+            },
+          ]}
+        >
+          <Feather
+            name={saved ? "check" : "plus"}
+            size={16}
+            color={saved ? theme.primary : "#FFFFFF"}
+          />
+          <ThemedText
+            type="small"
+            style={{ color: saved ? theme.primary : "#FFFFFF" }}
+          >
+            {saved ? "Saved" : "Save to My Lists"}
+          </ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+
+  return (
+    <ScreenFlatList
+      data={manga}
+      keyExtractor={(item) => item.id}
+      numColumns={2}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={
+        <ThemedText
+          type="small"
+          style={[styles.emptyText, { color: theme.textSecondary }]}
+        >
+          {isLocal
+            ? "Add titles from a manga's page with the list button."
+            : "No titles to show."}
+        </ThemedText>
+      }
+      columnWrapperStyle={styles.row}
+      showsVerticalScrollIndicator={false}
+      renderItem={({ item }) => (
+        <View style={styles.cardContainer}>
+          <MangaCard
+            manga={item}
+            onPress={() => navigation.push("MangaDetail", { mangaId: item.id })}
+            onLongPress={isLocal ? () => handleMangaLongPress(item) : undefined}
+            width={CARD_WIDTH}
+          />
+        </View>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  headerInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  emptyText: {
+    textAlign: "center",
+    paddingVertical: Spacing.xl,
+  },
+  row: {
+    justifyContent: "space-between",
+    marginBottom: Spacing.md,
+  },
+  cardContainer: {
+    width: CARD_WIDTH,
+  },
+});
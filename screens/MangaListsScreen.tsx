@@ -0,0 +1,357 @@
+import React, { useCallback, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Pressable,
+  TextInput,
+  Alert,
+  Share,
+} from "react-native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useFocusEffect } from "@react-navigation/native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { parseListId } from "@/services/mangadex";
+import { mangaLists, MangaList, MangaListError } from "@/services/mangaLists";
+import { LibraryStackParamList } from "@/navigation/LibraryStackNavigator";
+
+type MangaListsScreenProps = {
+  navigation: NativeStackNavigationProp<LibraryStackParamList, "MangaLists">;
+};
+
+export default function MangaListsScreen({
+  navigation,
+}: MangaListsScreenProps) {
+  const { theme } = useTheme();
+
+  const [lists, setLists] = useState<MangaList[]>([]);
+  const [newName, setNewName] = useState("");
+  const [listLink, setListLink] = useState("");
+
+  const loadLists = useCallback(async () => {
+    setLists(await mangaLists.getLists());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLists();
+    }, [loadLists]),
+  );
+
+  const handleAddList = async () => {
+    if (!newName.trim()) return;
+    try {
+      await mangaLists.createList(newName);
+      setNewName("");
+      loadLists();
+    } catch (error) {
+      Alert.alert(
+        "Couldn't Add List",
+        error instanceof MangaListError
+          ? error.message
+          : "Something went wrong. Please try again.",
+      );
+    }
+  };
+
+  const handleOpenLink = () => {
+    if (!listLink.trim()) return;
+    const listId = parseListId(listLink);
+    if (!listId) {
+      Alert.alert(
+        "Invalid Link",
+        "Paste a MangaDex list link (mangadex.org/list/...) or a list ID.",
+      );
+      return;
+    }
+    setListLink("");
+    navigation.navigate("MangaList", { listId });
+  };
+
+  const handleImportFile = async () => {
+    try {
+      const shared = await mangaLists.pickListFile();
+      if (!shared) return;
+      navigation.navigate("MangaList", {
+        name: shared.name,
+        ids: shared.mangaIds.join(","),
+      });
+    } catch (error) {
+      Alert.alert(
+        "Import Failed",
+        error instanceof MangaListError
+          ? error.message
+          : "Couldn't read this file.",
+      );
+    }
+  };
+
+  const handleShareLink = async (list: MangaList) => {
+    try {
+      const shared = await mangaLists.toShared(list.id);
+      await Share.share({
+        message: mangaLists.createShareLink(shared),
+        title: list.name,
+      });
+    } catch (error) {
+      console.error("Error sharing list:", error);
+    }
+  };
+
+  const handleExportFile = async (list: MangaList) => {
+    try {
+      const result = await mangaLists.exportListFile(
+        await mangaLists.toShared(list.id),
+      );
+      if (!result.success) {
+        Alert.alert(
+          "Export Failed",
+          result.error || "Could not export the list.",
+        );
+      }
+    } catch (error) {
+      console.error("Error exporting list:", error);
+      Alert.alert("Export Failed", "Could not export the list.");
+    }
+  };
+
+  const handleDelete = (list: MangaList) => {
+    Alert.alert("Delete List", `Delete "${list.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          await mangaLists.deleteList(list.id);
+          loadLists();
+        },
+      },
+    ]);
+  };
+
+  const handleListLongPress = (list: MangaList) => {
+    Alert.alert(list.name, undefined, [
+      ...(list.mangaCount > 0
+        ? [
+            { text: "Share Link", onPress: () => handleShareLink(list) },
+            { text: "Export File", onPress: () => handleExportFile(list) },
+          ]
+        : []),
+      {
+        text: "Delete",
+        style: "destructive" as const,
+        onPress: () => handleDelete(list),
+      },
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  return (
+    <ScreenScrollView keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          MY LISTS
+        </ThemedText>
+        <View style={styles.rows}>
+          {lists.map((list) => (
+            <Pressable
+              key={list.id}
+              onPress={() =>
+                navigation.navigate("MangaList", {
+                  localListId: list.id,
+                  name: list.name,
+                })
+              }
+              onLongPress={() => handleListLongPress(list)}
+              style={({ pressed }) => [
+                styles.listRow,
+                {
+                  backgroundColor: theme.backgroundDefault,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+            >
+              {list.coverUrl ? (
+                <Image
+                  source={{ uri: list.coverUrl }}
+                  style={styles.cover}
+                  contentFit="cover"
+                />
+              ) : (
+                <View
+                  style={[
+                    styles.cover,
+                    styles.coverPlaceholder,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <Feather name="list" size={18} color={theme.textSecondary} />
+                </View>
+              )}
+              <View style={styles.listInfo}>
+                <ThemedText type="body" numberOfLines={1}>
+                  {list.name}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {list.mangaCount} title{list.mangaCount !== 1 ? "s" : ""}
+                </ThemedText>
+              </View>
+              <Feather
+                name="chevron-right"
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          ))}
+
+          <View
+            style={[
+              styles.inputRow,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="plus" size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="New list"
+              placeholderTextColor={theme.textSecondary}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleAddList}
+              returnKeyType="done"
+              maxLength={60}
+            />
+            {newName.trim() ? (
+              <Pressable onPress={handleAddList} hitSlop={8}>
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Add
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+        </View>
+        {lists.length > 0 ? (
+          <ThemedText
+            type="caption"
+            style={[styles.hint, { color: theme.textSecondary }]}
+          >
+            Long-press a list to share or delete it
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          OPEN A LIST
+        </ThemedText>
+        <View style={styles.rows}>
+          <View
+            style={[
+              styles.inputRow,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="link" size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="MangaDex list link or ID"
+              placeholderTextColor={theme.textSecondary}
+              value={listLink}
+              onChangeText={setListLink}
+              onSubmitEditing={handleOpenLink}
+              returnKeyType="go"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {listLink.trim() ? (
+              <Pressable onPress={handleOpenLink} hitSlop={8}>
+                <ThemedText type="small" style={{ color: theme.primary }}>
+                  Open
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </View>
+          <Pressable
+            onPress={handleImportFile}
+            style={({ pressed }) => [
+              styles.inputRow,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.7 : 1,
+              },
+            ]}
+          >
+            <Feather name="file-plus" size={18} color={theme.textSecondary} />
+            <ThemedText type="body" style={styles.listInfo}>
+              Import List File
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+    fontWeight: "600",
+    letterSpacing: 1,
+  },
+  rows: {
+    gap: Spacing.sm,
+  },
+  listRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  cover: {
+    width: 40,
+    height: 56,
+    borderRadius: BorderRadius.xs,
+  },
+  coverPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  listInfo: {
+    flex: 1,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    gap: Spacing.md,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginLeft: Spacing.sm,
+  },
+});
@@ -14,17 +14,30 @@ import Slider from "@react-native-community/slider";
 import { Feather } from "@expo/vector-icons";
 import Constants from "expo-constants";
 import { useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { ThemedText } from "@/components/ThemedText";
+import { RetentionPolicyModal } from "@/components/RetentionPolicyModal";
 import { useTheme } from "@/hooks/useTheme";
+import { useDownloadQueue } from "@/hooks/useDownloadQueue";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { storage, AppSettings } from "@/services/storage";
+import { storage, AppSettings, RetentionPolicy } from "@/services/storage";
 import { downloadManager } from "@/services/downloadManager";
+import { downloadQueue } from "@/services/downloadQueue";
+import { downloadRetention } from "@/services/downloadRetention";
+import { responseCache, ResponseCacheStats } from "@/services/responseCache";
 import {
   notificationService,
   NotificationSettings,
 } from "@/services/notificationService";
+import {
+  backupService,
+  LibraryBackup,
+  RestoreMode,
+} from "@/services/backupService";
+import { tachiyomiImporter, ImportPlan } from "@/services/tachiyomiImporter";
+import { ProfileStackParamList } from "@/navigation/ProfileStackNavigator";
 
 const LANGUAGES = [
   { code: "en", name: "English" },
@@ -82,8 +95,23 @@ const LANGUAGES = [
   { code: "uz", name: "Uzbek" },
 ];
 
-export default function ProfileScreen() {
+const DOWNLOAD_CONCURRENCY_OPTIONS = [1, 2, 3];
+const PAGE_CONCURRENCY_OPTIONS = [2, 4, 8];
+const AUTO_DOWNLOAD_CHAPTER_OPTIONS = [5, 10, 25];
+const AUTO_DOWNLOAD_CEILING_OPTIONS = [
+  { label: "1 GB", value: 1024 },
+  { label: "2 GB", value: 2048 },
+  { label: "5 GB", value: 5120 },
+  { label: "None", value: null },
+];
+
+type ProfileScreenProps = {
+  navigation: NativeStackNavigationProp<ProfileStackParamList, "Profile">;
+};
+
+export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   const { theme } = useTheme();
+  const queue = useDownloadQueue();
 
   const [settings, setSettings] = useState<AppSettings>({
     readingMode: "vertical",
@@ -94,11 +122,29 @@ export default function ProfileScreen() {
     adultMode: false,
     volumeScrollEnabled: true,
     volumeScrollSensitivity: 50,
+    showCardStatistics: false,
+    downloadConcurrency: 2,
+    pageConcurrency: 4,
+    downloadRetention: {
+      rule: "forever",
+      days: 7,
+      keepLatest: 10,
+      quotaMb: null,
+    },
+    autoDownload: {
+      wifiOnly: true,
+      maxChaptersPerRun: 10,
+      storageCeilingMb: 2048,
+    },
   });
 
   const [showLanguagePicker, setShowLanguagePicker] = useState(false);
   const [downloadCount, setDownloadCount] = useState(0);
   const [totalDownloadSize, setTotalDownloadSize] = useState(0);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats>({
+    entries: 0,
+    bytes: 0,
+  });
   const [notificationSettings, setNotificationSettings] =
     useState<NotificationSettings>({
       enabled: true,
@@ -107,6 +153,10 @@ export default function ProfileScreen() {
   const [notificationPermission, setNotificationPermission] = useState<string>("undetermined");
   const [isCheckingUpdates, setIsCheckingUpdates] = useState(false);
   const [showIntervalPicker, setShowIntervalPicker] = useState(false);
+  const [showRetentionModal, setShowRetentionModal] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
 
   const CHECK_INTERVALS = [
     { label: "Every 30 minutes", value: 30 },
@@ -124,6 +174,10 @@ export default function ProfileScreen() {
     setTotalDownloadSize(downloads.reduce((sum, d) => sum + d.totalSize, 0));
   }, []);
 
+  const loadCacheStats = useCallback(async () => {
+    setCacheStats(await responseCache.getStats());
+  }, []);
+
   const loadNotificationSettings = useCallback(async () => {
     const savedSettings = await notificationService.getNotificationSettings();
     setNotificationSettings(savedSettings);
@@ -134,8 +188,9 @@ export default function ProfileScreen() {
   useFocusEffect(
     useCallback(() => {
       loadDownloadInfo();
+      loadCacheStats();
       loadNotificationSettings();
-    }, [loadDownloadInfo, loadNotificationSettings])
+    }, [loadDownloadInfo, loadCacheStats, loadNotificationSettings]),
   );
 
   useEffect(() => {
@@ -168,6 +223,7 @@ export default function ProfileScreen() {
           text: "Delete All",
           style: "destructive",
           onPress: async () => {
+            await downloadQueue.clear();
             await downloadManager.deleteAllDownloads();
             loadDownloadInfo();
           },
@@ -176,6 +232,51 @@ export default function ProfileScreen() {
     );
   };
 
+  const handleSaveRetention = async (
+    policy: RetentionPolicy,
+    cleanUpNow: boolean,
+  ) => {
+    setShowRetentionModal(false);
+    await updateSetting("downloadRetention", policy);
+    if (!cleanUpNow) return;
+
+    const plan = await downloadRetention.planCleanup(policy);
+    if (plan.items.length === 0) return;
+    Alert.alert(
+      "Clean Up Downloads",
+      `This will delete ${plan.items.length} downloaded chapter${plan.items.length !== 1 ? "s" : ""} (${formatSize(plan.bytes)}). Continue?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await downloadRetention.runCleanup(policy);
+            loadDownloadInfo();
+          },
+        },
+      ],
+    );
+  };
+
+  const handleClearCache = () => {
+    Alert.alert(
+      "Clear Cache",
+      `This will remove ${formatSize(cacheStats.bytes)} of saved manga info and chapter lists. Your library, history and downloads are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            await responseCache.clear();
+            loadCacheStats();
+          },
+        },
+      ],
+    );
+  };
+
   const updateSetting = async (key: keyof AppSettings, value: any) => {
     const newSettings = { ...settings, [key]: value };
     setSettings(newSettings);
@@ -225,11 +326,21 @@ export default function ProfileScreen() {
     setIsCheckingUpdates(true);
     try {
       const result = await notificationService.manualCheck();
-      if (result.updatedManga.length > 0) {
-        Alert.alert(
-          "Updates Found!",
-          `Found ${result.updatedManga.length} manga with new chapters.`
-        );
+      const { updatedManga, newSeries, queuedChapters } = result;
+      if (updatedManga.length > 0 || newSeries.length > 0) {
+        const found = [
+          updatedManga.length > 0
+            ? `${updatedManga.length} manga with new chapters`
+            : null,
+          newSeries.length > 0
+            ? `${newSeries.length} new series from authors you follow`
+            : null,
+        ].filter(Boolean);
+        const queued =
+          queuedChapters > 0
+            ? ` Queued ${queuedChapters} chapter${queuedChapters !== 1 ? "s" : ""} for download.`
+            : "";
+        Alert.alert("Updates Found!", `Found ${found.join(" and ")}.${queued}`);
       } else {
         Alert.alert("No Updates", "All your bookmarked manga are up to date.");
       }
@@ -245,6 +356,160 @@ export default function ProfileScreen() {
     return interval?.label || `Every ${minutes} minutes`;
   };
 
+  const handleCreateBackup = async () => {
+    if (isBackingUp) return;
+
+    setIsBackingUp(true);
+    try {
+      const result = await backupService.exportBackup();
+      if (!result.success) {
+        Alert.alert(
+          "Backup Failed",
+          result.error || "Could not create a backup.",
+        );
+      }
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const applyRestore = async (backup: LibraryBackup, mode: RestoreMode) => {
+    setIsRestoring(true);
+    try {
+      await backupService.restoreBackup(backup, mode);
+      await loadSettings();
+      await loadNotificationSettings();
+      Alert.alert("Restore Complete", "Your library has been restored.");
+    } catch (error) {
+      console.error("Restore failed:", error);
+      Alert.alert(
+        "Restore Failed",
+        "Could not restore the backup. Your library was not changed.",
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const confirmRestore = async (backup: LibraryBackup, mode: RestoreMode) => {
+    const summary = await backupService.previewRestore(backup, mode);
+    Alert.alert(
+      mode === "merge" ? "Merge Backup?" : "Replace Library?",
+      backupService.formatSummary(summary),
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          style: mode === "replace" ? "destructive" : "default",
+          onPress: () => applyRestore(backup, mode),
+        },
+      ],
+    );
+  };
+
+  const handleRestoreBackup = async () => {
+    if (isRestoring) return;
+
+    let backup: LibraryBackup | null;
+    try {
+      backup = await backupService.pickBackup();
+    } catch (error) {
+      Alert.alert(
+        "Invalid Backup",
+        error instanceof Error
+          ? error.message
+          : "Could not read the selected file.",
+      );
+      return;
+    }
+    if (!backup) return;
+
+    const picked = backup;
+    Alert.alert(
+      "Restore Library",
+      `Backup from ${new Date(picked.createdAt).toLocaleString()}.\n\nMerge adds the backup to your current library. Replace overwrites your library and settings with the backup.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => confirmRestore(picked, "merge") },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () => confirmRestore(picked, "replace"),
+        },
+      ],
+    );
+  };
+
+  const applyTachiyomiImport = async (plan: ImportPlan) => {
+    setIsImporting(true);
+    try {
+      const result = await tachiyomiImporter.applyImport(plan);
+      const skipped = result.unmatched
+        .slice(0, 10)
+        .map((entry) => `• ${entry.title} (${entry.reason})`)
+        .join("\n");
+      const more =
+        result.unmatched.length > 10
+          ? `\n...and ${result.unmatched.length - 10} more`
+          : "";
+
+      Alert.alert(
+        "Import Complete",
+        `${result.bookmarksAdded} bookmarks added\n${result.chaptersMarkedRead} chapters marked read\n${result.progressRestored} reading positions restored` +
+          (result.unmatched.length > 0
+            ? `\n\nNot imported:\n${skipped}${more}`
+            : ""),
+      );
+    } catch (error) {
+      console.error("Tachiyomi import failed:", error);
+      Alert.alert(
+        "Import Failed",
+        "Something went wrong while importing the backup.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportTachiyomi = async () => {
+    if (isImporting) return;
+
+    let plan: ImportPlan | null;
+    try {
+      plan = await tachiyomiImporter.pickBackup();
+    } catch (error) {
+      Alert.alert(
+        "Import Failed",
+        error instanceof Error
+          ? error.message
+          : "Could not read the selected file.",
+      );
+      return;
+    }
+    if (!plan) return;
+
+    if (plan.matched.length === 0) {
+      Alert.alert(
+        "Nothing to Import",
+        `No MangaDex titles were found in this backup (${plan.unmatched.length} entries from other sources).`,
+      );
+      return;
+    }
+
+    const picked = plan;
+    Alert.alert(
+      "Import Library",
+      `Found ${picked.matched.length} MangaDex title${picked.matched.length !== 1 ? "s" : ""}.` +
+        (picked.unmatched.length > 0
+          ? ` ${picked.unmatched.length} entr${picked.unmatched.length !== 1 ? "ies" : "y"} from other sources will be skipped.`
+          : ""),
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Import", onPress: () => applyTachiyomiImport(picked) },
+      ],
+    );
+  };
+
   const openMangaDex = async () => {
     try {
       await Linking.openURL("https://mangadex.org");
@@ -611,6 +876,36 @@ export default function ProfileScreen() {
               thumbColor="#FFFFFF"
             />
           </View>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="star" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Show Ratings on Covers</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  MangaDex score and follows in Browse and Search
+                </ThemedText>
+              </View>
+            </View>
+            <Switch
+              value={settings.showCardStatistics}
+              onValueChange={(value) =>
+                updateSetting("showCardStatistics", value)
+              }
+              trackColor={{
+                false: theme.backgroundSecondary,
+                true: theme.primary,
+              }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
         </View>
       </View>
 
@@ -799,6 +1094,240 @@ export default function ProfileScreen() {
             </View>
           </View>
 
+          {queue.items.length > 0 ? (
+            <>
+              <View
+                style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+              />
+
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Feather name="download" size={20} color={theme.text} />
+                  <View>
+                    <ThemedText type="body">Download Queue</ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {queue.items.length} chapter
+                      {queue.items.length !== 1 ? "s" : ""}
+                      {queue.paused ? " - Paused" : ""}
+                    </ThemedText>
+                  </View>
+                </View>
+                <Pressable
+                  onPress={() =>
+                    queue.paused
+                      ? downloadQueue.resumeAll()
+                      : downloadQueue.pauseAll()
+                  }
+                  hitSlop={8}
+                >
+                  <ThemedText type="small" style={{ color: theme.primary }}>
+                    {queue.paused ? "Resume All" : "Pause All"}
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </>
+          ) : null}
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="layers" size={20} color={theme.text} />
+              <ThemedText type="body">Chapters at Once</ThemedText>
+            </View>
+            <View style={styles.segmentedControl}>
+              {DOWNLOAD_CONCURRENCY_OPTIONS.map((value) => (
+                <Pressable
+                  key={value}
+                  onPress={() => updateSetting("downloadConcurrency", value)}
+                  style={[
+                    styles.segment,
+                    settings.downloadConcurrency === value && {
+                      backgroundColor: theme.primary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color:
+                        settings.downloadConcurrency === value
+                          ? "#FFFFFF"
+                          : theme.textSecondary,
+                    }}
+                  >
+                    {value}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="image" size={20} color={theme.text} />
+              <ThemedText type="body">Pages at Once</ThemedText>
+            </View>
+            <View style={styles.segmentedControl}>
+              {PAGE_CONCURRENCY_OPTIONS.map((value) => (
+                <Pressable
+                  key={value}
+                  onPress={() => updateSetting("pageConcurrency", value)}
+                  style={[
+                    styles.segment,
+                    settings.pageConcurrency === value && {
+                      backgroundColor: theme.primary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color:
+                        settings.pageConcurrency === value
+                          ? "#FFFFFF"
+                          : theme.textSecondary,
+                    }}
+                  >
+                    {value}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="wifi" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Auto-download on Wi-Fi Only</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  New chapters of opted-in manga
+                </ThemedText>
+              </View>
+            </View>
+            <Switch
+              value={settings.autoDownload.wifiOnly}
+              onValueChange={(value) =>
+                updateSetting("autoDownload", {
+                  ...settings.autoDownload,
+                  wifiOnly: value,
+                })
+              }
+              trackColor={{
+                false: theme.backgroundSecondary,
+                true: theme.primary,
+              }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="download-cloud" size={20} color={theme.text} />
+              <ThemedText type="body">Auto-download per Check</ThemedText>
+            </View>
+            <View style={styles.segmentedControl}>
+              {AUTO_DOWNLOAD_CHAPTER_OPTIONS.map((value) => (
+                <Pressable
+                  key={value}
+                  onPress={() =>
+                    updateSetting("autoDownload", {
+                      ...settings.autoDownload,
+                      maxChaptersPerRun: value,
+                    })
+                  }
+                  style={[
+                    styles.segment,
+                    settings.autoDownload.maxChaptersPerRun === value && {
+                      backgroundColor: theme.primary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color:
+                        settings.autoDownload.maxChaptersPerRun === value
+                          ? "#FFFFFF"
+                          : theme.textSecondary,
+                    }}
+                  >
+                    {value}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="hard-drive" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Auto-download Limit</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Total download size
+                </ThemedText>
+              </View>
+            </View>
+            <View style={styles.segmentedControl}>
+              {AUTO_DOWNLOAD_CEILING_OPTIONS.map(({ label, value }) => (
+                <Pressable
+                  key={label}
+                  onPress={() =>
+                    updateSetting("autoDownload", {
+                      ...settings.autoDownload,
+                      storageCeilingMb: value,
+                    })
+                  }
+                  style={[
+                    styles.segment,
+                    settings.autoDownload.storageCeilingMb === value && {
+                      backgroundColor: theme.primary,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color:
+                        settings.autoDownload.storageCeilingMb === value
+                          ? "#FFFFFF"
+                          : theme.textSecondary,
+                    }}
+                  >
+                    {label}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
           <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
 
           <Pressable
@@ -818,21 +1347,223 @@ export default function ProfileScreen() {
 
           <View style={[styles.divider, { backgroundColor: theme.cardBorder }]} />
 
-          <View style={styles.settingRow}>
+          <Pressable
+            onPress={() => setShowRetentionModal(true)}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed ? 0.7 : 1 },
+            ]}
+          >
             <View style={styles.settingInfo}>
               <Feather name="clock" size={20} color={theme.text} />
               <View>
-                <ThemedText type="body">Auto-delete Old Downloads</ThemedText>
+                <ThemedText type="body">Download Cleanup</ThemedText>
                 <ThemedText
                   type="caption"
                   style={{ color: theme.textSecondary }}
                 >
-                  After 7 days of inactivity
+                  {downloadRetention.describe(settings.downloadRetention)}
+                </ThemedText>
+              </View>
+            </View>
+            <Feather
+              name="chevron-right"
+              size={20}
+              color={theme.textSecondary}
+            />
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          CACHE
+        </ThemedText>
+        <View
+          style={[
+            styles.sectionContent,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Feather name="database" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Offline Cache</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {cacheStats.entries} response
+                  {cacheStats.entries !== 1 ? "s" : ""} -{" "}
+                  {formatSize(cacheStats.bytes)}
                 </ThemedText>
               </View>
             </View>
-            <Feather name="check" size={18} color={theme.primary} />
           </View>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <Pressable
+            onPress={handleClearCache}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed ? 0.7 : 1 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Feather name="trash-2" size={20} color="#FF6B6B" />
+              <ThemedText type="body" style={{ color: "#FF6B6B" }}>
+                Clear Cache
+              </ThemedText>
+            </View>
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          ACTIVITY
+        </ThemedText>
+        <View
+          style={[
+            styles.sectionContent,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Pressable
+            onPress={() => navigation.navigate("Statistics")}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed ? 0.7 : 1 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Feather name="bar-chart-2" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Reading Statistics</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Time spent, streaks and favourite tags
+                </ThemedText>
+              </View>
+            </View>
+            <Feather
+              name="chevron-right"
+              size={20}
+              color={theme.textSecondary}
+            />
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          BACKUP & RESTORE
+        </ThemedText>
+        <View
+          style={[
+            styles.sectionContent,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <Pressable
+            onPress={handleCreateBackup}
+            disabled={isBackingUp}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed || isBackingUp ? 0.7 : 1 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Feather name="upload" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Create Backup</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Bookmarks, history, progress and settings
+                </ThemedText>
+              </View>
+            </View>
+            {isBackingUp && (
+              <ActivityIndicator size="small" color={theme.primary} />
+            )}
+          </Pressable>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <Pressable
+            onPress={handleRestoreBackup}
+            disabled={isRestoring}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed || isRestoring ? 0.7 : 1 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Feather name="download" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">Restore from Backup</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Merge with or replace your library
+                </ThemedText>
+              </View>
+            </View>
+            {isRestoring && (
+              <ActivityIndicator size="small" color={theme.primary} />
+            )}
+          </Pressable>
+
+          <View
+            style={[styles.divider, { backgroundColor: theme.cardBorder }]}
+          />
+
+          <Pressable
+            onPress={handleImportTachiyomi}
+            disabled={isImporting}
+            style={({ pressed }) => [
+              styles.settingRow,
+              { opacity: pressed || isImporting ? 0.7 : 1 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Feather name="log-in" size={20} color={theme.text} />
+              <View>
+                <ThemedText type="body">
+                  Import from Tachiyomi / Mihon
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  .tachibk or legacy .json backups
+                </ThemedText>
+              </View>
+            </View>
+            {isImporting && (
+              <ActivityIndicator size="small" color={theme.primary} />
+            )}
+          </Pressable>
         </View>
       </View>
 
@@ -903,6 +1634,13 @@ export default function ProfileScreen() {
           All manga content belongs to their respective owners
         </ThemedText>
       </View>
+
+      <RetentionPolicyModal
+        visible={showRetentionModal}
+        policy={settings.downloadRetention}
+        onClose={() => setShowRetentionModal(false)}
+        onSave={handleSaveRetention}
+      />
     </ScreenScrollView>
   );
 }
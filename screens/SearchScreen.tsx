@@ -26,11 +26,20 @@ import { MangaCard } from "@/components/MangaCard";
 import { LoadingIndicator } from "@/components/LoadingIndicator";
 import { EmptyState } from "@/components/EmptyState";
 import { ThemedText } from "@/components/ThemedText";
+import { PaginationFooter } from "@/components/PaginationFooter";
 import { SearchFiltersModal } from "@/components/SearchFiltersModal";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
-import { mangadexApi, Manga, SearchFilters } from "@/services/mangadex";
+import {
+  mangadexApi,
+  appendUniqueManga,
+  Manga,
+  MangaStatistics,
+  SearchFilters,
+} from "@/services/mangadex";
 import { storage } from "@/services/storage";
+import { isAbortError } from "@/services/apiClient";
+import { readState } from "@/services/readState";
 import { SearchStackParamList } from "@/navigation/SearchStackNavigator";
 
 type SearchScreenProps = {
@@ -39,10 +48,19 @@ type SearchScreenProps = {
 
 type SearchTab = "all" | "manga" | "manhwa";
 
+interface SearchRequest {
+  query: string;
+  adultMode: boolean;
+  languages: string[];
+  tab: SearchTab;
+  filters?: SearchFilters;
+}
+
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const CARD_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2 - Spacing.md) / 2;
 const TAB_WIDTH = (SCREEN_WIDTH - Spacing.xl * 2) / 3;
 const IS_WEB = Platform.OS === "web";
+const PAGE_SIZE = 40;
 
 export default function SearchScreen({ navigation }: SearchScreenProps) {
   const { theme } = useTheme();
@@ -54,6 +72,9 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
   const [manga, setManga] = useState<Manga[]>([]);
   const [suggestions, setSuggestions] = useState<Manga[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [total, setTotal] = useState(0);
   const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   const [searched, setSearched] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
@@ -62,6 +83,11 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
   const [activeTab, setActiveTab] = useState<SearchTab>("all");
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showCardStatistics, setShowCardStatistics] = useState(false);
+  const [statistics, setStatistics] = useState<Record<string, MangaStatistics>>(
+    {},
+  );
   const [filters, setFilters] = useState<SearchFilters>({
     includedTags: [],
     excludedTags: [],
@@ -71,6 +97,10 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
 
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const suggestionRef = useRef<NodeJS.Timeout | null>(null);
+  const suggestionRequestRef = useRef<AbortController | null>(null);
+  // The search the shown results came from; later pages repeat it
+  const searchRequestRef = useRef<SearchRequest | null>(null);
+  const loadingMoreRef = useRef(false);
   const indicatorPosition = useSharedValue(0);
 
   const activeFiltersCount = 
@@ -83,6 +113,14 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
     loadSettings();
   }, []);
 
+  useEffect(() => {
+    const ids = manga.map((item) => item.id);
+    if (!showCardStatistics || ids.length === 0) return;
+    mangadexApi
+      .getStatistics(ids)
+      .then((loaded) => setStatistics((prev) => ({ ...prev, ...loaded })));
+  }, [showCardStatistics, manga]);
+
   useFocusEffect(
     useCallback(() => {
       const checkSettings = async () => {
@@ -91,7 +129,11 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
         setLanguages(settings.chapterLanguages);
       };
       checkSettings();
-    }, [])
+      readState.getUnreadCounts().then(setUnreadCounts);
+      storage
+        .getSettings()
+        .then((settings) => setShowCardStatistics(settings.showCardStatistics));
+    }, []),
   );
 
   const loadSettings = async () => {
@@ -133,24 +175,37 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
     );
     
     if (!searchQuery.trim() && !hasFilters) {
+      searchRequestRef.current = null;
       setManga([]);
       setSearched(false);
       return;
     }
 
+    const request: SearchRequest = {
+      query: searchQuery,
+      adultMode: isAdultMode,
+      languages: langs,
+      tab,
+      filters: searchFilters,
+    };
+    searchRequestRef.current = request;
+
     try {
       setLoading(true);
       setSearched(true);
       setShowSuggestions(false);
 
       const originalLanguage = getLanguageFilter(tab);
-      const result = await mangadexApi.searchManga(searchQuery, 40, { 
+      const result = await mangadexApi.searchManga(searchQuery, PAGE_SIZE, { 
         adultMode: isAdultMode, 
         languages: langs,
         originalLanguage,
         filters: searchFilters,
       });
-      setManga(result.data);
+      if (searchRequestRef.current !== request) return;
+      setManga(appendUniqueManga([], result.data));
+      setNextOffset(result.nextOffset);
+      setTotal(result.total);
 
       if (searchQuery.trim()) {
         await storage.addRecentSearch(searchQuery);
@@ -163,36 +218,75 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
     }
   }, []);
 
-  const fetchSuggestions = useCallback(async (
-    searchQuery: string, 
-    isAdultMode: boolean, 
-    langs: string[] = ["en", "ja"],
-    tab: SearchTab = "all"
-  ) => {
-    if (IS_WEB) return;
-    
-    if (!searchQuery.trim() || searchQuery.length < 2) {
-      setSuggestions([]);
-      setShowSuggestions(false);
+  const loadMore = async () => {
+    const request = searchRequestRef.current;
+    if (!request || loading || nextOffset === null || loadingMoreRef.current)
       return;
-    }
 
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
     try {
-      setLoadingSuggestions(true);
-      const originalLanguage = getLanguageFilter(tab);
-      const result = await mangadexApi.searchManga(searchQuery, 5, { 
-        adultMode: isAdultMode, 
-        languages: langs,
-        originalLanguage,
+      const result = await mangadexApi.searchManga(request.query, PAGE_SIZE, {
+        adultMode: request.adultMode,
+        languages: request.languages,
+        originalLanguage: getLanguageFilter(request.tab),
+        filters: request.filters,
+        offset: nextOffset,
       });
-      setSuggestions(result.data);
-      setShowSuggestions(true);
+      if (searchRequestRef.current !== request) return;
+      setManga((prev) => appendUniqueManga(prev, result.data));
+      setNextOffset(result.nextOffset);
+      setTotal(result.total);
     } catch (err) {
-      console.error("Error fetching suggestions:", err);
+      console.error("Error loading more results:", err);
     } finally {
-      setLoadingSuggestions(false);
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
-  }, []);
+  };
+
+  const fetchSuggestions = useCallback(
+    async (
+      searchQuery: string,
+      isAdultMode: boolean,
+      langs: string[] = ["en", "ja"],
+      tab: SearchTab = "all",
+    ) => {
+      if (IS_WEB) return;
+
+      if (!searchQuery.trim() || searchQuery.length < 2) {
+        setSuggestions([]);
+        setShowSuggestions(false);
+        return;
+      }
+
+      // Drop the previous lookup so a slow response can't replace newer results
+      suggestionRequestRef.current?.abort();
+      const controller = new AbortController();
+      suggestionRequestRef.current = controller;
+
+      try {
+        setLoadingSuggestions(true);
+        const originalLanguage = getLanguageFilter(tab);
+        const result = await mangadexApi.searchManga(searchQuery, 5, {
+          adultMode: isAdultMode,
+          languages: langs,
+          originalLanguage,
+          signal: controller.signal,
+        });
+        setSuggestions(result.data);
+        setShowSuggestions(true);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Error fetching suggestions:", err);
+      } finally {
+        if (suggestionRequestRef.current === controller) {
+          setLoadingSuggestions(false);
+        }
+      }
+    },
+    [],
+  );
 
   const handleQueryChange = (text: string) => {
     setQuery(text);
@@ -210,6 +304,7 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
         fetchSuggestions(text, adultMode, languages, activeTab);
       }, 300);
     } else {
+      suggestionRequestRef.current?.abort();
       setSuggestions([]);
       setShowSuggestions(false);
     }
@@ -236,6 +331,7 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
   };
 
   const handleClearQuery = () => {
+    searchRequestRef.current = null;
     setQuery("");
     setManga([]);
     setSuggestions([]);
@@ -284,6 +380,8 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
         manga={item}
         onPress={() => handleMangaPress(item)}
         width={CARD_WIDTH}
+        unreadCount={unreadCounts[item.id]}
+        statistics={showCardStatistics ? statistics[item.id] : undefined}
       />
     </View>
   );
@@ -541,6 +639,15 @@ export default function SearchScreen({ navigation }: SearchScreenProps) {
           ]}
           columnWrapperStyle={styles.row}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            <PaginationFooter
+              loadingMore={loadingMore}
+              reachedEnd={nextOffset === null}
+              total={total}
+            />
+          }
         />
       )}
 
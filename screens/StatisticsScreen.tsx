@@ -0,0 +1,361 @@
+import React, { useCallback, useState } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { EmptyState } from "@/components/EmptyState";
+import { LoadingIndicator } from "@/components/LoadingIndicator";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  statistics,
+  ReadingStats,
+  RankedItem,
+  StatsPeriod,
+} from "@/services/statistics";
+
+type ChartMetric = "chapters" | "pages" | "timeMs";
+
+const PERIODS: { key: StatsPeriod; label: string }[] = [
+  { key: "day", label: "Daily" },
+  { key: "week", label: "Weekly" },
+  { key: "month", label: "Monthly" },
+];
+
+const METRICS: { key: ChartMetric; label: string }[] = [
+  { key: "chapters", label: "Chapters" },
+  { key: "pages", label: "Pages" },
+  { key: "timeMs", label: "Time" },
+];
+
+const CHART_HEIGHT = 140;
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const formatMetric = (value: number, metric: ChartMetric): string =>
+  metric === "timeMs" ? formatDuration(value) : String(value);
+
+export default function StatisticsScreen() {
+  const { theme } = useTheme();
+
+  const [stats, setStats] = useState<ReadingStats | null>(null);
+  const [period, setPeriod] = useState<StatsPeriod>("day");
+  const [metric, setMetric] = useState<ChartMetric>("chapters");
+
+  useFocusEffect(
+    useCallback(() => {
+      statistics.getReadingStats().then(setStats);
+    }, []),
+  );
+
+  if (!stats) {
+    return <LoadingIndicator />;
+  }
+
+  if (stats.totalSessions === 0) {
+    return (
+      <EmptyState
+        icon="bar-chart-2"
+        title="No Reading Data Yet"
+        message="Statistics appear once you've read a few chapters"
+      />
+    );
+  }
+
+  const buckets = stats.buckets[period];
+  const maxValue = Math.max(1, ...buckets.map((b) => b[metric]));
+  const periodTotal = buckets.reduce((sum, b) => sum + b[metric], 0);
+
+  const renderSegment = <T extends string>(
+    options: { key: T; label: string }[],
+    selected: T,
+    onSelect: (key: T) => void,
+  ) => (
+    <View
+      style={[
+        styles.segmentedControl,
+        { backgroundColor: theme.backgroundSecondary },
+      ]}
+    >
+      {options.map((option) => (
+        <Pressable
+          key={option.key}
+          onPress={() => onSelect(option.key)}
+          style={[
+            styles.segment,
+            selected === option.key && { backgroundColor: theme.primary },
+          ]}
+        >
+          <ThemedText
+            type="caption"
+            style={{
+              color: selected === option.key ? "#FFFFFF" : theme.textSecondary,
+            }}
+          >
+            {option.label}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const renderStatCard = (
+    icon: keyof typeof Feather.glyphMap,
+    label: string,
+    value: string,
+  ) => (
+    <View
+      key={label}
+      style={[styles.statCard, { backgroundColor: theme.backgroundDefault }]}
+    >
+      <Feather name={icon} size={18} color={theme.primary} />
+      <ThemedText type="h4">{value}</ThemedText>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+    </View>
+  );
+
+  const renderRanking = (title: string, items: RankedItem[]) => {
+    if (items.length === 0) return null;
+    const top = items[0].chapters;
+    return (
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          {title}
+        </ThemedText>
+        <View
+          style={[
+            styles.sectionContent,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {items.map((item) => (
+            <View key={item.key} style={styles.rankRow}>
+              <View style={styles.rankHeader}>
+                <ThemedText type="small" numberOfLines={1} style={styles.flex}>
+                  {item.name}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {item.chapters} ch.
+                </ThemedText>
+              </View>
+              <View
+                style={[
+                  styles.rankTrack,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.rankFill,
+                    {
+                      width: `${(item.chapters / top) * 100}%`,
+                      backgroundColor: theme.primary,
+                    },
+                  ]}
+                />
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScreenScrollView>
+      <View style={styles.statGrid}>
+        {renderStatCard(
+          "clock",
+          "Time reading",
+          formatDuration(stats.totalTimeMs),
+        )}
+        {renderStatCard("book-open", "Chapters", String(stats.chaptersRead))}
+        {renderStatCard("file-text", "Pages", String(stats.pagesRead))}
+        {renderStatCard("book", "Titles", String(stats.mangaRead))}
+        {renderStatCard(
+          "zap",
+          "Current streak",
+          `${stats.currentStreak} day${stats.currentStreak !== 1 ? "s" : ""}`,
+        )}
+        {renderStatCard(
+          "award",
+          "Longest streak",
+          `${stats.longestStreak} day${stats.longestStreak !== 1 ? "s" : ""}`,
+        )}
+        {renderStatCard(
+          "trending-up",
+          "Pages / minute",
+          stats.pagesPerMinute.toFixed(1),
+        )}
+        {renderStatCard("layers", "Sessions", String(stats.totalSessions))}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText
+          type="caption"
+          style={[styles.sectionTitle, { color: theme.textSecondary }]}
+        >
+          ACTIVITY
+        </ThemedText>
+        <View
+          style={[
+            styles.sectionContent,
+            styles.chartCard,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          <View style={styles.chartControls}>
+            {renderSegment(PERIODS, period, setPeriod)}
+            {renderSegment(METRICS, metric, setMetric)}
+          </View>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {formatMetric(periodTotal, metric)} in the last {buckets.length}{" "}
+            {period === "day" ? "days" : period === "week" ? "weeks" : "months"}
+          </ThemedText>
+          <View style={styles.chart}>
+            {buckets.map((bucket) => (
+              <View key={bucket.key} style={styles.barColumn}>
+                <View style={styles.barArea}>
+                  <View
+                    style={[
+                      styles.bar,
+                      {
+                        height:
+                          bucket[metric] > 0
+                            ? Math.max(
+                                2,
+                                (bucket[metric] / maxValue) * CHART_HEIGHT,
+                              )
+                            : 0,
+                        backgroundColor: theme.primary,
+                      },
+                    ]}
+                  />
+                </View>
+                <ThemedText
+                  type="caption"
+                  style={[styles.barLabel, { color: theme.textSecondary }]}
+                  numberOfLines={1}
+                >
+                  {bucket.label}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      {renderRanking("TOP TAGS", stats.topTags)}
+      {renderRanking("TOP AUTHORS", stats.topAuthors)}
+      {renderRanking("TYPES", stats.types)}
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  statGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    rowGap: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+  statCard: {
+    width: "48.5%",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    gap: Spacing.xs,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.sm,
+    marginLeft: Spacing.sm,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  sectionContent: {
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+  },
+  chartCard: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  chartControls: {
+    gap: Spacing.sm,
+  },
+  segmentedControl: {
+    flexDirection: "row",
+    alignSelf: "flex-start",
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+  segment: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: "center",
+  },
+  barArea: {
+    height: CHART_HEIGHT,
+    width: "100%",
+    justifyContent: "flex-end",
+    alignItems: "center",
+  },
+  bar: {
+    width: "70%",
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  barLabel: {
+    fontSize: 9,
+    marginTop: Spacing.xs,
+  },
+  rankRow: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  rankHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  rankTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  rankFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+});
@@ -0,0 +1,124 @@
+import mockAsyncStorage from "@react-native-async-storage/async-storage/jest/async-storage-mock";
+import {
+  BACKUP_FORMAT,
+  BackupFormatError,
+  parseBackup,
+} from "../backupService";
+
+jest.mock("@react-native-async-storage/async-storage", () => mockAsyncStorage);
+
+// The real module registers a background task, which needs native modules
+jest.mock("../notificationService", () => ({
+  LAST_CHAPTER_COUNTS_KEY: "@mangareader_last_chapter_counts",
+  NOTIFICATION_SETTINGS_KEY: "@mangareader_notification_settings",
+  defaultNotificationSettings: { enabled: true, checkIntervalMinutes: 60 },
+  notificationService: {},
+}));
+
+const backup = (data: Record<string, unknown>) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: 4,
+    schemaVersion: 6,
+    appVersion: "1.0.0",
+    createdAt: 1700000000000,
+    data,
+  });
+
+const manga = { id: "d773c8be", title: "Berserk" };
+
+describe("parseBackup", () => {
+  it("rejects files that aren't library backups", () => {
+    expect(() => parseBackup("not json")).toThrow(BackupFormatError);
+    expect(() => parseBackup(JSON.stringify({ format: "other" }))).toThrow(
+      BackupFormatError,
+    );
+  });
+
+  it("defaults bookmark and history fields of the wrong type", () => {
+    const { data } = parseBackup(
+      backup({
+        bookmarks: [{ ...manga, bookmarkedAt: "yesterday" }],
+        history: [
+          { manga, lastChapterId: "ch-1", lastChapterNumber: 12 },
+          { manga, lastReadAt: 1700000000000 },
+        ],
+      }),
+    );
+
+    expect(data.bookmarks).toHaveLength(1);
+    expect(data.bookmarks[0].bookmarkedAt).toBe(0);
+    expect(data.history).toEqual([
+      {
+        manga: expect.objectContaining({ id: "d773c8be" }),
+        lastReadAt: 0,
+        lastChapterId: "ch-1",
+        lastChapterNumber: "12",
+      },
+    ]);
+  });
+
+  it("fills in missing session fields and drops sessions without a start", () => {
+    const { data } = parseBackup(
+      backup({
+        sessions: [
+          { mangaId: "d773c8be", chapterId: "ch-1", startedAt: 1000 },
+          { mangaId: "d773c8be", chapterId: "ch-2" },
+          {
+            mangaId: "d773c8be",
+            chapterId: "ch-3",
+            startedAt: 2000,
+            endedAt: 500,
+            pagesRead: "many",
+            readerType: "paper",
+          },
+        ],
+      }),
+    );
+
+    expect(data.sessions).toEqual([
+      {
+        id: 0,
+        mangaId: "d773c8be",
+        mangaTitle: "",
+        chapterId: "ch-1",
+        chapterNumber: "",
+        readerType: "lite",
+        startedAt: 1000,
+        endedAt: 1000,
+        pagesRead: 0,
+        lastPage: 0,
+        totalPages: 0,
+      },
+      expect.objectContaining({
+        chapterId: "ch-3",
+        endedAt: 2000,
+        pagesRead: 0,
+        readerType: "lite",
+      }),
+    ]);
+  });
+
+  it("keeps only chapter counts with a numeric count", () => {
+    const { data } = parseBackup(
+      backup({
+        chapterCounts: {
+          valid: { lastChapterCount: 40, lastCheckedAt: 1000 },
+          missing: null,
+          text: { lastChapterCount: "40" },
+          list: [40],
+        },
+      }),
+    );
+
+    expect(data.chapterCounts).toEqual({
+      valid: {
+        mangaId: "valid",
+        lastChapterCount: 40,
+        lastCheckedAt: 1000,
+        latestChapterNumber: "0",
+        latestUploadAt: undefined,
+      },
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  formatChapterList,
+  formatMangaDetails,
+  formatMangaList,
+} from "../mangadex";
+import {
+  chapterSchema,
+  collectionOf,
+  entityOf,
+  mangaSchema,
+  MangaDexSchemaError,
+  validateResponse,
+} from "../mangadexSchema";
+import mangaListPayload from "./fixtures/manga-list.json";
+import mangaDetailsPayload from "./fixtures/manga-details.json";
+import chapterFeedPayload from "./fixtures/chapter-feed.json";
+
+const MANGA_URL = "https://api.mangadex.org/manga";
+const FEED_URL = "https://api.mangadex.org/manga/d773c8be/feed";
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const parseMangaList = (payload: unknown) =>
+  formatMangaList(
+    validateResponse(collectionOf(mangaSchema), payload, MANGA_URL).data,
+  );
+
+const parseMangaDetails = (payload: unknown) =>
+  formatMangaDetails(
+    validateResponse(entityOf(mangaSchema), payload, MANGA_URL).data,
+  );
+
+const parseChapterFeed = (payload: unknown) =>
+  formatChapterList(
+    validateResponse(collectionOf(chapterSchema), payload, FEED_URL).data,
+  );
+
+const schemaError = (parse: () => unknown): MangaDexSchemaError => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof MangaDexSchemaError) return error;
+    throw error;
+  }
+  throw new Error("Expected the payload to be rejected");
+};
+
+describe("formatMangaList", () => {
+  it("maps a search page with cover, people, tags and links", () => {
+    const [manga] = parseMangaList(mangaListPayload);
+
+    expect(manga).toMatchObject({
+      id: "d773c8be-8e82-4ff1-a4e9-46171395319b",
+      title: "Dungeon Meshi",
+      status: "completed",
+      type: "Manga",
+      year: 2014,
+      author: "Kui Ryoko",
+      tags: ["Adventure", "Cooking"],
+      contentRating: "safe",
+      publicationDemographic: "seinen",
+      lastVolume: "14",
+      lastChapter: "97",
+      coverUrl:
+        "https://uploads.mangadex.org/covers/d773c8be-8e82-4ff1-a4e9-46171395319b/2b7f8c4e-1d3a-4e5f-9a8b-7c6d5e4f3a2b.jpg.256.jpg",
+    });
+    expect(manga.description).toMatch(/^When young adventurer Laios/);
+    expect(manga.titles).toEqual([{ language: "en", title: "Dungeon Meshi" }]);
+    expect(manga.altTitles).toEqual([
+      { language: "ja", title: "ダンジョン飯" },
+      { language: "en", title: "Delicious in Dungeon" },
+    ]);
+    expect(manga.authors).toEqual([
+      { id: "9ef3c9e2-0a6f-4d1f-8b6a-3b1f6a2d1c10", name: "Kui Ryoko" },
+    ]);
+    expect(manga.artists).toEqual(manga.authors);
+    expect(manga.tagDetails).toEqual([
+      {
+        id: "87cc87cd-a395-47af-b27a-93258283bbc6",
+        name: "Adventure",
+        group: "genre",
+      },
+      {
+        id: "ea2bc92d-1c26-4930-9b7c-d5c0dc1b6869",
+        name: "Cooking",
+        group: "theme",
+      },
+    ]);
+    expect(manga.links).toEqual([
+      {
+        site: "al",
+        label: "AniList",
+        url: "https://anilist.co/manga/86082",
+      },
+      {
+        site: "mu",
+        label: "MangaUpdates",
+        url: "https://www.mangaupdates.com/series.html?id=116143",
+      },
+      {
+        site: "mal",
+        label: "MyAnimeList",
+        url: "https://myanimelist.net/manga/82431",
+      },
+      {
+        site: "raw",
+        label: "Official Raw",
+        url: "https://comic-walker.com/contents/detail/KDCW_EB01200176010000_68/",
+      },
+      {
+        site: "engtl",
+        label: "Official English",
+        url: "https://yenpress.com/series/delicious-in-dungeon",
+      },
+    ]);
+  });
+
+  it("falls back for sparse titles and joins co-authors", () => {
+    const [, manga] = parseMangaList(mangaListPayload);
+
+    expect(manga).toMatchObject({
+      title: "Na Honjaman Level Up",
+      type: "Manhwa",
+      year: null,
+      description: "No description available",
+      author: "Chugong, Jang Sung-Lak",
+      coverUrl: null,
+      publicationDemographic: null,
+      lastVolume: null,
+      lastChapter: null,
+      links: [],
+      tags: [],
+    });
+    expect(manga.authors.map((author) => author.name)).toEqual([
+      "Chugong",
+      "Jang Sung-Lak",
+    ]);
+  });
+
+  it("names the field when a manga is missing its title", () => {
+    const payload = clone(mangaListPayload) as any;
+    delete payload.data[1].attributes.title;
+
+    const error = schemaError(() => parseMangaList(payload));
+    expect(error.message).toBe(
+      "Unexpected MangaDex response at response.data[1].attributes.title: expected object, got undefined",
+    );
+    expect(error.path).toBe("response.data[1].attributes.title");
+    expect(error.url).toBe(MANGA_URL);
+  });
+
+  it("rejects an unknown status", () => {
+    const payload = clone(mangaListPayload) as any;
+    payload.data[0].attributes.status = "finished";
+
+    expect(() => parseMangaList(payload)).toThrow(
+      "Unexpected MangaDex response at response.data[0].attributes.status: expected one of ongoing, completed, hiatus, cancelled, got string",
+    );
+  });
+
+  it("rejects an error body in place of a collection", () => {
+    const payload = {
+      result: "error",
+      errors: [{ status: 503, title: "Service Unavailable" }],
+    };
+
+    expect(() => parseMangaList(payload)).toThrow(
+      "Unexpected MangaDex response at response.result: expected one of ok, got string",
+    );
+  });
+});
+
+describe("formatMangaDetails", () => {
+  it("uses the larger cover for the detail page", () => {
+    const manga = parseMangaDetails(mangaDetailsPayload);
+
+    expect(manga.id).toBe("d773c8be-8e82-4ff1-a4e9-46171395319b");
+    expect(manga.title).toBe("Dungeon Meshi");
+    expect(manga.coverUrl).toBe(
+      "https://uploads.mangadex.org/covers/d773c8be-8e82-4ff1-a4e9-46171395319b/2b7f8c4e-1d3a-4e5f-9a8b-7c6d5e4f3a2b.jpg.512.jpg",
+    );
+  });
+
+  it("names the relationship attribute that has the wrong type", () => {
+    const payload = clone(mangaDetailsPayload) as any;
+    payload.data.relationships[2].attributes.fileName = 42;
+
+    expect(() => parseMangaDetails(payload)).toThrow(
+      "Unexpected MangaDex response at response.data.relationships[2].attributes.fileName: expected string, got number",
+    );
+  });
+
+  it("rejects a collection where an entity was expected", () => {
+    expect(() => parseMangaDetails(mangaListPayload)).toThrow(
+      "Unexpected MangaDex response at response.response: expected one of entity, got string",
+    );
+  });
+});
+
+describe("formatChapterList", () => {
+  it("skips external and empty chapters", () => {
+    const chapters = parseChapterFeed(chapterFeedPayload);
+
+    expect(chapters.map((chapter) => chapter.id)).toEqual([
+      "5e8bc984-5f3d-4a8b-9c1e-2d3f4a5b6c7d",
+      "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+    ]);
+  });
+
+  it("maps groups, uploader and publish time", () => {
+    const [chapter] = parseChapterFeed(chapterFeedPayload);
+
+    expect(chapter).toEqual({
+      id: "5e8bc984-5f3d-4a8b-9c1e-2d3f4a5b6c7d",
+      chapter: "1",
+      title: "Hot Pot",
+      volume: "1",
+      pages: 32,
+      publishedAt: "2018-02-16T01:20:14+00:00",
+      language: "en",
+      groups: [
+        {
+          id: "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+          name: "Band of the Hawks",
+        },
+      ],
+      uploader: "hawkscans",
+      hasNumber: true,
+    });
+  });
+
+  it("fills in oneshots without a number, title or group name", () => {
+    const [, oneshot] = parseChapterFeed(chapterFeedPayload);
+
+    expect(oneshot).toMatchObject({
+      chapter: "0",
+      title: "Chapter ?",
+      volume: null,
+      groups: [
+        { id: "3d4e5f6a-7b8c-4d9e-8f0a-1b2c3d4e5f6a", name: "Unknown Group" },
+      ],
+      uploader: null,
+      hasNumber: false,
+    });
+  });
+
+  it("names the chapter field that has the wrong type", () => {
+    const payload = clone(chapterFeedPayload) as any;
+    payload.data[0].attributes.pages = "32";
+
+    expect(() => parseChapterFeed(payload)).toThrow(
+      "Unexpected MangaDex response at response.data[0].attributes.pages: expected number, got string",
+    );
+  });
+
+  it("rejects a feed whose data is not a list", () => {
+    const payload = clone(chapterFeedPayload) as any;
+    payload.data = null;
+
+    expect(() => parseChapterFeed(payload)).toThrow(
+      "Unexpected MangaDex response at response.data: expected array, got null",
+    );
+  });
+});
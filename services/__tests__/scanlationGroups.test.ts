@@ -0,0 +1,93 @@
+import { Chapter } from "../mangadex";
+import {
+  countChapters,
+  groupByChapter,
+  resolveChapters,
+} from "../scanlationGroups";
+
+const chapter = (
+  id: string,
+  number: string | null,
+  volume: string | null = null,
+  groupId: string = "group-a",
+): Chapter => ({
+  id,
+  chapter: number ?? "0",
+  title: `Chapter ${number ?? "?"}`,
+  volume,
+  pages: 20,
+  publishedAt: "2024-01-01T00:00:00+00:00",
+  language: "en",
+  groups: [{ id: groupId, name: groupId }],
+  uploader: null,
+  hasNumber: number !== null,
+});
+
+describe("groupByChapter", () => {
+  it("groups versions of the same chapter in a volume", () => {
+    const groups = groupByChapter([
+      chapter("a", "1", "1"),
+      chapter("b", "1", "1", "group-b"),
+      chapter("c", "2", "1"),
+    ]);
+
+    expect(groups.map((g) => g.versions.map((v) => v.id))).toEqual([
+      ["a", "b"],
+      ["c"],
+    ]);
+  });
+
+  it("keeps chapters without a number apart", () => {
+    const groups = groupByChapter([
+      chapter("oneshot", null),
+      chapter("extra", null, null, "group-b"),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(
+      resolveChapters([chapter("oneshot", null), chapter("extra", null)], {
+        preferred: [],
+        blocked: [],
+      }).map((c) => c.id),
+    ).toEqual(["oneshot", "extra"]);
+  });
+
+  it("doesn't treat a numbered chapter 0 as unnumbered", () => {
+    expect(
+      countChapters([chapter("prologue", "0"), chapter("oneshot", null)]),
+    ).toBe(2);
+  });
+
+  it("splits equal numbers from different volumes", () => {
+    const groups = groupByChapter([
+      chapter("a", "1", "1"),
+      chapter("b", "1", "2"),
+    ]);
+
+    expect(groups.map((g) => g.key)).toEqual(["1:1", "2:1"]);
+  });
+
+  it("merges versions when one group leaves the volume empty", () => {
+    const chapters = [
+      chapter("a", "1", "1"),
+      chapter("b", "1", null, "group-b"),
+      chapter("c", "2", null),
+    ];
+
+    expect(groupByChapter(chapters).map((g) => g.key)).toEqual(["1", "2"]);
+    expect(countChapters(chapters)).toBe(2);
+  });
+
+  it("merges versions that are not adjacent", () => {
+    const groups = groupByChapter([
+      chapter("a", "3", "1"),
+      chapter("b", "4", "1"),
+      chapter("c", "3", "1", "group-b"),
+    ]);
+
+    expect(groups.map((g) => g.versions.map((v) => v.id))).toEqual([
+      ["a", "c"],
+      ["b"],
+    ]);
+  });
+});
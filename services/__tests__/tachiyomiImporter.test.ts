@@ -0,0 +1,176 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  parseTachiyomiBackup,
+  tachiyomiImporter,
+  TachiyomiBackupError,
+} from "../tachiyomiImporter";
+import { storage } from "../storage";
+import { writeReadingProgress } from "../database";
+import { readState } from "../readState";
+
+jest.mock("../storage", () => ({
+  storage: {
+    isBookmarked: jest.fn(),
+    addBookmark: jest.fn(),
+    getReadingProgress: jest.fn(),
+  },
+}));
+jest.mock("../database", () => ({
+  getDatabase: jest.fn(async () => ({})),
+  writeReadingProgress: jest.fn(),
+}));
+jest.mock("../readState", () => ({
+  readState: { markManyRead: jest.fn(async () => 0) },
+}));
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(join(__dirname, "fixtures", name)));
+
+const BERSERK_ID = "801513ba-a712-498c-8f57-cae55b38cc92";
+
+describe("parseTachiyomiBackup", () => {
+  it("reads a gzipped protobuf backup", () => {
+    const plan = parseTachiyomiBackup(fixture("tachiyomi-backup.tachibk"));
+
+    expect(plan.format).toBe("protobuf");
+    expect(plan.matched).toHaveLength(1);
+    const [berserk] = plan.matched;
+    expect(berserk.manga).toMatchObject({
+      id: BERSERK_ID,
+      title: "Berserk",
+      author: "Kentaro Miura",
+      status: "ongoing",
+      tags: ["Action", "Fantasy"],
+    });
+    expect(berserk.bookmarkedAt).toBe(1690000000000);
+    expect(berserk.favorite).toBe(true);
+  });
+
+  it("maps read chapters with their numbers and counts the ones it can't match", () => {
+    const [berserk] = parseTachiyomiBackup(
+      fixture("tachiyomi-backup.tachibk"),
+    ).matched;
+
+    expect(berserk.readChapters).toEqual([
+      { id: "6310f6a1-17ee-4890-b837-2ec1b372905b", number: "1" },
+      { id: "a6a4e3b5-3c47-4a4b-9c1c-0c6f4a52f0d1", number: "1" },
+    ]);
+    expect(berserk.unmatchedChapters).toBe(1);
+  });
+
+  it("takes progress from the latest history entry", () => {
+    const [berserk] = parseTachiyomiBackup(
+      fixture("tachiyomi-backup.tachibk"),
+    ).matched;
+
+    expect(berserk.progress).toEqual({
+      chapterId: "0d4d1c6e-2f3e-4a8e-bb1f-7a1a3cf0c9e2",
+      chapterNumber: "2",
+      page: 7,
+      lastReadAt: 1700000000000,
+    });
+  });
+
+  it("checks the source before the URL and reports what it skips", () => {
+    const plan = parseTachiyomiBackup(fixture("tachiyomi-backup.tachibk"));
+
+    expect(plan.unmatched).toEqual([
+      {
+        title: "Lookalike",
+        source: "Other Source",
+        reason: "Not from the MangaDex source",
+      },
+      {
+        title: "Not a title",
+        source: "MangaDex",
+        reason: "Not a MangaDex title",
+      },
+    ]);
+  });
+
+  it("reads a legacy JSON backup", () => {
+    const plan = parseTachiyomiBackup(fixture("tachiyomi-legacy.json"));
+
+    expect(plan.format).toBe("legacy-json");
+    expect(plan.matched).toHaveLength(1);
+    const [vagabond] = plan.matched;
+    expect(vagabond.manga).toMatchObject({
+      id: "32d76d19-8a05-4db0-9fc2-e0b0648fe9d0",
+      title: "Vagabond",
+    });
+    expect(vagabond.readChapters).toEqual([
+      { id: "b4f8a1c2-5d3e-4f6a-8b7c-9d0e1f2a3b4c", number: null },
+    ]);
+    expect(vagabond.progress).toEqual({
+      chapterId: "c5e9b2d3-6e4f-4a7b-9c8d-0e1f2a3b4c5d",
+      chapterNumber: "0",
+      page: 5,
+      lastReadAt: 1698000000000,
+    });
+    expect(plan.unmatched).toEqual([
+      {
+        title: "Copy",
+        source: "Other Source",
+        reason: "Not from the MangaDex source",
+      },
+    ]);
+  });
+
+  it("rejects files that can't be decompressed", () => {
+    expect(() =>
+      parseTachiyomiBackup(new Uint8Array([0x1f, 0x8b, 0x08, 0x00])),
+    ).toThrow(TachiyomiBackupError);
+  });
+});
+
+describe("applyImport", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(storage.isBookmarked).mockResolvedValue(false);
+  });
+
+  it("keeps the backup's last-read time on imported progress", async () => {
+    jest.mocked(storage.getReadingProgress).mockResolvedValue(null);
+    const plan = parseTachiyomiBackup(fixture("tachiyomi-backup.tachibk"));
+
+    const result = await tachiyomiImporter.applyImport(plan);
+
+    expect(result.progressRestored).toBe(1);
+    expect(writeReadingProgress).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        mangaId: BERSERK_ID,
+        chapterId: "0d4d1c6e-2f3e-4a8e-bb1f-7a1a3cf0c9e2",
+        page: 7,
+        updatedAt: 1700000000000,
+      }),
+    );
+    expect(storage.addBookmark).toHaveBeenCalledWith(
+      expect.objectContaining({ id: BERSERK_ID }),
+      1690000000000,
+    );
+    expect(readState.markManyRead).toHaveBeenCalledWith(
+      BERSERK_ID,
+      plan.matched[0].readChapters,
+      0,
+    );
+  });
+
+  it("leaves newer progress alone", async () => {
+    jest.mocked(storage.getReadingProgress).mockResolvedValue({
+      mangaId: BERSERK_ID,
+      chapterId: "later",
+      chapterNumber: "3",
+      page: 2,
+      totalPages: 20,
+      updatedAt: 1800000000000,
+    });
+    const plan = parseTachiyomiBackup(fixture("tachiyomi-backup.tachibk"));
+
+    const result = await tachiyomiImporter.applyImport(plan);
+
+    expect(result.progressRestored).toBe(0);
+    expect(writeReadingProgress).not.toHaveBeenCalled();
+  });
+});
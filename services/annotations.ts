@@ -0,0 +1,168 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase } from "./database";
+
+// Personal notes kept next to a manga. They outlive the bookmark so
+// re-adding a title brings its review back.
+export interface MangaAnnotation {
+  mangaId: string;
+  score: number | null;
+  notes: string;
+  tags: string[];
+  startedAt: number | null;
+  finishedAt: number | null;
+  updatedAt: number;
+}
+
+export type AnnotationInput = Omit<MangaAnnotation, "updatedAt">;
+
+interface AnnotationRow {
+  manga_id: string;
+  score: number | null;
+  notes: string;
+  tags: string;
+  started_at: number | null;
+  finished_at: number | null;
+  updated_at: number;
+}
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnnotationError";
+  }
+}
+
+const toAnnotation = (row: AnnotationRow): MangaAnnotation => ({
+  mangaId: row.manga_id,
+  score: row.score,
+  notes: row.notes,
+  tags: JSON.parse(row.tags),
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  updatedAt: row.updated_at,
+});
+
+// Trims, collapses whitespace and drops case-insensitive duplicates while
+// keeping the first spelling the user typed.
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const name = tag.trim().replace(/\s+/g, " ");
+    if (name && !seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      normalized.push(name);
+    }
+  }
+  return normalized;
+};
+
+export const isEmptyAnnotation = (annotation: AnnotationInput): boolean =>
+  annotation.score === null &&
+  !annotation.notes.trim() &&
+  annotation.tags.length === 0 &&
+  annotation.startedAt === null &&
+  annotation.finishedAt === null;
+
+const validate = (annotation: AnnotationInput): AnnotationInput => {
+  const { score, startedAt, finishedAt } = annotation;
+  if (
+    score !== null &&
+    (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE)
+  ) {
+    throw new AnnotationError(
+      `Score must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}.`,
+    );
+  }
+  if (startedAt !== null && finishedAt !== null && finishedAt < startedAt) {
+    throw new AnnotationError("Finish date can't be before the start date.");
+  }
+  return {
+    ...annotation,
+    notes: annotation.notes.trim(),
+    tags: normalizeTags(annotation.tags),
+  };
+};
+
+const writeAnnotation = (db: SQLiteDatabase, annotation: MangaAnnotation) =>
+  db.runAsync(
+    "INSERT OR REPLACE INTO annotations (manga_id, score, notes, tags, started_at, finished_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    annotation.mangaId,
+    annotation.score,
+    annotation.notes,
+    JSON.stringify(annotation.tags),
+    annotation.startedAt,
+    annotation.finishedAt,
+    annotation.updatedAt,
+  );
+
+export const replaceAnnotations = async (
+  db: SQLiteDatabase,
+  list: MangaAnnotation[],
+) => {
+  await db.execAsync("DELETE FROM annotations;");
+  for (const annotation of list) {
+    await writeAnnotation(db, annotation);
+  }
+};
+
+export const annotations = {
+  async get(mangaId: string): Promise<MangaAnnotation | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<AnnotationRow>(
+        "SELECT * FROM annotations WHERE manga_id = ?",
+        mangaId,
+      );
+      return row ? toAnnotation(row) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  async getAll(): Promise<Record<string, MangaAnnotation>> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<AnnotationRow>(
+        "SELECT * FROM annotations",
+      );
+      const all: Record<string, MangaAnnotation> = {};
+      for (const row of rows) {
+        all[row.manga_id] = toAnnotation(row);
+      }
+      return all;
+    } catch {
+      return {};
+    }
+  },
+
+  async getAllTags(): Promise<string[]> {
+    const all = await this.getAll();
+    return normalizeTags(
+      Object.values(all).flatMap((annotation) => annotation.tags),
+    ).sort((a, b) => a.localeCompare(b));
+  },
+
+  // Saving an annotation with nothing in it removes the row.
+  async save(input: AnnotationInput): Promise<MangaAnnotation | null> {
+    const annotation = validate(input);
+    const db = await getDatabase();
+    if (isEmptyAnnotation(annotation)) {
+      await db.runAsync(
+        "DELETE FROM annotations WHERE manga_id = ?",
+        annotation.mangaId,
+      );
+      return null;
+    }
+    const saved = { ...annotation, updatedAt: Date.now() };
+    await writeAnnotation(db, saved);
+    return saved;
+  },
+
+  async exportAll(): Promise<MangaAnnotation[]> {
+    return Object.values(await this.getAll());
+  },
+};
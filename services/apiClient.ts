@@ -0,0 +1,258 @@
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  // "no-cache" skips cached copies and goes to the network; read by responseCache
+  cache?: "default" | "no-cache";
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+
+export class ApiError extends Error {
+  url: string;
+  status: number | null;
+
+  constructor(message: string, url: string, status: number | null = null) {
+    super(message);
+    this.name = "ApiError";
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export class NetworkError extends ApiError {
+  timedOut: boolean;
+
+  constructor(message: string, url: string, timedOut: boolean = false) {
+    super(message, url);
+    this.name = "NetworkError";
+    this.timedOut = timedOut;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  retryAfterMs: number;
+
+  constructor(url: string, retryAfterMs: number) {
+    super("Too many requests to MangaDex. Please wait a moment.", url, 429);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(url: string) {
+    super("The requested item could not be found.", url, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(url: string, status: number) {
+    super(`MangaDex API error: ${status}`, url, status);
+    this.name = "ServerError";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+const createAbortError = () => {
+  const error = new Error("The request was cancelled.");
+  error.name = "AbortError";
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private blockedUntil = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.refilledAt) / 1000) * this.refillPerSecond,
+      );
+      this.refilledAt = now;
+
+      const wait = Math.max(
+        this.blockedUntil - now,
+        this.tokens >= 1
+          ? 0
+          : ((1 - this.tokens) / this.refillPerSecond) * 1000,
+      );
+      if (wait <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  // Stops handing out tokens until the server says the window has reset.
+  pauseUntil(time: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+  }
+}
+
+// MangaDex allows about 5 requests a second per client, and the at-home
+// image server lookup is limited separately to 40 a minute.
+const defaultBucket = new TokenBucket(5, 5);
+const atHomeBucket = new TokenBucket(40, 40 / 60);
+
+const bucketFor = (url: string) =>
+  url.includes("/at-home/") ? atHomeBucket : defaultBucket;
+
+const getRetryAfterMs = (headers: Headers): number | null => {
+  const retryAfter = headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  // MangaDex sends the reset time as a unix timestamp in seconds
+  const resetAt = Number(headers.get("X-RateLimit-Retry-After"));
+  if (resetAt > 0) return Math.max(0, resetAt * 1000 - Date.now());
+  return null;
+};
+
+const getBackoffMs = (attempt: number) => {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const toHttpError = (response: Response, url: string): ApiError => {
+  if (response.status === 429) {
+    return new RateLimitError(
+      url,
+      getRetryAfterMs(response.headers) ?? getBackoffMs(0),
+    );
+  }
+  if (response.status === 404) return new NotFoundError(url);
+  if (response.status >= 500) return new ServerError(url, response.status);
+  return new ApiError(
+    `MangaDex API error: ${response.status}`,
+    url,
+    response.status,
+  );
+};
+
+const isRetryable = (error: ApiError) =>
+  error instanceof NetworkError ||
+  error instanceof RateLimitError ||
+  error instanceof ServerError;
+
+const fetchWithTimeout = async (
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch {
+    if (signal?.aborted) throw createAbortError();
+    throw new NetworkError(
+      timedOut
+        ? "The request timed out."
+        : "Couldn't reach MangaDex. Check your connection.",
+      url,
+      timedOut,
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+export const apiClient = {
+  async request(url: string, options: RequestOptions = {}): Promise<Response> {
+    const {
+      signal,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      retries = DEFAULT_RETRIES,
+    } = options;
+    const bucket = bucketFor(url);
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take(signal);
+
+      let error: ApiError;
+      try {
+        const response = await fetchWithTimeout(url, timeoutMs, signal);
+        if (response.headers.get("X-RateLimit-Remaining") === "0") {
+          const retryAfterMs = getRetryAfterMs(response.headers);
+          if (retryAfterMs !== null) {
+            bucket.pauseUntil(Date.now() + retryAfterMs);
+          }
+        }
+        if (response.ok) return response;
+        error = toHttpError(response, url);
+      } catch (caught) {
+        if (!(caught instanceof ApiError)) throw caught;
+        error = caught;
+      }
+
+      if (!isRetryable(error) || attempt >= retries) throw error;
+
+      const delay =
+        error instanceof RateLimitError
+          ? error.retryAfterMs
+          : getBackoffMs(attempt);
+      if (error instanceof RateLimitError) {
+        bucket.pauseUntil(Date.now() + delay);
+      }
+      await sleep(delay, signal);
+    }
+  },
+
+  async getJson<T = any>(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const response = await this.request(url, options);
+    try {
+      return await response.json();
+    } catch {
+      throw new ServerError(url, response.status);
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { getDatabase } from "./database";
+
+// An author or artist whose new series the update checker looks for.
+// knownMangaIds is every title seen so far, so only new ones are reported.
+export interface FollowedAuthor {
+  id: string;
+  name: string;
+  knownMangaIds: string[];
+  followedAt: number;
+}
+
+interface FollowedAuthorRow {
+  author_id: string;
+  name: string;
+  known_manga: string;
+  followed_at: number;
+}
+
+const toFollowedAuthor = (row: FollowedAuthorRow): FollowedAuthor => ({
+  id: row.author_id,
+  name: row.name,
+  knownMangaIds: JSON.parse(row.known_manga),
+  followedAt: row.followed_at,
+});
+
+export const authorFollows = {
+  async getFollowedAuthors(): Promise<FollowedAuthor[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<FollowedAuthorRow>(
+        "SELECT * FROM followed_authors ORDER BY name COLLATE NOCASE",
+      );
+      return rows.map(toFollowedAuthor);
+    } catch {
+      return [];
+    }
+  },
+
+  async isFollowing(authorId: string): Promise<boolean> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync(
+        "SELECT 1 FROM followed_authors WHERE author_id = ?",
+        authorId,
+      );
+      return row !== null;
+    } catch {
+      return false;
+    }
+  },
+
+  async follow(
+    author: { id: string; name: string },
+    knownMangaIds: string[],
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO followed_authors (author_id, name, known_manga, followed_at) VALUES (?, ?, ?, ?)",
+      author.id,
+      author.name,
+      JSON.stringify([...new Set(knownMangaIds)]),
+      Date.now(),
+    );
+  },
+
+  async unfollow(authorId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "DELETE FROM followed_authors WHERE author_id = ?",
+      authorId,
+    );
+  },
+
+  async addKnownManga(authorId: string, mangaIds: string[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const row = await txn.getFirstAsync<FollowedAuthorRow>(
+        "SELECT * FROM followed_authors WHERE author_id = ?",
+        authorId,
+      );
+      if (!row) return;
+      const known = new Set<string>(JSON.parse(row.known_manga));
+      mangaIds.forEach((id) => known.add(id));
+      await txn.runAsync(
+        "UPDATE followed_authors SET known_manga = ? WHERE author_id = ?",
+        JSON.stringify([...known]),
+        authorId,
+      );
+    });
+  },
+};
@@ -0,0 +1,260 @@
+import NetInfo, { NetInfoStateType } from "@react-native-community/netinfo";
+import { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase } from "./database";
+import { categories } from "./categories";
+import { downloadManager } from "./downloadManager";
+import { downloadQueue } from "./downloadQueue";
+import { Chapter, Manga } from "./mangadex";
+import { scanlationGroups, resolveChapters } from "./scanlationGroups";
+import { storage } from "./storage";
+
+const MB = 1024 * 1024;
+
+// A bookmark the update check fetched the chapter list of
+export interface AutoDownloadCandidate {
+  manga: Manga;
+  chapters: Chapter[];
+}
+
+export interface AutoDownloadStatus {
+  enabled: boolean;
+  // An opted-in category the manga is in, which covers it either way
+  category: string | null;
+}
+
+// Chapter ids already dealt with for a manga, or null if it hasn't been
+// checked since it was opted in
+const getSeenChapterIds = async (
+  db: SQLiteDatabase,
+  mangaId: string,
+): Promise<Set<string> | null> => {
+  const tracked = await db.getFirstAsync(
+    "SELECT 1 FROM auto_download_tracked WHERE manga_id = ?",
+    mangaId,
+  );
+  if (!tracked) return null;
+  const rows = await db.getAllAsync<{ chapter_id: string }>(
+    "SELECT chapter_id FROM auto_download_seen WHERE manga_id = ?",
+    mangaId,
+  );
+  return new Set(rows.map((row) => row.chapter_id));
+};
+
+const markSeen = async (
+  db: SQLiteDatabase,
+  mangaId: string,
+  chapterIds: string[],
+): Promise<void> => {
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync(
+      "INSERT OR IGNORE INTO auto_download_tracked (manga_id, tracked_at) VALUES (?, ?)",
+      mangaId,
+      Date.now(),
+    );
+    for (const chapterId of chapterIds) {
+      await txn.runAsync(
+        "INSERT OR IGNORE INTO auto_download_seen (manga_id, chapter_id) VALUES (?, ?)",
+        mangaId,
+        chapterId,
+      );
+    }
+  });
+};
+
+// Opting back in later starts from the chapters out at that point rather
+// than everything released in between
+const forgetSeen = async (
+  db: SQLiteDatabase,
+  mangaIds: string[],
+): Promise<void> => {
+  if (mangaIds.length === 0) return;
+  const placeholders = mangaIds.map(() => "?").join(", ");
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync(
+      `DELETE FROM auto_download_tracked WHERE manga_id IN (${placeholders})`,
+      ...mangaIds,
+    );
+    await txn.runAsync(
+      `DELETE FROM auto_download_seen WHERE manga_id IN (${placeholders})`,
+      ...mangaIds,
+    );
+  });
+};
+
+const isOnWifi = async () => {
+  const state = await NetInfo.fetch();
+  return (
+    state.type === NetInfoStateType.wifi ||
+    state.type === NetInfoStateType.ethernet
+  );
+};
+
+export const autoDownload = {
+  async getMangaIds(): Promise<string[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ manga_id: string }>(
+        "SELECT manga_id FROM auto_download_manga",
+      );
+      return rows.map((row) => row.manga_id);
+    } catch {
+      return [];
+    }
+  },
+
+  async getCategoryIds(): Promise<number[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ category_id: number }>(
+        "SELECT category_id FROM auto_download_categories",
+      );
+      return rows.map((row) => row.category_id);
+    } catch {
+      return [];
+    }
+  },
+
+  async setManga(mangaId: string, enabled: boolean): Promise<void> {
+    const db = await getDatabase();
+    if (enabled) {
+      await db.runAsync(
+        "INSERT OR REPLACE INTO auto_download_manga (manga_id, enabled_at) VALUES (?, ?)",
+        mangaId,
+        Date.now(),
+      );
+    } else {
+      await db.runAsync(
+        "DELETE FROM auto_download_manga WHERE manga_id = ?",
+        mangaId,
+      );
+    }
+  },
+
+  async setCategory(categoryId: number, enabled: boolean): Promise<void> {
+    const db = await getDatabase();
+    if (enabled) {
+      await db.runAsync(
+        "INSERT OR REPLACE INTO auto_download_categories (category_id, enabled_at) VALUES (?, ?)",
+        categoryId,
+        Date.now(),
+      );
+    } else {
+      await db.runAsync(
+        "DELETE FROM auto_download_categories WHERE category_id = ?",
+        categoryId,
+      );
+    }
+  },
+
+  async hasOptIns(): Promise<boolean> {
+    const [mangaIds, categoryIds] = await Promise.all([
+      this.getMangaIds(),
+      this.getCategoryIds(),
+    ]);
+    return mangaIds.length > 0 || categoryIds.length > 0;
+  },
+
+  async getStatus(mangaId: string): Promise<AutoDownloadStatus> {
+    const [mangaIds, categoryIds, mangaCategoryIds, categoryList] =
+      await Promise.all([
+        this.getMangaIds(),
+        this.getCategoryIds(),
+        categories.getMangaCategoryIds(mangaId),
+        categories.getCategories(),
+      ]);
+    const category = categoryList.find(
+      (c) => categoryIds.includes(c.id) && mangaCategoryIds.includes(c.id),
+    );
+    return {
+      enabled: mangaIds.includes(mangaId),
+      category: category ? category.name : null,
+    };
+  },
+
+  // Manga opted in on their own or through one of their categories
+  async getEnabledMangaIds(): Promise<Set<string>> {
+    const [mangaIds, categoryIds, membership] = await Promise.all([
+      this.getMangaIds(),
+      this.getCategoryIds(),
+      categories.getMembership(),
+    ]);
+    const enabled = new Set(mangaIds);
+    for (const categoryId of categoryIds) {
+      for (const mangaId of membership[categoryId] || []) {
+        enabled.add(mangaId);
+      }
+    }
+    return enabled;
+  },
+
+  // Queues the chapters of opted-in manga that weren't out at the last
+  // check, within the limits set in Profile. Resolves to how many chapters
+  // were added to the queue.
+  async queueNewChapters(candidates: AutoDownloadCandidate[]): Promise<number> {
+    const enabled = await this.getEnabledMangaIds();
+    const db = await getDatabase();
+    // Every tracked manga, since the caller may only pass opted-in ones
+    const tracked = await db.getAllAsync<{ manga_id: string }>(
+      "SELECT manga_id FROM auto_download_tracked",
+    );
+    await forgetSeen(
+      db,
+      tracked
+        .map((row) => row.manga_id)
+        .filter((mangaId) => !enabled.has(mangaId)),
+    );
+    const targets = candidates.filter(({ manga }) => enabled.has(manga.id));
+    if (targets.length === 0) return 0;
+
+    const { autoDownload: limits, dataSaver } = await storage.getSettings();
+    if (limits.wifiOnly && !(await isOnWifi())) return 0;
+
+    const downloads = await downloadManager.getAllDownloads();
+    let used = downloads.reduce((sum, d) => sum + d.totalSize, 0);
+    const ceiling =
+      limits.storageCeilingMb !== null ? limits.storageCeilingMb * MB : null;
+    let remaining = limits.maxChaptersPerRun;
+    let queued = 0;
+
+    for (const { manga, chapters } of targets) {
+      const seen = await getSeenChapterIds(db, manga.id);
+      // The first check after opting in only takes note of what's out
+      if (seen === null) {
+        await markSeen(
+          db,
+          manga.id,
+          chapters.map((chapter) => chapter.id),
+        );
+        continue;
+      }
+
+      const preferences = await scanlationGroups.getPreferences(manga.id);
+      const fresh = resolveChapters(chapters, preferences).filter(
+        (chapter) => !seen.has(chapter.id),
+      );
+      const picked: Chapter[] = [];
+      for (const chapter of fresh) {
+        if (picked.length >= remaining) break;
+        const size = downloadManager.estimateSize(chapter.pages, dataSaver);
+        if (ceiling !== null && used + size > ceiling) break;
+        used += size;
+        picked.push(chapter);
+      }
+      // Chapters held back by the limits stay new for the next check
+      const waiting = new Set(
+        fresh.slice(picked.length).map((chapter) => chapter.id),
+      );
+      await markSeen(
+        db,
+        manga.id,
+        chapters
+          .map((chapter) => chapter.id)
+          .filter((id) => !seen.has(id) && !waiting.has(id)),
+      );
+      if (picked.length === 0) continue;
+      remaining -= picked.length;
+      queued += await downloadQueue.enqueue(manga, picked, dataSaver);
+    }
+    return queued;
+  },
+};
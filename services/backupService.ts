@@ -0,0 +1,925 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as DocumentPicker from "expo-document-picker";
+import * as Sharing from "expo-sharing";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import {
+  KEYS,
+  defaultSettings,
+  replaceLibrary,
+  storage,
+  AppSettings,
+  BookmarkedManga,
+  ReadingHistoryItem,
+  ReadingProgress,
+  RetentionRule,
+} from "./storage";
+import {
+  LAST_CHAPTER_COUNTS_KEY,
+  NOTIFICATION_SETTINGS_KEY,
+  defaultNotificationSettings,
+  notificationService,
+  ChapterCountRecord,
+  NotificationSettings,
+} from "./notificationService";
+import { getDatabase } from "./database";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import { normalizeManga } from "./mangadex";
+import { readState, replaceReadState, ReadStateIndex } from "./readState";
+import { historyLog, replaceSessions, HistoryEntry } from "./historyLog";
+import {
+  categories,
+  replaceCategories,
+  CategorySnapshot,
+  DEFAULT_CATEGORIES,
+} from "./categories";
+import {
+  annotations,
+  normalizeTags,
+  replaceAnnotations,
+  MangaAnnotation,
+  MAX_SCORE,
+  MIN_SCORE,
+} from "./annotations";
+
+export const BACKUP_FORMAT = "mangareader-backup";
+export const BACKUP_VERSION = 4;
+
+const MAX_HISTORY_ITEMS = 50;
+
+export type RestoreMode = "merge" | "replace";
+
+export interface LibraryBackupData {
+  bookmarks: BookmarkedManga[];
+  history: ReadingHistoryItem[];
+  // mangaId -> chapterId -> readAt; v1 backups stored plain id arrays
+  readChapters: Record<string, Record<string, number>>;
+  progress: Record<string, ReadingProgress>;
+  settings: AppSettings;
+  notificationSettings: NotificationSettings;
+  chapterCounts: Record<string, ChapterCountRecord>;
+  sessions: HistoryEntry[];
+  categories: CategorySnapshot[];
+  annotations: MangaAnnotation[];
+}
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  appVersion: string;
+  createdAt: number;
+  data: LibraryBackupData;
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  bookmarks: { added: number; removed: number; unchanged: number };
+  history: { added: number; updated: number; removed: number };
+  readChapters: { added: number; removed: number; manga: number };
+  progress: { added: number; updated: number; removed: number };
+  sessions: { added: number; removed: number };
+  categories: { added: number; removed: number };
+  annotations: { added: number; updated: number; removed: number };
+  settingsChanged: boolean;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getAllReadChapters = async (): Promise<
+  Record<string, Record<string, number>>
+> => {
+  const index = await readState.getAll();
+  const readChapters: Record<string, Record<string, number>> = {};
+  for (const [mangaId, state] of Object.entries(index)) {
+    if (Object.keys(state.chapters).length > 0) {
+      readChapters[mangaId] = state.chapters;
+    }
+  }
+  return readChapters;
+};
+
+const collectLibrary = async (): Promise<LibraryBackupData> => {
+  const [
+    bookmarks,
+    history,
+    readChapters,
+    progress,
+    settings,
+    notificationSettings,
+    chapterCounts,
+    sessions,
+    categorySnapshots,
+    annotationList,
+  ] = await Promise.all([
+    storage.getBookmarks(),
+    storage.getReadingHistory(),
+    getAllReadChapters(),
+    storage.getAllReadingProgress(),
+    storage.getSettings(),
+    notificationService.getNotificationSettings(),
+    notificationService.getLastChapterCounts(),
+    historyLog.getAllEntries(),
+    categories.exportAll(),
+    annotations.exportAll(),
+  ]);
+
+  return {
+    bookmarks,
+    history,
+    readChapters,
+    progress,
+    settings,
+    notificationSettings,
+    chapterCounts,
+    sessions,
+    categories: categorySnapshots,
+    annotations: annotationList,
+  };
+};
+
+const mergeBookmarks = (
+  current: BookmarkedManga[],
+  incoming: BookmarkedManga[],
+): BookmarkedManga[] => {
+  const ids = new Set(current.map((b) => b.id));
+  const added = incoming.filter((b) => !ids.has(b.id));
+  return [...current, ...added].sort((a, b) => b.bookmarkedAt - a.bookmarkedAt);
+};
+
+const mergeHistory = (
+  current: ReadingHistoryItem[],
+  incoming: ReadingHistoryItem[],
+): ReadingHistoryItem[] => {
+  const byManga = new Map<string, ReadingHistoryItem>();
+  for (const item of [...current, ...incoming]) {
+    const existing = byManga.get(item.manga.id);
+    if (!existing || item.lastReadAt > existing.lastReadAt) {
+      byManga.set(item.manga.id, item);
+    }
+  }
+  return [...byManga.values()]
+    .sort((a, b) => b.lastReadAt - a.lastReadAt)
+    .slice(0, MAX_HISTORY_ITEMS);
+};
+
+const mergeReadChapters = (
+  current: Record<string, Record<string, number>>,
+  incoming: Record<string, Record<string, number>>,
+): Record<string, Record<string, number>> => {
+  const merged: Record<string, Record<string, number>> = { ...current };
+  for (const [mangaId, chapters] of Object.entries(incoming)) {
+    const combined = { ...(current[mangaId] || {}) };
+    for (const [chapterId, readAt] of Object.entries(chapters)) {
+      combined[chapterId] = Math.max(combined[chapterId] ?? 0, readAt);
+    }
+    merged[mangaId] = combined;
+  }
+  return merged;
+};
+
+const mergeProgress = (
+  current: Record<string, ReadingProgress>,
+  incoming: Record<string, ReadingProgress>,
+): Record<string, ReadingProgress> => {
+  const merged: Record<string, ReadingProgress> = { ...current };
+  for (const [mangaId, entry] of Object.entries(incoming)) {
+    const existing = current[mangaId];
+    if (!existing || entry.updatedAt > existing.updatedAt) {
+      merged[mangaId] = entry;
+    }
+  }
+  return merged;
+};
+
+const sessionKey = (entry: HistoryEntry) =>
+  `${entry.chapterId}:${entry.startedAt}`;
+
+const mergeSessions = (
+  current: HistoryEntry[],
+  incoming: HistoryEntry[],
+): HistoryEntry[] => {
+  const keys = new Set(current.map(sessionKey));
+  const added = incoming.filter((entry) => !keys.has(sessionKey(entry)));
+  return [...current, ...added].sort((a, b) => a.startedAt - b.startedAt);
+};
+
+const categoryKey = (category: CategorySnapshot) => category.name.toLowerCase();
+
+const mergeCategories = (
+  current: CategorySnapshot[],
+  incoming: CategorySnapshot[],
+): CategorySnapshot[] => {
+  const merged = current.map((c) => ({ ...c, mangaIds: [...c.mangaIds] }));
+  const byName = new Map(merged.map((c) => [categoryKey(c), c]));
+  for (const category of incoming) {
+    const existing = byName.get(categoryKey(category));
+    if (existing) {
+      const ids = new Set(existing.mangaIds);
+      existing.mangaIds.push(...category.mangaIds.filter((id) => !ids.has(id)));
+    } else {
+      const added = { ...category, mangaIds: [...category.mangaIds] };
+      merged.push(added);
+      byName.set(categoryKey(added), added);
+    }
+  }
+  return merged;
+};
+
+const mergeAnnotations = (
+  current: MangaAnnotation[],
+  incoming: MangaAnnotation[],
+): MangaAnnotation[] => {
+  const byManga = new Map(current.map((a) => [a.mangaId, a]));
+  for (const annotation of incoming) {
+    const existing = byManga.get(annotation.mangaId);
+    if (!existing || annotation.updatedAt > existing.updatedAt) {
+      byManga.set(annotation.mangaId, annotation);
+    }
+  }
+  return [...byManga.values()];
+};
+
+const resolveRestoredData = (
+  current: LibraryBackupData,
+  incoming: LibraryBackupData,
+  mode: RestoreMode,
+): LibraryBackupData => {
+  if (mode === "replace") {
+    return incoming;
+  }
+
+  return {
+    bookmarks: mergeBookmarks(current.bookmarks, incoming.bookmarks),
+    history: mergeHistory(current.history, incoming.history),
+    readChapters: mergeReadChapters(
+      current.readChapters,
+      incoming.readChapters,
+    ),
+    progress: mergeProgress(current.progress, incoming.progress),
+    settings: current.settings,
+    notificationSettings: current.notificationSettings,
+    chapterCounts: { ...incoming.chapterCounts, ...current.chapterCounts },
+    sessions: mergeSessions(current.sessions, incoming.sessions),
+    categories: mergeCategories(current.categories, incoming.categories),
+    annotations: mergeAnnotations(current.annotations, incoming.annotations),
+  };
+};
+
+const countKeyDiff = (before: string[], after: string[]) => {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((k) => !beforeSet.has(k)).length,
+    removed: before.filter((k) => !afterSet.has(k)).length,
+  };
+};
+
+const summarize = (
+  current: LibraryBackupData,
+  next: LibraryBackupData,
+  mode: RestoreMode,
+): RestoreSummary => {
+  const bookmarkDiff = countKeyDiff(
+    current.bookmarks.map((b) => b.id),
+    next.bookmarks.map((b) => b.id),
+  );
+
+  const historyDiff = countKeyDiff(
+    current.history.map((h) => h.manga.id),
+    next.history.map((h) => h.manga.id),
+  );
+  const currentHistory = new Map(current.history.map((h) => [h.manga.id, h]));
+  const historyUpdated = next.history.filter((h) => {
+    const existing = currentHistory.get(h.manga.id);
+    return existing && existing.lastReadAt !== h.lastReadAt;
+  }).length;
+
+  let readAdded = 0;
+  let readRemoved = 0;
+  const touchedManga = new Set<string>();
+  const mangaIds = new Set([
+    ...Object.keys(current.readChapters),
+    ...Object.keys(next.readChapters),
+  ]);
+  for (const mangaId of mangaIds) {
+    const diff = countKeyDiff(
+      Object.keys(current.readChapters[mangaId] || {}),
+      Object.keys(next.readChapters[mangaId] || {}),
+    );
+    readAdded += diff.added;
+    readRemoved += diff.removed;
+    if (diff.added > 0 || diff.removed > 0) touchedManga.add(mangaId);
+  }
+
+  const progressDiff = countKeyDiff(
+    Object.keys(current.progress),
+    Object.keys(next.progress),
+  );
+  const progressUpdated = Object.entries(next.progress).filter(
+    ([mangaId, entry]) => {
+      const existing = current.progress[mangaId];
+      return existing && existing.updatedAt !== entry.updatedAt;
+    },
+  ).length;
+
+  const currentAnnotations = new Map(
+    current.annotations.map((a) => [a.mangaId, a]),
+  );
+  const annotationsUpdated = next.annotations.filter((a) => {
+    const existing = currentAnnotations.get(a.mangaId);
+    return existing && existing.updatedAt !== a.updatedAt;
+  }).length;
+
+  return {
+    mode,
+    bookmarks: {
+      ...bookmarkDiff,
+      unchanged: next.bookmarks.length - bookmarkDiff.added,
+    },
+    history: { ...historyDiff, updated: historyUpdated },
+    readChapters: {
+      added: readAdded,
+      removed: readRemoved,
+      manga: touchedManga.size,
+    },
+    progress: { ...progressDiff, updated: progressUpdated },
+    sessions: countKeyDiff(
+      current.sessions.map(sessionKey),
+      next.sessions.map(sessionKey),
+    ),
+    categories: countKeyDiff(
+      current.categories.map(categoryKey),
+      next.categories.map(categoryKey),
+    ),
+    annotations: {
+      ...countKeyDiff(
+        current.annotations.map((a) => a.mangaId),
+        next.annotations.map((a) => a.mangaId),
+      ),
+      updated: annotationsUpdated,
+    },
+    settingsChanged:
+      JSON.stringify(current.settings) !== JSON.stringify(next.settings) ||
+      JSON.stringify(current.notificationSettings) !==
+        JSON.stringify(next.notificationSettings),
+  };
+};
+
+const writeLibrary = async (
+  data: LibraryBackupData,
+  mode: RestoreMode,
+): Promise<void> => {
+  // Chapter totals aren't part of the backup; keep the ones we already know
+  // and seed new titles from the update checker's counts.
+  const currentIndex = await readState.getAll();
+  const index: ReadStateIndex = {};
+  for (const [mangaId, chapters] of Object.entries(data.readChapters)) {
+    index[mangaId] = {
+      chapters,
+      chapterCount:
+        currentIndex[mangaId]?.chapterCount ||
+        data.chapterCounts[mangaId]?.lastChapterCount ||
+        0,
+      updatedAt: Date.now(),
+    };
+  }
+  for (const [mangaId, record] of Object.entries(data.chapterCounts)) {
+    if (!index[mangaId] && record.lastChapterCount > 0) {
+      index[mangaId] = {
+        chapters: {},
+        chapterCount: record.lastChapterCount,
+        updatedAt: Date.now(),
+      };
+    }
+  }
+  if (mode === "merge") {
+    for (const [mangaId, state] of Object.entries(currentIndex)) {
+      if (!index[mangaId]) index[mangaId] = state;
+    }
+  }
+
+  // Settings go first and are put back if the library can't be written, so
+  // a failed restore leaves everything as it was
+  const settingKeys = [
+    KEYS.SETTINGS,
+    NOTIFICATION_SETTINGS_KEY,
+    LAST_CHAPTER_COUNTS_KEY,
+  ];
+  const previousSettings = await AsyncStorage.multiGet(settingKeys);
+  await AsyncStorage.multiSet([
+    [KEYS.SETTINGS, JSON.stringify(data.settings)],
+    [NOTIFICATION_SETTINGS_KEY, JSON.stringify(data.notificationSettings)],
+    [LAST_CHAPTER_COUNTS_KEY, JSON.stringify(data.chapterCounts)],
+  ]);
+
+  const bookmarked = new Set(data.bookmarks.map((b) => b.id));
+  try {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await replaceLibrary(txn, data);
+      await replaceReadState(txn, index);
+      await replaceSessions(txn, data.sessions);
+      await replaceCategories(
+        txn,
+        data.categories.map((category) => ({
+          ...category,
+          mangaIds: category.mangaIds.filter((id) => bookmarked.has(id)),
+        })),
+      );
+      await replaceAnnotations(txn, data.annotations);
+    });
+  } catch (error) {
+    const restores: [string, string][] = [];
+    const removals: string[] = [];
+    for (const [key, value] of previousSettings) {
+      if (value === null) removals.push(key);
+      else restores.push([key, value]);
+    }
+    if (restores.length > 0) await AsyncStorage.multiSet(restores);
+    if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+    throw error;
+  }
+};
+
+const parseCategories = (raw: unknown): CategorySnapshot[] => {
+  // Backups from before categories existed restore the default set
+  if (!Array.isArray(raw)) {
+    return DEFAULT_CATEGORIES.map((name) => ({ name, mangaIds: [] }));
+  }
+  return raw
+    .filter(
+      (c: unknown) =>
+        isObject(c) && typeof c.name === "string" && c.name.trim() !== "",
+    )
+    .map((c: Record<string, any>) => ({
+      name: c.name.trim(),
+      mangaIds: Array.isArray(c.mangaIds)
+        ? c.mangaIds.filter((id: unknown) => typeof id === "string")
+        : [],
+    }));
+};
+
+const toTimestamp = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const parseAnnotations = (raw: unknown): MangaAnnotation[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((a: unknown) => isObject(a) && typeof a.mangaId === "string")
+    .map((a: Record<string, any>) => {
+      const score = Math.round(Number(a.score));
+      return {
+        mangaId: a.mangaId,
+        score: score >= MIN_SCORE && score <= MAX_SCORE ? score : null,
+        notes: typeof a.notes === "string" ? a.notes : "",
+        tags: Array.isArray(a.tags)
+          ? normalizeTags(
+              a.tags.filter((tag: unknown) => typeof tag === "string"),
+            )
+          : [],
+        startedAt: toTimestamp(a.startedAt),
+        finishedAt: toTimestamp(a.finishedAt),
+        updatedAt: Number(a.updatedAt) || 0,
+      };
+    });
+};
+
+const toCount = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+
+const toBoolean = (value: unknown, fallback: boolean) =>
+  typeof value === "boolean" ? value : fallback;
+
+const toOption = <T>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+// A size limit in MB, where null means no limit
+const toLimit = (value: unknown, fallback: number | null) =>
+  value === null ? null : toCount(value, fallback ?? 0, 1, 1024 * 1024);
+
+const RETENTION_RULES: RetentionRule[] = [
+  "forever",
+  "afterRead",
+  "daysAfterRead",
+  "keepLatest",
+];
+
+const READER_TYPES = ["standard", "lite", "html"] as const;
+
+// Fields that are missing or the wrong type fall back to the defaults
+const parseSettings = (raw: unknown): AppSettings => {
+  const settings = isObject(raw) ? raw : {};
+  const retention = isObject(settings.downloadRetention)
+    ? settings.downloadRetention
+    : {};
+  const limits = isObject(settings.autoDownload) ? settings.autoDownload : {};
+  const languages = Array.isArray(settings.chapterLanguages)
+    ? settings.chapterLanguages.filter(
+        (language: unknown) => typeof language === "string",
+      )
+    : [];
+  const defaults = defaultSettings;
+
+  return {
+    readingMode: toOption(
+      settings.readingMode,
+      ["vertical", "horizontal"] as const,
+      defaults.readingMode,
+    ),
+    readerType: toOption(
+      settings.readerType,
+      READER_TYPES,
+      defaults.readerType,
+    ),
+    theme: toOption(
+      settings.theme,
+      ["light", "dark", "auto"] as const,
+      defaults.theme,
+    ),
+    dataSaver: toBoolean(settings.dataSaver, defaults.dataSaver),
+    chapterLanguages:
+      languages.length > 0 ? languages : defaults.chapterLanguages,
+    adultMode: toBoolean(settings.adultMode, defaults.adultMode),
+    volumeScrollEnabled: toBoolean(
+      settings.volumeScrollEnabled,
+      defaults.volumeScrollEnabled,
+    ),
+    volumeScrollSensitivity: toCount(
+      settings.volumeScrollSensitivity,
+      defaults.volumeScrollSensitivity,
+      0,
+      100,
+    ),
+    showCardStatistics: toBoolean(
+      settings.showCardStatistics,
+      defaults.showCardStatistics,
+    ),
+    downloadConcurrency: toCount(
+      settings.downloadConcurrency,
+      defaults.downloadConcurrency,
+      1,
+      3,
+    ),
+    pageConcurrency: toCount(
+      settings.pageConcurrency,
+      defaults.pageConcurrency,
+      1,
+      8,
+    ),
+    downloadRetention: {
+      rule: toOption(
+        retention.rule,
+        RETENTION_RULES,
+        defaults.downloadRetention.rule,
+      ),
+      days: toCount(retention.days, defaults.downloadRetention.days, 1, 365),
+      keepLatest: toCount(
+        retention.keepLatest,
+        defaults.downloadRetention.keepLatest,
+        1,
+        1000,
+      ),
+      quotaMb: toLimit(retention.quotaMb, defaults.downloadRetention.quotaMb),
+    },
+    autoDownload: {
+      wifiOnly: toBoolean(limits.wifiOnly, defaults.autoDownload.wifiOnly),
+      maxChaptersPerRun: toCount(
+        limits.maxChaptersPerRun,
+        defaults.autoDownload.maxChaptersPerRun,
+        1,
+        100,
+      ),
+      storageCeilingMb: toLimit(
+        limits.storageCeilingMb,
+        defaults.autoDownload.storageCeilingMb,
+      ),
+    },
+  };
+};
+
+const parseNotificationSettings = (raw: unknown): NotificationSettings => {
+  const settings = isObject(raw) ? raw : {};
+  return {
+    enabled: toBoolean(settings.enabled, defaultNotificationSettings.enabled),
+    checkIntervalMinutes: toCount(
+      settings.checkIntervalMinutes,
+      defaultNotificationSettings.checkIntervalMinutes,
+      15,
+      24 * 60,
+    ),
+  };
+};
+
+const parseProgress = (
+  raw: Record<string, unknown>,
+): Record<string, ReadingProgress> => {
+  const progress: Record<string, ReadingProgress> = {};
+  for (const [mangaId, entry] of Object.entries(raw)) {
+    if (!isObject(entry) || typeof entry.chapterId !== "string") continue;
+    progress[mangaId] = {
+      mangaId,
+      chapterId: entry.chapterId,
+      chapterNumber: String(entry.chapterNumber ?? ""),
+      page: toCount(entry.page, 0, 0, Number.MAX_SAFE_INTEGER),
+      totalPages: toCount(entry.totalPages, 0, 0, Number.MAX_SAFE_INTEGER),
+      updatedAt: toTimestamp(entry.updatedAt) ?? 0,
+    };
+  }
+  return progress;
+};
+
+const parseReadChapters = (
+  raw: Record<string, unknown>,
+): Record<string, Record<string, number>> => {
+  const readChapters: Record<string, Record<string, number>> = {};
+  for (const [mangaId, value] of Object.entries(raw)) {
+    const chapters: Record<string, number> = {};
+    if (Array.isArray(value)) {
+      for (const id of value) {
+        if (typeof id === "string") chapters[id] = 0;
+      }
+    } else if (isObject(value)) {
+      for (const [id, readAt] of Object.entries(value)) {
+        chapters[id] = Number(readAt) || 0;
+      }
+    }
+    if (Object.keys(chapters).length > 0) readChapters[mangaId] = chapters;
+  }
+  return readChapters;
+};
+
+const parseBookmarks = (raw: unknown): BookmarkedManga[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((b: unknown) => isObject(b) && typeof b.id === "string")
+    .map((b: Record<string, any>) => ({
+      ...normalizeManga(b),
+      bookmarkedAt: toTimestamp(b.bookmarkedAt) ?? 0,
+    }));
+};
+
+const parseHistory = (raw: unknown): ReadingHistoryItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (h: unknown) =>
+        isObject(h) &&
+        isObject(h.manga) &&
+        typeof h.manga.id === "string" &&
+        typeof h.lastChapterId === "string",
+    )
+    .map((h: Record<string, any>) => ({
+      manga: normalizeManga(h.manga),
+      lastReadAt: toTimestamp(h.lastReadAt) ?? 0,
+      lastChapterId: h.lastChapterId,
+      lastChapterNumber: String(h.lastChapterNumber ?? ""),
+    }));
+};
+
+// Every session column is NOT NULL, so missing fields get defaults rather
+// than failing the restore
+const parseSessions = (raw: unknown): HistoryEntry[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (e: unknown) =>
+        isObject(e) &&
+        typeof e.mangaId === "string" &&
+        typeof e.chapterId === "string" &&
+        toTimestamp(e.startedAt) !== null,
+    )
+    .map((e: Record<string, any>) => ({
+      id: toCount(e.id, 0, 0, Number.MAX_SAFE_INTEGER),
+      mangaId: e.mangaId,
+      mangaTitle: typeof e.mangaTitle === "string" ? e.mangaTitle : "",
+      chapterId: e.chapterId,
+      chapterNumber: String(e.chapterNumber ?? ""),
+      readerType: toOption(
+        e.readerType,
+        READER_TYPES,
+        defaultSettings.readerType,
+      ),
+      startedAt: e.startedAt,
+      endedAt: Math.max(e.startedAt, toTimestamp(e.endedAt) ?? e.startedAt),
+      pagesRead: toCount(e.pagesRead, 0, 0, Number.MAX_SAFE_INTEGER),
+      lastPage: toCount(e.lastPage, 0, 0, Number.MAX_SAFE_INTEGER),
+      totalPages: toCount(e.totalPages, 0, 0, Number.MAX_SAFE_INTEGER),
+    }));
+};
+
+const parseChapterCounts = (
+  raw: Record<string, unknown>,
+): Record<string, ChapterCountRecord> => {
+  const counts: Record<string, ChapterCountRecord> = {};
+  for (const [mangaId, entry] of Object.entries(raw)) {
+    if (!isObject(entry) || typeof entry.lastChapterCount !== "number") {
+      continue;
+    }
+    counts[mangaId] = {
+      mangaId,
+      lastChapterCount: toCount(
+        entry.lastChapterCount,
+        0,
+        0,
+        Number.MAX_SAFE_INTEGER,
+      ),
+      lastCheckedAt: toTimestamp(entry.lastCheckedAt) ?? 0,
+      latestChapterNumber: String(entry.latestChapterNumber ?? "0"),
+      latestUploadAt: toTimestamp(entry.latestUploadAt) ?? undefined,
+    };
+  }
+  return counts;
+};
+
+export const parseBackup = (contents: string): LibraryBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new BackupFormatError("The selected file is not valid JSON.");
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError("The selected file is not a library backup.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    throw new BackupFormatError(
+      "This backup was made by a newer version of the app.",
+    );
+  }
+  if (!isObject(parsed.data)) {
+    throw new BackupFormatError(
+      "The backup does not contain any library data.",
+    );
+  }
+
+  const data = parsed.data;
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    schemaVersion: Number(parsed.schemaVersion) || 0,
+    appVersion: String(parsed.appVersion ?? "unknown"),
+    createdAt: Number(parsed.createdAt) || 0,
+    data: {
+      bookmarks: parseBookmarks(data.bookmarks),
+      history: parseHistory(data.history),
+      readChapters: isObject(data.readChapters)
+        ? parseReadChapters(data.readChapters)
+        : {},
+      progress: isObject(data.progress) ? parseProgress(data.progress) : {},
+      settings: parseSettings(data.settings),
+      notificationSettings: parseNotificationSettings(
+        data.notificationSettings,
+      ),
+      chapterCounts: isObject(data.chapterCounts)
+        ? parseChapterCounts(data.chapterCounts)
+        : {},
+      sessions: parseSessions(data.sessions),
+      categories: parseCategories(data.categories),
+      annotations: parseAnnotations(data.annotations),
+    },
+  };
+};
+
+export const backupService = {
+  async createBackup(): Promise<LibraryBackup> {
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      appVersion: Constants.expoConfig?.version || "1.0.0",
+      createdAt: Date.now(),
+      data: await collectLibrary(),
+    };
+  },
+
+  async exportBackup(): Promise<{
+    success: boolean;
+    filePath?: string;
+    error?: string;
+  }> {
+    try {
+      const backup = await this.createBackup();
+      const cacheDir = (FileSystem as any).cacheDirectory || "";
+      const date = new Date(backup.createdAt).toISOString().slice(0, 10);
+      const filePath = `${cacheDir}mangareader-backup-${date}.json`;
+
+      await FileSystem.writeAsStringAsync(filePath, JSON.stringify(backup));
+
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (!isAvailable) {
+        return {
+          success: false,
+          error: "Sharing is not available on this device",
+        };
+      }
+
+      await Sharing.shareAsync(filePath, {
+        mimeType: "application/json",
+        dialogTitle: "Save Library Backup",
+        UTI: "public.json",
+      });
+
+      return { success: true, filePath };
+    } catch (error) {
+      console.error("Backup export failed:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to create backup",
+      };
+    }
+  },
+
+  async pickBackup(): Promise<LibraryBackup | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ["application/json", "text/plain", "*/*"],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.[0]) {
+      return null;
+    }
+
+    const contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+    return parseBackup(contents);
+  },
+
+  async previewRestore(
+    backup: LibraryBackup,
+    mode: RestoreMode,
+  ): Promise<RestoreSummary> {
+    const current = await collectLibrary();
+    const next = resolveRestoredData(current, backup.data, mode);
+    return summarize(current, next, mode);
+  },
+
+  async restoreBackup(
+    backup: LibraryBackup,
+    mode: RestoreMode,
+  ): Promise<RestoreSummary> {
+    const current = await collectLibrary();
+    const next = resolveRestoredData(current, backup.data, mode);
+    const summary = summarize(current, next, mode);
+
+    await writeLibrary(next, mode);
+
+    if (summary.settingsChanged) {
+      await notificationService.saveNotificationSettings(
+        next.notificationSettings,
+      );
+    }
+
+    return summary;
+  },
+
+  formatSummary(summary: RestoreSummary): string {
+    const lines = [
+      `Bookmarks: ${summary.bookmarks.added} new` +
+        (summary.bookmarks.removed > 0
+          ? `, ${summary.bookmarks.removed} removed`
+          : "") +
+        `, ${summary.bookmarks.unchanged} kept`,
+      `History: ${summary.history.added} new, ${summary.history.updated} updated` +
+        (summary.history.removed > 0
+          ? `, ${summary.history.removed} removed`
+          : ""),
+      `Read chapters: ${summary.readChapters.added} marked read` +
+        (summary.readChapters.removed > 0
+          ? `, ${summary.readChapters.removed} unmarked`
+          : "") +
+        ` across ${summary.readChapters.manga} manga`,
+      `Reading progress: ${summary.progress.added} new, ${summary.progress.updated} updated` +
+        (summary.progress.removed > 0
+          ? `, ${summary.progress.removed} removed`
+          : ""),
+      `Reading sessions: ${summary.sessions.added} new` +
+        (summary.sessions.removed > 0
+          ? `, ${summary.sessions.removed} removed`
+          : ""),
+      `Categories: ${summary.categories.added} new` +
+        (summary.categories.removed > 0
+          ? `, ${summary.categories.removed} removed`
+          : ""),
+      `Notes & ratings: ${summary.annotations.added} new, ${summary.annotations.updated} updated` +
+        (summary.annotations.removed > 0
+          ? `, ${summary.annotations.removed} removed`
+          : ""),
+      summary.settingsChanged
+        ? "Settings will be replaced"
+        : "Settings unchanged",
+    ];
+    return lines.join("\n");
+  },
+};
@@ -0,0 +1,267 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase } from "./database";
+
+export interface Category {
+  id: number;
+  name: string;
+}
+
+// Backups refer to categories by name since row ids differ between devices.
+export interface CategorySnapshot {
+  name: string;
+  mangaIds: string[];
+}
+
+export const DEFAULT_CATEGORIES = [
+  "Reading",
+  "Plan to Read",
+  "Completed",
+  "On Hold",
+  "Dropped",
+];
+
+export class CategoryNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CategoryNameError";
+  }
+}
+
+const normalizeName = (name: string): string => {
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new CategoryNameError("Category name can't be empty.");
+  }
+  return normalized;
+};
+
+const placeholders = (values: unknown[]) => values.map(() => "?").join(", ");
+
+const appendToCategory = (
+  db: SQLiteDatabase,
+  categoryId: number,
+  mangaId: string,
+) =>
+  db.runAsync(
+    "INSERT OR IGNORE INTO bookmark_categories (manga_id, category_id, sort_order) VALUES (?, ?, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM bookmark_categories WHERE category_id = ?))",
+    mangaId,
+    categoryId,
+    categoryId,
+  );
+
+const assertUniqueName = async (
+  db: SQLiteDatabase,
+  name: string,
+  exceptId: number = -1,
+) => {
+  const existing = await db.getFirstAsync(
+    "SELECT 1 FROM categories WHERE name = ? AND id != ?",
+    name,
+    exceptId,
+  );
+  if (existing) {
+    throw new CategoryNameError(`A category named "${name}" already exists.`);
+  }
+};
+
+export const replaceCategories = async (
+  db: SQLiteDatabase,
+  snapshots: CategorySnapshot[],
+) => {
+  await db.execAsync(
+    "DELETE FROM bookmark_categories; DELETE FROM categories;",
+  );
+  for (const [index, snapshot] of snapshots.entries()) {
+    const result = await db.runAsync(
+      "INSERT OR IGNORE INTO categories (name, sort_order) VALUES (?, ?)",
+      snapshot.name,
+      index,
+    );
+    if (result.changes === 0) continue;
+    for (const [position, mangaId] of snapshot.mangaIds.entries()) {
+      await db.runAsync(
+        "INSERT OR IGNORE INTO bookmark_categories (manga_id, category_id, sort_order) VALUES (?, ?, ?)",
+        mangaId,
+        result.lastInsertRowId,
+        position,
+      );
+    }
+  }
+};
+
+export const categories = {
+  async getCategories(): Promise<Category[]> {
+    try {
+      const db = await getDatabase();
+      return await db.getAllAsync<Category>(
+        "SELECT id, name FROM categories ORDER BY sort_order, id",
+      );
+    } catch {
+      return [];
+    }
+  },
+
+  // categoryId -> bookmarked manga ids in their saved order
+  async getMembership(): Promise<Record<number, string[]>> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{
+        category_id: number;
+        manga_id: string;
+      }>(
+        "SELECT bc.category_id, bc.manga_id FROM bookmark_categories bc JOIN bookmarks b ON b.manga_id = bc.manga_id ORDER BY bc.category_id, bc.sort_order",
+      );
+      const membership: Record<number, string[]> = {};
+      for (const row of rows) {
+        (membership[row.category_id] ||= []).push(row.manga_id);
+      }
+      return membership;
+    } catch {
+      return {};
+    }
+  },
+
+  async getMangaCategoryIds(mangaId: string): Promise<number[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ category_id: number }>(
+        "SELECT category_id FROM bookmark_categories WHERE manga_id = ?",
+        mangaId,
+      );
+      return rows.map((row) => row.category_id);
+    } catch {
+      return [];
+    }
+  },
+
+  async createCategory(name: string): Promise<Category> {
+    const normalized = normalizeName(name);
+    const db = await getDatabase();
+    await assertUniqueName(db, normalized);
+    const result = await db.runAsync(
+      "INSERT INTO categories (name, sort_order) VALUES (?, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM categories))",
+      normalized,
+    );
+    return { id: result.lastInsertRowId, name: normalized };
+  },
+
+  async renameCategory(id: number, name: string): Promise<void> {
+    const normalized = normalizeName(name);
+    const db = await getDatabase();
+    await assertUniqueName(db, normalized, id);
+    await db.runAsync(
+      "UPDATE categories SET name = ? WHERE id = ?",
+      normalized,
+      id,
+    );
+  },
+
+  async deleteCategory(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync(
+        "DELETE FROM bookmark_categories WHERE category_id = ?",
+        id,
+      );
+      await txn.runAsync(
+        "DELETE FROM auto_download_categories WHERE category_id = ?",
+        id,
+      );
+      await txn.runAsync("DELETE FROM categories WHERE id = ?", id);
+    });
+  },
+
+  async reorderCategories(ids: number[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const [index, id] of ids.entries()) {
+        await txn.runAsync(
+          "UPDATE categories SET sort_order = ? WHERE id = ?",
+          index,
+          id,
+        );
+      }
+    });
+  },
+
+  // Categories the manga stays in keep its position; new ones get it at the end.
+  async setMangaCategories(
+    mangaId: string,
+    categoryIds: number[],
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync(
+        `DELETE FROM bookmark_categories WHERE manga_id = ? AND category_id NOT IN (${placeholders(categoryIds)})`,
+        mangaId,
+        ...categoryIds,
+      );
+      for (const categoryId of categoryIds) {
+        await appendToCategory(txn, categoryId, mangaId);
+      }
+    });
+  },
+
+  // Without a source category the targets replace every existing membership.
+  async moveManga(
+    mangaIds: string[],
+    fromCategoryId: number | null,
+    toCategoryIds: number[],
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const mangaId of mangaIds) {
+        if (fromCategoryId === null) {
+          await txn.runAsync(
+            `DELETE FROM bookmark_categories WHERE manga_id = ? AND category_id NOT IN (${placeholders(toCategoryIds)})`,
+            mangaId,
+            ...toCategoryIds,
+          );
+        } else if (!toCategoryIds.includes(fromCategoryId)) {
+          await txn.runAsync(
+            "DELETE FROM bookmark_categories WHERE manga_id = ? AND category_id = ?",
+            mangaId,
+            fromCategoryId,
+          );
+        }
+        for (const categoryId of toCategoryIds) {
+          await appendToCategory(txn, categoryId, mangaId);
+        }
+      }
+    });
+  },
+
+  async removeManga(categoryId: number, mangaIds: string[]): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `DELETE FROM bookmark_categories WHERE category_id = ? AND manga_id IN (${placeholders(mangaIds)})`,
+      categoryId,
+      ...mangaIds,
+    );
+  },
+
+  async reorderManga(categoryId: number, mangaIds: string[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const [index, mangaId] of mangaIds.entries()) {
+        await txn.runAsync(
+          "UPDATE bookmark_categories SET sort_order = ? WHERE category_id = ? AND manga_id = ?",
+          index,
+          categoryId,
+          mangaId,
+        );
+      }
+    });
+  },
+
+  async exportAll(): Promise<CategorySnapshot[]> {
+    const [list, membership] = await Promise.all([
+      this.getCategories(),
+      this.getMembership(),
+    ]);
+    return list.map((category) => ({
+      name: category.name,
+      mangaIds: membership[category.id] || [],
+    }));
+  },
+};
@@ -0,0 +1,370 @@
+import * as SQLite from "expo-sqlite";
+import type {
+  BookmarkedManga,
+  ReadingHistoryItem,
+  ReadingProgress,
+} from "./storage";
+import type { DownloadedChapter, DownloadedMangaInfo } from "./downloadManager";
+import type { MangaReadState } from "./readState";
+
+const DATABASE_NAME = "mangareader.db";
+
+// Manga objects are stored as JSON next to the columns we sort and look up
+// by, so model changes don't need a table rebuild.
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+
+  CREATE TABLE IF NOT EXISTS bookmarks (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    bookmarked_at INTEGER NOT NULL,
+    manga TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_bookmarks_bookmarked_at
+    ON bookmarks (bookmarked_at DESC);
+
+  CREATE TABLE IF NOT EXISTS history (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    last_read_at INTEGER NOT NULL,
+    last_chapter_id TEXT NOT NULL,
+    last_chapter_number TEXT NOT NULL,
+    manga TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_history_last_read_at
+    ON history (last_read_at DESC);
+
+  CREATE TABLE IF NOT EXISTS reading_progress (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    chapter_id TEXT NOT NULL,
+    chapter_number TEXT NOT NULL,
+    page INTEGER NOT NULL,
+    total_pages INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS read_state (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    chapter_count INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS read_chapters (
+    manga_id TEXT NOT NULL,
+    chapter_id TEXT NOT NULL,
+    chapter_number TEXT,
+    read_at INTEGER NOT NULL,
+    PRIMARY KEY (manga_id, chapter_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS downloads (
+    chapter_id TEXT PRIMARY KEY NOT NULL,
+    manga_id TEXT NOT NULL,
+    manga_title TEXT NOT NULL,
+    chapter_number TEXT NOT NULL,
+    pages TEXT NOT NULL,
+    downloaded_at INTEGER NOT NULL,
+    size_in_bytes INTEGER NOT NULL,
+    page_count INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_downloads_manga_id ON downloads (manga_id);
+  CREATE INDEX IF NOT EXISTS idx_downloads_downloaded_at
+    ON downloads (downloaded_at);
+
+  CREATE TABLE IF NOT EXISTS reading_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    manga_id TEXT NOT NULL,
+    manga_title TEXT NOT NULL,
+    chapter_id TEXT NOT NULL,
+    chapter_number TEXT NOT NULL,
+    reader_type TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER NOT NULL,
+    pages_read INTEGER NOT NULL,
+    last_page INTEGER NOT NULL,
+    total_pages INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_started_at
+    ON reading_sessions (started_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_manga_id
+    ON reading_sessions (manga_id);
+
+  CREATE TABLE IF NOT EXISTS downloaded_manga (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    info TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS categories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    sort_order INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS bookmark_categories (
+    manga_id TEXT NOT NULL,
+    category_id INTEGER NOT NULL,
+    sort_order INTEGER NOT NULL,
+    PRIMARY KEY (manga_id, category_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_bookmark_categories_category
+    ON bookmark_categories (category_id, sort_order);
+
+  CREATE TABLE IF NOT EXISTS annotations (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    score INTEGER,
+    notes TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    started_at INTEGER,
+    finished_at INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS response_cache (
+    url TEXT PRIMARY KEY NOT NULL,
+    body TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    accessed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_response_cache_accessed_at
+    ON response_cache (accessed_at);
+
+  CREATE TABLE IF NOT EXISTS group_preferences (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    preferred TEXT NOT NULL,
+    blocked TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS followed_authors (
+    author_id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    known_manga TEXT NOT NULL,
+    followed_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS manga_lists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS manga_list_items (
+    list_id INTEGER NOT NULL,
+    manga_id TEXT NOT NULL,
+    manga TEXT NOT NULL,
+    sort_order INTEGER NOT NULL,
+    PRIMARY KEY (list_id, manga_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS download_queue (
+    chapter_id TEXT PRIMARY KEY NOT NULL,
+    manga_id TEXT NOT NULL,
+    chapter_number TEXT NOT NULL,
+    manga TEXT NOT NULL,
+    data_saver INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    page_count INTEGER NOT NULL,
+    error TEXT,
+    queued_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS download_pins (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    pinned_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auto_download_manga (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    enabled_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auto_download_categories (
+    category_id INTEGER PRIMARY KEY NOT NULL,
+    enabled_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auto_download_tracked (
+    manga_id TEXT PRIMARY KEY NOT NULL,
+    tracked_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auto_download_seen (
+    manga_id TEXT NOT NULL,
+    chapter_id TEXT NOT NULL,
+    PRIMARY KEY (manga_id, chapter_id)
+  );
+`;
+
+export interface HistoryRow {
+  manga_id: string;
+  last_read_at: number;
+  last_chapter_id: string;
+  last_chapter_number: string;
+  manga: string;
+}
+
+export interface ReadingProgressRow {
+  manga_id: string;
+  chapter_id: string;
+  chapter_number: string;
+  page: number;
+  total_pages: number;
+  updated_at: number;
+}
+
+export interface ReadStateRow {
+  manga_id: string;
+  chapter_count: number;
+  updated_at: number;
+}
+
+export interface ReadChapterRow {
+  manga_id: string;
+  chapter_id: string;
+  chapter_number: string | null;
+  read_at: number;
+}
+
+export interface DownloadRow {
+  chapter_id: string;
+  manga_id: string;
+  manga_title: string;
+  chapter_number: string;
+  pages: string;
+  downloaded_at: number;
+  size_in_bytes: number;
+  page_count: number;
+}
+
+let pendingDatabase: Promise<SQLite.SQLiteDatabase> | null = null;
+
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!pendingDatabase) {
+    pendingDatabase = SQLite.openDatabaseAsync(DATABASE_NAME)
+      .then(async (db) => {
+        await db.execAsync(SCHEMA);
+        return db;
+      })
+      .catch((error) => {
+        pendingDatabase = null;
+        throw error;
+      });
+  }
+  return pendingDatabase;
+};
+
+export const toHistoryItem = (row: HistoryRow): ReadingHistoryItem => ({
+  manga: JSON.parse(row.manga),
+  lastReadAt: row.last_read_at,
+  lastChapterId: row.last_chapter_id,
+  lastChapterNumber: row.last_chapter_number,
+});
+
+export const toReadingProgress = (
+  row: ReadingProgressRow,
+): ReadingProgress => ({
+  mangaId: row.manga_id,
+  chapterId: row.chapter_id,
+  chapterNumber: row.chapter_number,
+  page: row.page,
+  totalPages: row.total_pages,
+  updatedAt: row.updated_at,
+});
+
+export const toDownloadedChapter = (row: DownloadRow): DownloadedChapter => ({
+  chapterId: row.chapter_id,
+  mangaId: row.manga_id,
+  mangaTitle: row.manga_title,
+  chapterNumber: row.chapter_number,
+  pages: JSON.parse(row.pages),
+  downloadedAt: row.downloaded_at,
+  sizeInBytes: row.size_in_bytes,
+  pageCount: row.page_count,
+  totalSize: row.size_in_bytes,
+});
+
+export const writeBookmark = (
+  db: SQLite.SQLiteDatabase,
+  bookmark: BookmarkedManga,
+  replace: boolean = true,
+) =>
+  db.runAsync(
+    `INSERT OR ${replace ? "REPLACE" : "IGNORE"} INTO bookmarks (manga_id, bookmarked_at, manga) VALUES (?, ?, ?)`,
+    bookmark.id,
+    bookmark.bookmarkedAt,
+    JSON.stringify(bookmark),
+  );
+
+export const writeHistoryItem = (
+  db: SQLite.SQLiteDatabase,
+  item: ReadingHistoryItem,
+) =>
+  db.runAsync(
+    "INSERT OR REPLACE INTO history (manga_id, last_read_at, last_chapter_id, last_chapter_number, manga) VALUES (?, ?, ?, ?, ?)",
+    item.manga.id,
+    item.lastReadAt,
+    item.lastChapterId,
+    item.lastChapterNumber,
+    JSON.stringify(item.manga),
+  );
+
+export const writeReadingProgress = (
+  db: SQLite.SQLiteDatabase,
+  progress: ReadingProgress,
+) =>
+  db.runAsync(
+    "INSERT OR REPLACE INTO reading_progress (manga_id, chapter_id, chapter_number, page, total_pages, updated_at) VALUES (?, ?, ?, ?, ?, ?)",
+    progress.mangaId,
+    progress.chapterId,
+    progress.chapterNumber,
+    progress.page,
+    progress.totalPages,
+    progress.updatedAt,
+  );
+
+export const writeReadState = async (
+  db: SQLite.SQLiteDatabase,
+  mangaId: string,
+  state: MangaReadState,
+) => {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO read_state (manga_id, chapter_count, updated_at) VALUES (?, ?, ?)",
+    mangaId,
+    state.chapterCount,
+    state.updatedAt,
+  );
+  for (const [chapterId, readAt] of Object.entries(state.chapters)) {
+    await db.runAsync(
+      "INSERT OR REPLACE INTO read_chapters (manga_id, chapter_id, read_at) VALUES (?, ?, ?)",
+      mangaId,
+      chapterId,
+      readAt,
+    );
+  }
+};
+
+export const writeDownload = (
+  db: SQLite.SQLiteDatabase,
+  chapter: DownloadedChapter,
+) =>
+  db.runAsync(
+    "INSERT OR REPLACE INTO downloads (chapter_id, manga_id, manga_title, chapter_number, pages, downloaded_at, size_in_bytes, page_count) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    chapter.chapterId,
+    chapter.mangaId,
+    chapter.mangaTitle,
+    chapter.chapterNumber,
+    JSON.stringify(chapter.pages),
+    chapter.downloadedAt,
+    chapter.sizeInBytes,
+    chapter.pageCount,
+  );
+
+export const writeDownloadedMangaInfo = (
+  db: SQLite.SQLiteDatabase,
+  info: DownloadedMangaInfo,
+) =>
+  db.runAsync(
+    "INSERT OR REPLACE INTO downloaded_manga (manga_id, info) VALUES (?, ?)",
+    info.mangaId,
+    JSON.stringify(info),
+  );
@@ -1,9 +1,15 @@
 import * as FileSystem from "expo-file-system/legacy";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import { Platform } from "react-native";
-import { mangadexApi, Manga } from "./mangadex";
+import { Manga } from "./mangadex";
+import {
+  getDatabase,
+  toDownloadedChapter,
+  writeDownload,
+  writeDownloadedMangaInfo,
+  DownloadRow,
+} from "./database";
 
 const getDownloadsDir = () => {
   const docDir = (FileSystem as any).documentDirectory || "";
@@ -11,9 +17,10 @@ const getDownloadsDir = () => {
 };
 
 const DOWNLOADS_DIR = getDownloadsDir();
-const DOWNLOADS_KEY = "@mangareader_downloads";
-const MANGA_INFO_KEY = "@mangareader_manga_info";
-const AUTO_DELETE_DAYS = 7;
+
+// Typical MangaDex page sizes, for estimating a download before it starts
+const ESTIMATED_PAGE_BYTES = 400 * 1024;
+const ESTIMATED_DATA_SAVER_PAGE_BYTES = 120 * 1024;
 
 export interface DownloadedChapter {
   chapterId: string;
@@ -27,70 +34,94 @@ export interface DownloadedChapter {
   totalSize: number;
 }
 
-export interface DownloadedMangaInfo {
+export interface DownloadedMangaInfo extends Omit<Manga, "id"> {
   mangaId: string;
-  title: string;
-  description: string;
-  status: string;
-  year: number | null;
-  type: "Manga" | "Manhwa" | "Manhua";
-  tags: string[];
-  author: string;
-  coverUrl: string | null;
   localCoverPath: string | null;
   downloadedAt: number;
 }
 
-export interface DownloadProgress {
-  chapterId: string;
-  progress: number;
-  status: "downloading" | "completed" | "failed" | "cancelled";
-}
+class DownloadManager {
+  getChapterDir(chapterId: string): string {
+    return DOWNLOADS_DIR + chapterId + "/";
+  }
 
-type ProgressCallback = (progress: DownloadProgress) => void;
+  getPagePath(chapterId: string, index: number): string {
+    return (
+      this.getChapterDir(chapterId) +
+      `page_${index.toString().padStart(3, "0")}.jpg`
+    );
+  }
 
-class DownloadManager {
-  private activeDownloads: Map<string, { cancelled: boolean }> = new Map();
+  estimateSize(pageCount: number, dataSaver: boolean): number {
+    return (
+      pageCount *
+      (dataSaver ? ESTIMATED_DATA_SAVER_PAGE_BYTES : ESTIMATED_PAGE_BYTES)
+    );
+  }
 
   async init(): Promise<void> {
     const dirInfo = await FileSystem.getInfoAsync(DOWNLOADS_DIR);
     if (!dirInfo.exists) {
       await FileSystem.makeDirectoryAsync(DOWNLOADS_DIR, { intermediates: true });
     }
-    await this.cleanupOldDownloads();
   }
 
   async getDownloadedChapters(): Promise<DownloadedChapter[]> {
     try {
-      const data = await AsyncStorage.getItem(DOWNLOADS_KEY);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<DownloadRow>(
+        "SELECT * FROM downloads ORDER BY downloaded_at",
+      );
+      return rows.map(toDownloadedChapter);
     } catch {
       return [];
     }
   }
 
   async isChapterDownloaded(chapterId: string): Promise<boolean> {
-    const downloads = await this.getDownloadedChapters();
-    return downloads.some((d) => d.chapterId === chapterId);
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync(
+        "SELECT 1 FROM downloads WHERE chapter_id = ?",
+        chapterId,
+      );
+      return row !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  private async getDownloadRecord(
+    chapterId: string,
+  ): Promise<DownloadedChapter | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<DownloadRow>(
+        "SELECT * FROM downloads WHERE chapter_id = ?",
+        chapterId,
+      );
+      return row ? toDownloadedChapter(row) : null;
+    } catch {
+      return null;
+    }
   }
 
   async getDownloadedChapter(chapterId: string): Promise<DownloadedChapter | null> {
-    const downloads = await this.getDownloadedChapters();
-    const chapter = downloads.find((d) => d.chapterId === chapterId);
+    const chapter = await this.getDownloadRecord(chapterId);
     
     if (!chapter) return null;
-    
-    const chapterDir = DOWNLOADS_DIR + chapterId + "/";
-    const dirInfo = await FileSystem.getInfoAsync(chapterDir);
-    
+
+    const dirInfo = await FileSystem.getInfoAsync(
+      this.getChapterDir(chapterId),
+    );
+
     if (!dirInfo.exists) {
       return null;
     }
     
     const verifiedPages: string[] = [];
     for (let i = 0; i < chapter.pageCount; i++) {
-      const filename = `page_${i.toString().padStart(3, "0")}.jpg`;
-      const localPath = chapterDir + filename;
+      const localPath = this.getPagePath(chapterId, i);
       const fileInfo = await FileSystem.getInfoAsync(localPath);
       if (fileInfo.exists) {
         verifiedPages.push(localPath);
@@ -113,9 +144,12 @@ class DownloadManager {
 
   async getSavedMangaInfo(mangaId: string): Promise<DownloadedMangaInfo | null> {
     try {
-      const data = await AsyncStorage.getItem(MANGA_INFO_KEY);
-      const allMangaInfo: Record<string, DownloadedMangaInfo> = data ? JSON.parse(data) : {};
-      return allMangaInfo[mangaId] || null;
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ info: string }>(
+        "SELECT info FROM downloaded_manga WHERE manga_id = ?",
+        mangaId,
+      );
+      return row ? JSON.parse(row.info) : null;
     } catch {
       return null;
     }
@@ -123,9 +157,11 @@ class DownloadManager {
 
   async getAllSavedMangaInfo(): Promise<DownloadedMangaInfo[]> {
     try {
-      const data = await AsyncStorage.getItem(MANGA_INFO_KEY);
-      const allMangaInfo: Record<string, DownloadedMangaInfo> = data ? JSON.parse(data) : {};
-      return Object.values(allMangaInfo);
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ info: string }>(
+        "SELECT info FROM downloaded_manga",
+      );
+      return rows.map((row) => JSON.parse(row.info));
     } catch {
       return [];
     }
@@ -133,9 +169,13 @@ class DownloadManager {
 
   async saveMangaInfo(manga: Manga): Promise<DownloadedMangaInfo | null> {
     try {
-      const existingInfo = await this.getSavedMangaInfo(manga.id);
+      const { id, ...details } = manga;
+      const existingInfo = await this.getSavedMangaInfo(id);
       if (existingInfo) {
-        return existingInfo;
+        // Refresh the details but keep the cover we already saved
+        const updatedInfo = { ...existingInfo, ...details };
+        await writeDownloadedMangaInfo(await getDatabase(), updatedInfo);
+        return updatedInfo;
       }
 
       const mangaDir = DOWNLOADS_DIR + "manga_" + manga.id + "/";
@@ -160,23 +200,14 @@ class DownloadManager {
       }
 
       const mangaInfo: DownloadedMangaInfo = {
-        mangaId: manga.id,
-        title: manga.title,
-        description: manga.description,
-        status: manga.status,
-        year: manga.year,
-        type: manga.type,
-        tags: manga.tags,
-        author: manga.author,
-        coverUrl: manga.coverUrl,
+        ...details,
+        mangaId: id,
         localCoverPath,
         downloadedAt: Date.now(),
       };
 
-      const data = await AsyncStorage.getItem(MANGA_INFO_KEY);
-      const allMangaInfo: Record<string, DownloadedMangaInfo> = data ? JSON.parse(data) : {};
-      allMangaInfo[manga.id] = mangaInfo;
-      await AsyncStorage.setItem(MANGA_INFO_KEY, JSON.stringify(allMangaInfo));
+      const db = await getDatabase();
+      await writeDownloadedMangaInfo(db, mangaInfo);
 
       return mangaInfo;
     } catch (err) {
@@ -193,136 +224,52 @@ class DownloadManager {
         await FileSystem.deleteAsync(mangaDir, { idempotent: true });
       }
 
-      const data = await AsyncStorage.getItem(MANGA_INFO_KEY);
-      const allMangaInfo: Record<string, DownloadedMangaInfo> = data ? JSON.parse(data) : {};
-      delete allMangaInfo[mangaId];
-      await AsyncStorage.setItem(MANGA_INFO_KEY, JSON.stringify(allMangaInfo));
+      const db = await getDatabase();
+      await db.runAsync(
+        "DELETE FROM downloaded_manga WHERE manga_id = ?",
+        mangaId,
+      );
     } catch (err) {
       console.error("Failed to delete manga info:", err);
     }
   }
 
-  async downloadChapter(
-    chapterId: string,
-    mangaId: string,
-    mangaTitle: string,
-    chapterNumber: string,
-    dataSaver: boolean = false,
-    onProgress?: ProgressCallback,
-    manga?: Manga
-  ): Promise<boolean> {
-    try {
-      const alreadyDownloaded = await this.isChapterDownloaded(chapterId);
-      if (alreadyDownloaded) {
-        onProgress?.({ chapterId, progress: 100, status: "completed" });
-        return true;
-      }
-
-      this.activeDownloads.set(chapterId, { cancelled: false });
-
-      if (manga) {
-        await this.saveMangaInfo(manga);
-      } else {
-        const existingInfo = await this.getSavedMangaInfo(mangaId);
-        if (!existingInfo) {
-          try {
-            const mangaDetails = await mangadexApi.getMangaDetails(mangaId);
-            if (mangaDetails) {
-              await this.saveMangaInfo(mangaDetails);
-            }
-          } catch (err) {
-            console.error("Failed to fetch manga details for saving:", err);
-          }
-        }
-      }
-
-      const chapterDir = DOWNLOADS_DIR + chapterId + "/";
-      const dirInfo = await FileSystem.getInfoAsync(chapterDir);
-      if (!dirInfo.exists) {
-        await FileSystem.makeDirectoryAsync(chapterDir, { intermediates: true });
-      }
-
-      const chapterData = await mangadexApi.getChapterPages(chapterId, dataSaver);
-      const pages = chapterData.pages;
-      const downloadedPages: string[] = [];
-      let totalSize = 0;
-
-      for (let i = 0; i < pages.length; i++) {
-        const downloadState = this.activeDownloads.get(chapterId);
-        if (downloadState?.cancelled) {
-          await this.cleanupPartialDownload(chapterId);
-          onProgress?.({ chapterId, progress: 0, status: "cancelled" });
-          return false;
-        }
-
-        const pageUrl = pages[i];
-        const filename = `page_${i.toString().padStart(3, "0")}.jpg`;
-        const localPath = chapterDir + filename;
-
-        try {
-          const downloadResult = await FileSystem.downloadAsync(pageUrl, localPath);
-          
-          if (downloadResult.status === 200) {
-            downloadedPages.push(localPath);
-            const fileInfo = await FileSystem.getInfoAsync(localPath);
-            if (fileInfo.exists && "size" in fileInfo) {
-              totalSize += fileInfo.size || 0;
-            }
-          }
-        } catch (err) {
-          console.error(`Failed to download page ${i}:`, err);
-        }
-
-        const progress = Math.round(((i + 1) / pages.length) * 100);
-        onProgress?.({ chapterId, progress, status: "downloading" });
-      }
-
-      if (downloadedPages.length === 0) {
-        await this.cleanupPartialDownload(chapterId);
-        onProgress?.({ chapterId, progress: 0, status: "failed" });
-        return false;
+  // Records a chapter once the download queue has every page on disk
+  async completeDownload(
+    chapter: Pick<
+      DownloadedChapter,
+      "chapterId" | "mangaId" | "mangaTitle" | "chapterNumber" | "pageCount"
+    >,
+  ): Promise<DownloadedChapter> {
+    const pages: string[] = [];
+    let totalSize = 0;
+    for (let i = 0; i < chapter.pageCount; i++) {
+      const localPath = this.getPagePath(chapter.chapterId, i);
+      const fileInfo = await FileSystem.getInfoAsync(localPath);
+      if (fileInfo.exists && "size" in fileInfo) {
+        totalSize += fileInfo.size || 0;
       }
-
-      const downloadedChapter: DownloadedChapter = {
-        chapterId,
-        mangaId,
-        mangaTitle,
-        chapterNumber,
-        pages: downloadedPages,
-        downloadedAt: Date.now(),
-        sizeInBytes: totalSize,
-        pageCount: downloadedPages.length,
-        totalSize: totalSize,
-      };
-
-      await this.saveDownload(downloadedChapter);
-      this.activeDownloads.delete(chapterId);
-      onProgress?.({ chapterId, progress: 100, status: "completed" });
-      return true;
-    } catch (error) {
-      console.error("Download failed:", error);
-      await this.cleanupPartialDownload(chapterId);
-      this.activeDownloads.delete(chapterId);
-      onProgress?.({ chapterId, progress: 0, status: "failed" });
-      return false;
+      pages.push(localPath);
     }
-  }
 
-  cancelDownload(chapterId: string): void {
-    const downloadState = this.activeDownloads.get(chapterId);
-    if (downloadState) {
-      downloadState.cancelled = true;
-    }
+    const downloadedChapter: DownloadedChapter = {
+      ...chapter,
+      pages,
+      downloadedAt: Date.now(),
+      sizeInBytes: totalSize,
+      totalSize,
+    };
+    await this.saveDownload(downloadedChapter);
+    return downloadedChapter;
   }
 
   private async saveDownload(chapter: DownloadedChapter): Promise<void> {
-    const downloads = await this.getDownloadedChapters();
-    downloads.push(chapter);
-    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+    const db = await getDatabase();
+    await writeDownload(db, chapter);
   }
 
   async deleteDownload(chapterId: string): Promise<void> {
-    const chapterDir = DOWNLOADS_DIR + chapterId + "/";
+    const chapterDir = this.getChapterDir(chapterId);
     
     try {
       const dirInfo = await FileSystem.getInfoAsync(chapterDir);
@@ -333,14 +280,16 @@ class DownloadManager {
       console.error("Failed to delete chapter files:", err);
     }
 
-    const downloads = await this.getDownloadedChapters();
-    const deletedChapter = downloads.find(d => d.chapterId === chapterId);
-    const filtered = downloads.filter((d) => d.chapterId !== chapterId);
-    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(filtered));
+    const deletedChapter = await this.getDownloadRecord(chapterId);
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM downloads WHERE chapter_id = ?", chapterId);
 
     if (deletedChapter) {
-      const remainingForManga = filtered.filter(d => d.mangaId === deletedChapter.mangaId);
-      if (remainingForManga.length === 0) {
+      const remainingForManga = await db.getFirstAsync(
+        "SELECT 1 FROM downloads WHERE manga_id = ?",
+        deletedChapter.mangaId,
+      );
+      if (!remainingForManga) {
         await this.deleteMangaInfo(deletedChapter.mangaId);
       }
     }
@@ -357,24 +306,12 @@ class DownloadManager {
       console.error("Failed to delete all downloads:", err);
     }
     
-    await AsyncStorage.removeItem(DOWNLOADS_KEY);
-    await AsyncStorage.removeItem(MANGA_INFO_KEY);
-  }
-
-  async cleanupOldDownloads(): Promise<void> {
-    const downloads = await this.getDownloadedChapters();
-    const now = Date.now();
-    const maxAge = AUTO_DELETE_DAYS * 24 * 60 * 60 * 1000;
-
-    const toDelete = downloads.filter((d) => now - d.downloadedAt > maxAge);
-    
-    for (const chapter of toDelete) {
-      await this.deleteDownload(chapter.chapterId);
-    }
+    const db = await getDatabase();
+    await db.execAsync("DELETE FROM downloads; DELETE FROM downloaded_manga;");
   }
 
-  private async cleanupPartialDownload(chapterId: string): Promise<void> {
-    const chapterDir = DOWNLOADS_DIR + chapterId + "/";
+  async cleanupPartialDownload(chapterId: string): Promise<void> {
+    const chapterDir = this.getChapterDir(chapterId);
     try {
       const dirInfo = await FileSystem.getInfoAsync(chapterDir);
       if (dirInfo.exists) {
@@ -383,17 +320,31 @@ class DownloadManager {
     } catch (err) {
       console.error("Failed to cleanup partial download:", err);
     }
-    this.activeDownloads.delete(chapterId);
   }
 
   async getTotalDownloadSize(): Promise<number> {
-    const downloads = await this.getDownloadedChapters();
-    return downloads.reduce((total, d) => total + d.sizeInBytes, 0);
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ total: number | null }>(
+        "SELECT SUM(size_in_bytes) AS total FROM downloads",
+      );
+      return row?.total || 0;
+    } catch {
+      return 0;
+    }
   }
 
   async getDownloadsByManga(mangaId: string): Promise<DownloadedChapter[]> {
-    const downloads = await this.getDownloadedChapters();
-    return downloads.filter((d) => d.mangaId === mangaId);
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<DownloadRow>(
+        "SELECT * FROM downloads WHERE manga_id = ? ORDER BY downloaded_at",
+        mangaId,
+      );
+      return rows.map(toDownloadedChapter);
+    } catch {
+      return [];
+    }
   }
 
   formatSize(bytes: number): string {
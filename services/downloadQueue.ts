@@ -0,0 +1,514 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from "./apiClient";
+import { getDatabase } from "./database";
+import { downloadManager } from "./downloadManager";
+import { mangadexApi, Chapter, Manga } from "./mangadex";
+import { MangaDexSchemaError } from "./mangadexSchema";
+import { storage, KEYS } from "./storage";
+
+// A page that fails is tried this many times before the chapter fails
+const PAGE_ATTEMPTS = 2;
+
+export type QueueStatus = "queued" | "downloading" | "paused" | "failed";
+
+export interface QueuedChapter {
+  chapterId: string;
+  mangaId: string;
+  mangaTitle: string;
+  chapterNumber: string;
+  status: QueueStatus;
+  pagesDone: number;
+  // 0 until the chapter's page list has been fetched
+  pageCount: number;
+  // Average over the current run; 0 when not downloading
+  bytesPerSecond: number;
+  error: string | null;
+  queuedAt: number;
+}
+
+export interface DownloadQueueState {
+  items: QueuedChapter[];
+  paused: boolean;
+}
+
+interface QueueEntry extends QueuedChapter {
+  manga: Manga;
+  dataSaver: boolean;
+}
+
+interface QueueRow {
+  chapter_id: string;
+  manga_id: string;
+  chapter_number: string;
+  manga: string;
+  data_saver: number;
+  status: QueueStatus;
+  page_count: number;
+  error: string | null;
+  queued_at: number;
+}
+
+export class DownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+// Runs a file system or database step, turning its failure into a reason
+// the failed list can show
+const onDevice = async <T>(task: () => Promise<T>): Promise<T> => {
+  try {
+    return await task();
+  } catch (err) {
+    console.error("Failed to save download:", err);
+    const message = err instanceof Error ? err.message : String(err);
+    throw new DownloadError(
+      /no space|ENOSPC|disk.*full|SQLITE_FULL/i.test(message)
+        ? "Not enough free space on this device. Free some up and retry."
+        : "Couldn't save the chapter on this device. Retry, or restart the app if it keeps failing.",
+    );
+  }
+};
+
+const describeFailure = (err: unknown): string => {
+  if (err instanceof DownloadError) return err.message;
+  if (err instanceof NetworkError) {
+    return err.timedOut
+      ? "MangaDex took too long to respond. Check your connection and retry."
+      : "Couldn't reach MangaDex. Check your connection and retry.";
+  }
+  if (err instanceof RateLimitError) {
+    return "MangaDex is limiting requests. Wait a moment and retry.";
+  }
+  if (err instanceof NotFoundError) {
+    return "This chapter is no longer available on MangaDex.";
+  }
+  if (err instanceof ServerError) {
+    return `MangaDex had a problem (error ${err.status}). Retry in a little while.`;
+  }
+  if (err instanceof ApiError) {
+    return `MangaDex turned down the request (error ${err.status}).`;
+  }
+  if (err instanceof MangaDexSchemaError) {
+    return "MangaDex sent a page list this app couldn't read.";
+  }
+  return "Something went wrong while downloading. Retry to try again.";
+};
+
+const toEntry = (row: QueueRow): QueueEntry => {
+  const manga: Manga = JSON.parse(row.manga);
+  return {
+    chapterId: row.chapter_id,
+    mangaId: row.manga_id,
+    mangaTitle: manga.title,
+    chapterNumber: row.chapter_number,
+    // Downloads cut off by the app closing start again from the queue
+    status: row.status === "downloading" ? "queued" : row.status,
+    pagesDone: 0,
+    pageCount: row.page_count,
+    bytesPerSecond: 0,
+    error: row.error,
+    queuedAt: row.queued_at,
+    manga,
+    dataSaver: row.data_saver === 1,
+  };
+};
+
+const toQueuedChapter = ({
+  manga,
+  dataSaver,
+  ...chapter
+}: QueueEntry): QueuedChapter => chapter;
+
+const fileExists = async (path: string) => {
+  const info = await FileSystem.getInfoAsync(path);
+  return info.exists && (!("size" in info) || (info.size || 0) > 0);
+};
+
+// Pages land under a temporary name so a half-written file is never
+// mistaken for a finished one when a chapter resumes. Resolves to the
+// page's size, or null if every attempt failed.
+const downloadPage = async (
+  url: string,
+  path: string,
+): Promise<number | null> => {
+  const partPath = `${path}.part`;
+  for (let attempt = 0; attempt < PAGE_ATTEMPTS; attempt++) {
+    try {
+      const result = await FileSystem.downloadAsync(url, partPath);
+      if (result.status === 200) {
+        const info = await FileSystem.getInfoAsync(partPath);
+        await FileSystem.moveAsync({ from: partPath, to: path });
+        return info.exists ? info.size || 0 : 0;
+      }
+    } catch (err) {
+      console.error(`Failed to download ${url}:`, err);
+    }
+  }
+  await FileSystem.deleteAsync(partPath, { idempotent: true }).catch(() => {});
+  return null;
+};
+
+class DownloadQueue {
+  private entries: Map<string, QueueEntry> = new Map();
+  private running: Map<string, { stopped: boolean }> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private state: DownloadQueueState = { items: [], paused: false };
+  private ready: Promise<void> | null = null;
+
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load().catch((err) => {
+        console.error("Failed to load the download queue:", err);
+      });
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    const db = await getDatabase();
+    const [rows, paused] = await Promise.all([
+      db.getAllAsync<QueueRow>(
+        "SELECT * FROM download_queue ORDER BY queued_at",
+      ),
+      AsyncStorage.getItem(KEYS.DOWNLOAD_QUEUE_PAUSED),
+    ]);
+    for (const row of rows) {
+      this.entries.set(row.chapter_id, toEntry(row));
+    }
+    this.state = { ...this.state, paused: paused === "true" };
+    this.emit();
+    this.pump();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): DownloadQueueState => this.state;
+
+  private emit(): void {
+    this.state = {
+      ...this.state,
+      items: [...this.entries.values()].map(toQueuedChapter),
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persist(entry: QueueEntry): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO download_queue (chapter_id, manga_id, chapter_number, manga, data_saver, status, page_count, error, queued_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      entry.chapterId,
+      entry.mangaId,
+      entry.chapterNumber,
+      JSON.stringify(entry.manga),
+      entry.dataSaver ? 1 : 0,
+      entry.status,
+      entry.pageCount,
+      entry.error,
+      entry.queuedAt,
+    );
+  }
+
+  private async forget(chapterId: string): Promise<void> {
+    this.entries.delete(chapterId);
+    this.emit();
+    const db = await getDatabase();
+    await db.runAsync(
+      "DELETE FROM download_queue WHERE chapter_id = ?",
+      chapterId,
+    );
+  }
+
+  // Progress updates stay in memory; status changes are written through
+  private update(
+    chapterId: string,
+    changes: Partial<QueueEntry>,
+    save: boolean = true,
+  ): void {
+    const entry = this.entries.get(chapterId);
+    if (!entry) return;
+    const updated = { ...entry, ...changes };
+    this.entries.set(chapterId, updated);
+    this.emit();
+    if (save) {
+      this.persist(updated).catch((err) =>
+        console.error("Failed to save the download queue:", err),
+      );
+    }
+  }
+
+  // Returns how many chapters were added; downloaded ones are skipped
+  async enqueue(
+    manga: Manga,
+    chapters: Pick<Chapter, "id" | "chapter">[],
+    dataSaver: boolean,
+  ): Promise<number> {
+    await this.init();
+    let added = 0;
+    // New chapters always go after everything already queued
+    let queuedAt = Math.max(
+      Date.now(),
+      ...[...this.entries.values()].map((entry) => entry.queuedAt + 1),
+    );
+    for (const chapter of chapters) {
+      const existing = this.entries.get(chapter.id);
+      if (existing) {
+        if (existing.status === "failed") this.resume(chapter.id);
+        continue;
+      }
+      if (await downloadManager.isChapterDownloaded(chapter.id)) continue;
+
+      const entry: QueueEntry = {
+        chapterId: chapter.id,
+        mangaId: manga.id,
+        mangaTitle: manga.title,
+        chapterNumber: chapter.chapter,
+        status: "queued",
+        pagesDone: 0,
+        pageCount: 0,
+        bytesPerSecond: 0,
+        error: null,
+        queuedAt: queuedAt++,
+        manga,
+        dataSaver,
+      };
+      this.entries.set(entry.chapterId, entry);
+      await this.persist(entry);
+      added++;
+    }
+    this.emit();
+    this.pump();
+    return added;
+  }
+
+  pause(chapterId: string): void {
+    const control = this.running.get(chapterId);
+    if (control) control.stopped = true;
+    this.update(chapterId, { status: "paused" });
+  }
+
+  resume(chapterId: string): void {
+    const control = this.running.get(chapterId);
+    // A paused download may still be winding down; once it has, pump
+    // starts it again since it's back in line
+    if (control && !control.stopped) return;
+    this.update(chapterId, { status: "queued", error: null });
+    this.pump();
+  }
+
+  async remove(chapterId: string): Promise<void> {
+    const control = this.running.get(chapterId);
+    if (control) control.stopped = true;
+    await this.forget(chapterId);
+    // A running download cleans up its own files once it stops
+    if (!control) {
+      await downloadManager.cleanupPartialDownload(chapterId);
+    }
+  }
+
+  retryFailed(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.status === "failed") this.resume(entry.chapterId);
+    }
+  }
+
+  // Takes the queue's chapters in their new order; only the order of
+  // chapters that haven't started yet changes what downloads next
+  async reorder(chapterIds: string[]): Promise<void> {
+    const moved = chapterIds
+      .map((id) => this.entries.get(id))
+      .filter((entry): entry is QueueEntry => entry !== undefined);
+    const slots = moved.map((entry) => entry.queuedAt).sort((a, b) => a - b);
+    const updated = new Map(
+      moved.map((entry, index) => [
+        entry.chapterId,
+        { ...entry, queuedAt: slots[index] },
+      ]),
+    );
+    this.entries = new Map(
+      [...this.entries.values()]
+        .map((entry) => updated.get(entry.chapterId) ?? entry)
+        .sort((a, b) => a.queuedAt - b.queuedAt)
+        .map((entry) => [entry.chapterId, entry]),
+    );
+    this.emit();
+
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const entry of updated.values()) {
+        await txn.runAsync(
+          "UPDATE download_queue SET queued_at = ? WHERE chapter_id = ?",
+          entry.queuedAt,
+          entry.chapterId,
+        );
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([...this.entries.keys()].map((id) => this.remove(id)));
+  }
+
+  async pauseAll(): Promise<void> {
+    this.state = { ...this.state, paused: true };
+    // Stopped downloads go back in line for when the queue resumes
+    for (const [chapterId, control] of this.running) {
+      control.stopped = true;
+      this.update(chapterId, { status: "queued" });
+    }
+    this.emit();
+    await AsyncStorage.setItem(KEYS.DOWNLOAD_QUEUE_PAUSED, "true");
+  }
+
+  async resumeAll(): Promise<void> {
+    this.state = { ...this.state, paused: false };
+    this.emit();
+    await AsyncStorage.setItem(KEYS.DOWNLOAD_QUEUE_PAUSED, "false");
+    this.pump();
+  }
+
+  private async pump(): Promise<void> {
+    const { downloadConcurrency } = await storage.getSettings();
+    if (this.state.paused) return;
+    for (const entry of this.entries.values()) {
+      if (this.running.size >= downloadConcurrency) break;
+      if (entry.status === "queued" && !this.running.has(entry.chapterId)) {
+        this.run(entry);
+      }
+    }
+  }
+
+  private run(entry: QueueEntry): void {
+    const { chapterId } = entry;
+    const control = { stopped: false };
+    this.running.set(chapterId, control);
+    this.update(chapterId, {
+      status: "downloading",
+      error: null,
+      bytesPerSecond: 0,
+    });
+
+    this.download(entry, control)
+      .then(async (completed) => {
+        if (completed) await this.forget(chapterId);
+      })
+      .catch((err) => {
+        console.error("Download failed:", err);
+        if (control.stopped) return;
+        this.update(chapterId, {
+          status: "failed",
+          error: describeFailure(err),
+        });
+      })
+      .finally(async () => {
+        this.running.delete(chapterId);
+        this.update(chapterId, { bytesPerSecond: 0 }, false);
+        if (!this.entries.has(chapterId)) {
+          await downloadManager.cleanupPartialDownload(chapterId);
+        }
+        this.pump();
+      });
+  }
+
+  // Resolves true once every page is on disk and the chapter is recorded,
+  // false if it was paused or removed part way
+  private async download(
+    entry: QueueEntry,
+    control: { stopped: boolean },
+  ): Promise<boolean> {
+    const { chapterId } = entry;
+    await onDevice(() => downloadManager.saveMangaInfo(entry.manga));
+    const [{ pageConcurrency }, chapterPages] = await Promise.all([
+      storage.getSettings(),
+      mangadexApi.getChapterPages(chapterId, entry.dataSaver),
+    ]);
+    const pages = chapterPages.pages;
+    if (pages.length === 0) {
+      throw new DownloadError("This chapter has no pages to download.");
+    }
+
+    const chapterDir = downloadManager.getChapterDir(chapterId);
+    await onDevice(async () => {
+      const dirInfo = await FileSystem.getInfoAsync(chapterDir);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(chapterDir, {
+          intermediates: true,
+        });
+      }
+    });
+
+    const pending: number[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      if (!(await fileExists(downloadManager.getPagePath(chapterId, i)))) {
+        pending.push(i);
+      }
+    }
+    let pagesDone = pages.length - pending.length;
+    this.update(chapterId, { pageCount: pages.length, pagesDone });
+
+    let next = 0;
+    let bytesDone = 0;
+    const startedAt = Date.now();
+    const worker = async () => {
+      while (next < pending.length && !control.stopped) {
+        const index = pending[next++];
+        const size = await downloadPage(
+          pages[index],
+          downloadManager.getPagePath(chapterId, index),
+        );
+        if (size !== null && !control.stopped) {
+          bytesDone += size;
+          const seconds = Math.max(1, (Date.now() - startedAt) / 1000);
+          this.update(
+            chapterId,
+            {
+              pagesDone: ++pagesDone,
+              bytesPerSecond: Math.round(bytesDone / seconds),
+            },
+            false,
+          );
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.max(1, Math.min(pageConcurrency, pending.length)) },
+        worker,
+      ),
+    );
+
+    if (control.stopped) return false;
+    if (pagesDone < pages.length) {
+      const missing = pages.length - pagesDone;
+      throw new DownloadError(
+        `${missing} of ${pages.length} pages couldn't be downloaded. Retry to fetch the rest.`,
+      );
+    }
+
+    await onDevice(() =>
+      downloadManager.completeDownload({
+        chapterId,
+        mangaId: entry.mangaId,
+        mangaTitle: entry.mangaTitle,
+        chapterNumber: entry.chapterNumber,
+        pageCount: pages.length,
+      }),
+    );
+    return true;
+  }
+}
+
+export const downloadQueue = new DownloadQueue();
@@ -0,0 +1,212 @@
+import { getDatabase, toDownloadedChapter, DownloadRow } from "./database";
+import { downloadManager, DownloadedChapter } from "./downloadManager";
+import { readState } from "./readState";
+import { storage, RetentionPolicy } from "./storage";
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export interface CleanupItem {
+  chapter: DownloadedChapter;
+  reason: string;
+}
+
+export interface CleanupPlan {
+  items: CleanupItem[];
+  bytes: number;
+}
+
+interface RetainedRow extends DownloadRow {
+  last_opened_at: number | null;
+}
+
+interface RetainedChapter extends DownloadedChapter {
+  // Imported chapters read without a timestamp count as read on download
+  readAt: number | null;
+  lastUsedAt: number;
+}
+
+const chapterNumber = (chapter: DownloadedChapter) =>
+  parseFloat(chapter.chapterNumber) || 0;
+
+const daysAgo = (timestamp: number, now: number) => {
+  const days = Math.floor((now - timestamp) / DAY);
+  return days === 0 ? "today" : `${days} day${days !== 1 ? "s" : ""} ago`;
+};
+
+const loadChapters = async (): Promise<RetainedChapter[]> => {
+  const db = await getDatabase();
+  const [rows, pins, readIndex] = await Promise.all([
+    db.getAllAsync<RetainedRow>(
+      "SELECT d.*, (SELECT MAX(ended_at) FROM reading_sessions s WHERE s.chapter_id = d.chapter_id) AS last_opened_at FROM downloads d",
+    ),
+    db.getAllAsync<{ manga_id: string }>("SELECT manga_id FROM download_pins"),
+    readState.getAll(),
+  ]);
+  const pinned = new Set(pins.map((pin) => pin.manga_id));
+
+  return rows
+    .filter((row) => !pinned.has(row.manga_id))
+    .map((row) => {
+      const chapter = toDownloadedChapter(row);
+      const readAt = readIndex[row.manga_id]?.chapters[row.chapter_id];
+      const read = readAt === undefined ? null : readAt || chapter.downloadedAt;
+      return {
+        ...chapter,
+        readAt: read,
+        lastUsedAt: Math.max(
+          chapter.downloadedAt,
+          read || 0,
+          row.last_opened_at || 0,
+        ),
+      };
+    });
+};
+
+const applyRule = (
+  chapters: RetainedChapter[],
+  policy: RetentionPolicy,
+  now: number,
+): Map<string, string> => {
+  const doomed = new Map<string, string>();
+  switch (policy.rule) {
+    case "afterRead":
+      for (const chapter of chapters) {
+        if (chapter.readAt !== null) {
+          doomed.set(chapter.chapterId, `Read ${daysAgo(chapter.readAt, now)}`);
+        }
+      }
+      break;
+    case "daysAfterRead":
+      for (const chapter of chapters) {
+        if (
+          chapter.readAt !== null &&
+          now - chapter.readAt >= policy.days * DAY
+        ) {
+          doomed.set(chapter.chapterId, `Read ${daysAgo(chapter.readAt, now)}`);
+        }
+      }
+      break;
+    case "keepLatest": {
+      const byManga = new Map<string, RetainedChapter[]>();
+      for (const chapter of chapters) {
+        byManga.set(chapter.mangaId, [
+          ...(byManga.get(chapter.mangaId) || []),
+          chapter,
+        ]);
+      }
+      for (const mangaChapters of byManga.values()) {
+        mangaChapters
+          .sort((a, b) => chapterNumber(b) - chapterNumber(a))
+          .slice(policy.keepLatest)
+          .forEach((chapter) =>
+            doomed.set(
+              chapter.chapterId,
+              `Older than the latest ${policy.keepLatest}`,
+            ),
+          );
+      }
+      break;
+    }
+    case "forever":
+      break;
+  }
+  return doomed;
+};
+
+export const formatQuota = (quotaMb: number) =>
+  quotaMb >= 1024 ? `${quotaMb / 1024} GB` : `${quotaMb} MB`;
+
+export const downloadRetention = {
+  describe(policy: RetentionPolicy): string {
+    const rule =
+      policy.rule === "afterRead"
+        ? "Delete once read"
+        : policy.rule === "daysAfterRead"
+          ? `Delete ${policy.days} day${policy.days !== 1 ? "s" : ""} after reading`
+          : policy.rule === "keepLatest"
+            ? `Keep the latest ${policy.keepLatest} per manga`
+            : "Keep forever";
+    return policy.quotaMb !== null
+      ? `${rule} - ${formatQuota(policy.quotaMb)} limit`
+      : rule;
+  },
+
+  // What cleanup would delete under a policy, without deleting anything
+  async planCleanup(
+    policy: RetentionPolicy,
+    now: number = Date.now(),
+  ): Promise<CleanupPlan> {
+    const chapters = await loadChapters();
+    const doomed = applyRule(chapters, policy, now);
+
+    if (policy.quotaMb !== null) {
+      const kept = chapters.filter((c) => !doomed.has(c.chapterId));
+      let total = kept.reduce((sum, c) => sum + c.totalSize, 0);
+      const quota = policy.quotaMb * MB;
+      for (const chapter of kept.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+        if (total <= quota) break;
+        doomed.set(
+          chapter.chapterId,
+          `Over the storage limit, last used ${daysAgo(chapter.lastUsedAt, now)}`,
+        );
+        total -= chapter.totalSize;
+      }
+    }
+
+    const items = chapters
+      .filter((c) => doomed.has(c.chapterId))
+      .sort(
+        (a, b) =>
+          a.mangaTitle.localeCompare(b.mangaTitle) ||
+          chapterNumber(a) - chapterNumber(b),
+      )
+      .map(({ readAt, lastUsedAt, ...chapter }) => ({
+        chapter,
+        reason: doomed.get(chapter.chapterId) as string,
+      }));
+    return {
+      items,
+      bytes: items.reduce((sum, item) => sum + item.chapter.totalSize, 0),
+    };
+  },
+
+  // Applies the saved policy, or the one given; resolves to what was deleted
+  async runCleanup(policy?: RetentionPolicy): Promise<CleanupPlan> {
+    const plan = await this.planCleanup(
+      policy || (await storage.getSettings()).downloadRetention,
+    );
+    for (const item of plan.items) {
+      await downloadManager.deleteDownload(item.chapter.chapterId);
+    }
+    return plan;
+  },
+
+  async getPinnedManga(): Promise<string[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ manga_id: string }>(
+        "SELECT manga_id FROM download_pins",
+      );
+      return rows.map((row) => row.manga_id);
+    } catch {
+      return [];
+    }
+  },
+
+  async setPinned(mangaId: string, pinned: boolean): Promise<void> {
+    const db = await getDatabase();
+    if (pinned) {
+      await db.runAsync(
+        "INSERT OR REPLACE INTO download_pins (manga_id, pinned_at) VALUES (?, ?)",
+        mangaId,
+        Date.now(),
+      );
+    } else {
+      await db.runAsync(
+        "DELETE FROM download_pins WHERE manga_id = ?",
+        mangaId,
+      );
+    }
+  },
+};
@@ -0,0 +1,196 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase } from "./database";
+import { AppSettings } from "./storage";
+
+export type ReaderType = AppSettings["readerType"];
+
+export interface HistoryEntry {
+  id: number;
+  mangaId: string;
+  mangaTitle: string;
+  chapterId: string;
+  chapterNumber: string;
+  readerType: ReaderType;
+  startedAt: number;
+  endedAt: number;
+  pagesRead: number;
+  lastPage: number;
+  totalPages: number;
+}
+
+export interface HistoryFilter {
+  from?: number;
+  to?: number;
+  mangaId?: string;
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NewSession {
+  mangaId: string;
+  mangaTitle: string;
+  chapterId: string;
+  chapterNumber: string;
+  readerType: ReaderType;
+  startPage: number;
+  totalPages: number;
+}
+
+interface SessionRow {
+  id: number;
+  manga_id: string;
+  manga_title: string;
+  chapter_id: string;
+  chapter_number: string;
+  reader_type: string;
+  started_at: number;
+  ended_at: number;
+  pages_read: number;
+  last_page: number;
+  total_pages: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const toEntry = (row: SessionRow): HistoryEntry => ({
+  id: row.id,
+  mangaId: row.manga_id,
+  mangaTitle: row.manga_title,
+  chapterId: row.chapter_id,
+  chapterNumber: row.chapter_number,
+  readerType: row.reader_type as ReaderType,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  pagesRead: row.pages_read,
+  lastPage: row.last_page,
+  totalPages: row.total_pages,
+});
+
+const buildWhere = (filter: HistoryFilter) => {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.from !== undefined) {
+    clauses.push("started_at >= ?");
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    clauses.push("started_at < ?");
+    params.push(filter.to);
+  }
+  if (filter.mangaId) {
+    clauses.push("manga_id = ?");
+    params.push(filter.mangaId);
+  }
+  const query = filter.query?.trim();
+  if (query) {
+    const pattern = `%${query.replace(/[\\%_]/g, (c) => "\\" + c)}%`;
+    clauses.push(
+      "(manga_title LIKE ? ESCAPE '\\' OR chapter_number LIKE ? ESCAPE '\\')",
+    );
+    params.push(pattern, pattern);
+  }
+
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+    params,
+  };
+};
+
+// Append-only: a row per chapter session. The one-row-per-manga "last read"
+// list in storage stays the projection screens use for resuming.
+export const replaceSessions = async (
+  db: SQLiteDatabase,
+  entries: HistoryEntry[],
+) => {
+  await db.runAsync("DELETE FROM reading_sessions");
+  for (const entry of entries) {
+    await db.runAsync(
+      "INSERT INTO reading_sessions (manga_id, manga_title, chapter_id, chapter_number, reader_type, started_at, ended_at, pages_read, last_page, total_pages) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      entry.mangaId,
+      entry.mangaTitle,
+      entry.chapterId,
+      entry.chapterNumber,
+      entry.readerType,
+      entry.startedAt,
+      entry.endedAt,
+      entry.pagesRead,
+      entry.lastPage,
+      entry.totalPages,
+    );
+  }
+};
+
+export const historyLog = {
+  async startSession(session: NewSession): Promise<number> {
+    const db = await getDatabase();
+    const now = Date.now();
+    const result = await db.runAsync(
+      "INSERT INTO reading_sessions (manga_id, manga_title, chapter_id, chapter_number, reader_type, started_at, ended_at, pages_read, last_page, total_pages) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      session.mangaId,
+      session.mangaTitle,
+      session.chapterId,
+      session.chapterNumber,
+      session.readerType,
+      now,
+      now,
+      1,
+      session.startPage,
+      session.totalPages,
+    );
+    return result.lastInsertRowId;
+  },
+
+  async updateSession(
+    id: number,
+    pagesRead: number,
+    lastPage: number,
+  ): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync(
+        "UPDATE reading_sessions SET ended_at = ?, pages_read = ?, last_page = ? WHERE id = ?",
+        Date.now(),
+        pagesRead,
+        lastPage,
+        id,
+      );
+    } catch (error) {
+      console.error("Failed to update reading session:", error);
+    }
+  },
+
+  async getEntries(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    try {
+      const db = await getDatabase();
+      const { where, params } = buildWhere(filter);
+      const rows = await db.getAllAsync<SessionRow>(
+        `SELECT * FROM reading_sessions ${where} ORDER BY started_at DESC LIMIT ? OFFSET ?`,
+        ...params,
+        filter.limit ?? DEFAULT_PAGE_SIZE,
+        filter.offset ?? 0,
+      );
+      return rows.map(toEntry);
+    } catch {
+      return [];
+    }
+  },
+
+  async getAllEntries(): Promise<HistoryEntry[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SessionRow>(
+        "SELECT * FROM reading_sessions ORDER BY started_at",
+      );
+      return rows.map(toEntry);
+    } catch {
+      return [];
+    }
+  },
+
+  async deleteEntry(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM reading_sessions WHERE id = ?", id);
+  },
+};
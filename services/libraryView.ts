@@ -0,0 +1,186 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Manga } from "./mangadex";
+import { storage, BookmarkedManga } from "./storage";
+import { readState } from "./readState";
+import { downloadManager } from "./downloadManager";
+import { notificationService } from "./notificationService";
+import { annotations, MangaAnnotation } from "./annotations";
+
+export const LIBRARY_VIEW_KEY = "@mangareader_library_view";
+
+export type LibrarySortKey =
+  | "custom"
+  | "title"
+  | "dateAdded"
+  | "lastRead"
+  | "latestUpload"
+  | "unread"
+  | "score"
+  | "dateFinished";
+
+export interface LibraryViewOptions {
+  sortBy: LibrarySortKey;
+  ascending: boolean;
+  downloadedOnly: boolean;
+  unreadOnly: boolean;
+  status: string[];
+  types: Manga["type"][];
+  // personal tags from annotations; a manga matches if it has any of them
+  userTags: string[];
+}
+
+export interface LibraryViewContext {
+  unreadCounts: Record<string, number>;
+  lastReadAt: Record<string, number>;
+  latestUploadAt: Record<string, number>;
+  downloadedIds: Set<string>;
+  annotations: Record<string, MangaAnnotation>;
+}
+
+export const defaultLibraryViewOptions: LibraryViewOptions = {
+  sortBy: "custom",
+  ascending: false,
+  downloadedOnly: false,
+  unreadOnly: false,
+  status: [],
+  types: [],
+  userTags: [],
+};
+
+// Direction each sort starts in when first picked
+export const DEFAULT_SORT_ASCENDING: Record<LibrarySortKey, boolean> = {
+  custom: false,
+  title: true,
+  dateAdded: false,
+  lastRead: false,
+  latestUpload: false,
+  unread: false,
+  score: false,
+  dateFinished: false,
+};
+
+export const libraryView = {
+  async getOptions(): Promise<LibraryViewOptions> {
+    try {
+      const data = await AsyncStorage.getItem(LIBRARY_VIEW_KEY);
+      return data
+        ? { ...defaultLibraryViewOptions, ...JSON.parse(data) }
+        : defaultLibraryViewOptions;
+    } catch {
+      return defaultLibraryViewOptions;
+    }
+  },
+
+  async saveOptions(options: LibraryViewOptions): Promise<void> {
+    await AsyncStorage.setItem(LIBRARY_VIEW_KEY, JSON.stringify(options));
+  },
+
+  async getContext(): Promise<LibraryViewContext> {
+    const [
+      unreadCounts,
+      history,
+      progress,
+      chapterCounts,
+      downloads,
+      annotationIndex,
+    ] = await Promise.all([
+      readState.getUnreadCounts(),
+      storage.getReadingHistory(),
+      storage.getAllReadingProgress(),
+      notificationService.getLastChapterCounts(),
+      downloadManager.getAllDownloads(),
+      annotations.getAll(),
+    ]);
+
+    const lastReadAt: Record<string, number> = {};
+    for (const item of history) {
+      lastReadAt[item.manga.id] = item.lastReadAt;
+    }
+    for (const entry of Object.values(progress)) {
+      lastReadAt[entry.mangaId] = Math.max(
+        lastReadAt[entry.mangaId] || 0,
+        entry.updatedAt,
+      );
+    }
+
+    const latestUploadAt: Record<string, number> = {};
+    for (const record of Object.values(chapterCounts)) {
+      if (record.latestUploadAt) {
+        latestUploadAt[record.mangaId] = record.latestUploadAt;
+      }
+    }
+
+    return {
+      unreadCounts,
+      lastReadAt,
+      latestUploadAt,
+      downloadedIds: new Set(downloads.map((chapter) => chapter.mangaId)),
+      annotations: annotationIndex,
+    };
+  },
+
+  hasActiveFilters(options: LibraryViewOptions): boolean {
+    return (
+      options.downloadedOnly ||
+      options.unreadOnly ||
+      options.status.length > 0 ||
+      options.types.length > 0 ||
+      options.userTags.length > 0
+    );
+  },
+
+  // Custom order keeps whatever order the list came in: newest bookmark
+  // first under All, the drag order inside a category.
+  isCustomOrder(options: LibraryViewOptions): boolean {
+    return options.sortBy === "custom" && !this.hasActiveFilters(options);
+  },
+
+  apply(
+    bookmarks: BookmarkedManga[],
+    options: LibraryViewOptions,
+    context: LibraryViewContext,
+  ): BookmarkedManga[] {
+    const wantedTags = new Set(options.userTags.map((t) => t.toLowerCase()));
+    const filtered = bookmarks.filter(
+      (manga) =>
+        (wantedTags.size === 0 ||
+          (context.annotations[manga.id]?.tags || []).some((tag) =>
+            wantedTags.has(tag.toLowerCase()),
+          )) &&
+        (!options.downloadedOnly || context.downloadedIds.has(manga.id)) &&
+        (!options.unreadOnly || (context.unreadCounts[manga.id] || 0) > 0) &&
+        (options.status.length === 0 ||
+          options.status.includes(manga.status)) &&
+        (options.types.length === 0 || options.types.includes(manga.type)),
+    );
+    if (options.sortBy === "custom") return filtered;
+
+    const valueOf = (manga: BookmarkedManga): number => {
+      switch (options.sortBy) {
+        case "dateAdded":
+          return manga.bookmarkedAt;
+        case "lastRead":
+          return context.lastReadAt[manga.id] || 0;
+        case "latestUpload":
+          return context.latestUploadAt[manga.id] || 0;
+        case "unread":
+          return context.unreadCounts[manga.id] || 0;
+        case "score":
+          return context.annotations[manga.id]?.score || 0;
+        case "dateFinished":
+          return context.annotations[manga.id]?.finishedAt || 0;
+        default:
+          return 0;
+      }
+    };
+
+    const direction = options.ascending ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const diff =
+        options.sortBy === "title"
+          ? a.title.localeCompare(b.title)
+          : valueOf(a) - valueOf(b);
+      return diff !== 0 ? diff * direction : a.title.localeCompare(b.title);
+    });
+  },
+};
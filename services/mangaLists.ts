@@ -0,0 +1,357 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import * as FileSystem from "expo-file-system/legacy";
+import * as DocumentPicker from "expo-document-picker";
+import * as Sharing from "expo-sharing";
+import * as Linking from "expo-linking";
+import { getDatabase } from "./database";
+import { Manga, normalizeManga } from "./mangadex";
+
+export const LIST_FILE_FORMAT = "mangareader-list";
+export const LIST_FILE_VERSION = 1;
+
+// Path the linking config maps to the list screen for shared lists
+export const SHARED_LIST_PATH = "lists/shared";
+
+// Lists are shared by MangaDex ids only; whoever opens one fetches the titles.
+const MAX_SHARED_IDS = 500;
+
+export interface MangaList {
+  id: number;
+  name: string;
+  mangaCount: number;
+  coverUrl: string | null;
+  updatedAt: number;
+}
+
+export interface SharedMangaList {
+  name: string;
+  mangaIds: string[];
+}
+
+interface ListFile extends SharedMangaList {
+  format: typeof LIST_FILE_FORMAT;
+  version: number;
+}
+
+interface MangaListRow {
+  id: number;
+  name: string;
+  updated_at: number;
+  manga_count: number;
+  first_manga: string | null;
+}
+
+export class MangaListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MangaListError";
+  }
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const normalizeName = (name: string): string => {
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new MangaListError("List name can't be empty.");
+  }
+  return normalized;
+};
+
+const placeholders = (values: unknown[]) => values.map(() => "?").join(", ");
+
+// Imported lists shouldn't fail because a list of that name already exists
+const uniqueName = async (db: SQLiteDatabase, name: string) => {
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? name : `${name} (${n})`;
+    const existing = await db.getFirstAsync(
+      "SELECT 1 FROM manga_lists WHERE name = ?",
+      candidate,
+    );
+    if (!existing) return candidate;
+  }
+};
+
+const appendToList = (db: SQLiteDatabase, listId: number, manga: Manga) =>
+  db.runAsync(
+    "INSERT OR IGNORE INTO manga_list_items (list_id, manga_id, manga, sort_order) VALUES (?, ?, ?, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM manga_list_items WHERE list_id = ?))",
+    listId,
+    manga.id,
+    JSON.stringify(manga),
+    listId,
+  );
+
+const insertList = async (
+  db: SQLiteDatabase,
+  name: string,
+  manga: Manga[],
+): Promise<MangaList> => {
+  const now = Date.now();
+  let id = 0;
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const result = await txn.runAsync(
+      "INSERT INTO manga_lists (name, created_at, updated_at) VALUES (?, ?, ?)",
+      name,
+      now,
+      now,
+    );
+    id = result.lastInsertRowId;
+    for (const item of manga) {
+      await appendToList(txn, id, item);
+    }
+  });
+  return {
+    id,
+    name,
+    mangaCount: manga.length,
+    coverUrl: manga[0]?.coverUrl || null,
+    updatedAt: now,
+  };
+};
+
+const touchList = (db: SQLiteDatabase, listId: number) =>
+  db.runAsync(
+    "UPDATE manga_lists SET updated_at = ? WHERE id = ?",
+    Date.now(),
+    listId,
+  );
+
+const toSharedList = (value: unknown): SharedMangaList => {
+  const record = (value || {}) as Record<string, unknown>;
+  const name = typeof record.name === "string" ? record.name.trim() : "";
+  const ids = Array.isArray(record.mangaIds) ? record.mangaIds : [];
+  const mangaIds = [
+    ...new Set(
+      ids.filter(
+        (id): id is string => typeof id === "string" && UUID_PATTERN.test(id),
+      ),
+    ),
+  ];
+  if (mangaIds.length === 0) {
+    throw new MangaListError("This list doesn't contain any titles.");
+  }
+  return {
+    name: name || "Shared List",
+    mangaIds: mangaIds.slice(0, MAX_SHARED_IDS),
+  };
+};
+
+export const mangaLists = {
+  async getLists(): Promise<MangaList[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<MangaListRow>(
+        "SELECT l.id, l.name, l.updated_at, COUNT(i.manga_id) AS manga_count, (SELECT manga FROM manga_list_items WHERE list_id = l.id ORDER BY sort_order LIMIT 1) AS first_manga FROM manga_lists l LEFT JOIN manga_list_items i ON i.list_id = l.id GROUP BY l.id ORDER BY l.updated_at DESC",
+      );
+      return rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        mangaCount: row.manga_count,
+        coverUrl: row.first_manga
+          ? normalizeManga(JSON.parse(row.first_manga)).coverUrl
+          : null,
+        updatedAt: row.updated_at,
+      }));
+    } catch {
+      return [];
+    }
+  },
+
+  async getList(
+    listId: number,
+  ): Promise<{ name: string; manga: Manga[] } | null> {
+    const db = await getDatabase();
+    const list = await db.getFirstAsync<{ name: string }>(
+      "SELECT name FROM manga_lists WHERE id = ?",
+      listId,
+    );
+    if (!list) return null;
+    const rows = await db.getAllAsync<{ manga: string }>(
+      "SELECT manga FROM manga_list_items WHERE list_id = ? ORDER BY sort_order",
+      listId,
+    );
+    return {
+      name: list.name,
+      manga: rows.map((row) => normalizeManga(JSON.parse(row.manga))),
+    };
+  },
+
+  async getMangaListIds(mangaId: string): Promise<number[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ list_id: number }>(
+        "SELECT list_id FROM manga_list_items WHERE manga_id = ?",
+        mangaId,
+      );
+      return rows.map((row) => row.list_id);
+    } catch {
+      return [];
+    }
+  },
+
+  async createList(name: string, manga: Manga[] = []): Promise<MangaList> {
+    const normalized = normalizeName(name);
+    const db = await getDatabase();
+    const existing = await db.getFirstAsync(
+      "SELECT 1 FROM manga_lists WHERE name = ?",
+      normalized,
+    );
+    if (existing) {
+      throw new MangaListError(`A list named "${normalized}" already exists.`);
+    }
+    return insertList(db, normalized, manga);
+  },
+
+  // Saves a list opened from MangaDex, a link or a file under a free name
+  async importList(name: string, manga: Manga[]): Promise<MangaList> {
+    const db = await getDatabase();
+    return insertList(db, await uniqueName(db, normalizeName(name)), manga);
+  },
+
+  async deleteList(listId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync(
+        "DELETE FROM manga_list_items WHERE list_id = ?",
+        listId,
+      );
+      await txn.runAsync("DELETE FROM manga_lists WHERE id = ?", listId);
+    });
+  },
+
+  // Lists the manga stays in keep its position; new ones get it at the end.
+  async setMangaLists(manga: Manga, listIds: number[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      const before = await txn.getAllAsync<{ list_id: number }>(
+        "SELECT list_id FROM manga_list_items WHERE manga_id = ?",
+        manga.id,
+      );
+      await txn.runAsync(
+        `DELETE FROM manga_list_items WHERE manga_id = ? AND list_id NOT IN (${placeholders(listIds)})`,
+        manga.id,
+        ...listIds,
+      );
+      const previous = before.map((row) => row.list_id);
+      const changed = [
+        ...listIds.filter((id) => !previous.includes(id)),
+        ...previous.filter((id) => !listIds.includes(id)),
+      ];
+      for (const listId of listIds) {
+        await appendToList(txn, listId, manga);
+      }
+      for (const listId of changed) {
+        await touchList(txn, listId);
+      }
+    });
+  },
+
+  async removeManga(listId: number, mangaIds: string[]): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync(
+        `DELETE FROM manga_list_items WHERE list_id = ? AND manga_id IN (${placeholders(mangaIds)})`,
+        listId,
+        ...mangaIds,
+      );
+      await touchList(txn, listId);
+    });
+  },
+
+  async toShared(listId: number): Promise<SharedMangaList> {
+    const list = await this.getList(listId);
+    if (!list) throw new MangaListError("This list no longer exists.");
+    return { name: list.name, mangaIds: list.manga.map((m) => m.id) };
+  },
+
+  createShareLink(list: SharedMangaList): string {
+    return Linking.createURL(SHARED_LIST_PATH, {
+      queryParams: {
+        name: list.name,
+        ids: list.mangaIds.slice(0, MAX_SHARED_IDS).join(","),
+      },
+    });
+  },
+
+  // Route params from a shared link: ids are comma separated
+  parseShareLink(params: { name?: string; ids?: string }): SharedMangaList {
+    return toSharedList({
+      name: params.name,
+      mangaIds: (params.ids || "").split(","),
+    });
+  },
+
+  async exportListFile(list: SharedMangaList): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const file: ListFile = {
+        format: LIST_FILE_FORMAT,
+        version: LIST_FILE_VERSION,
+        name: list.name,
+        mangaIds: list.mangaIds,
+      };
+      const cacheDir = (FileSystem as any).cacheDirectory || "";
+      const slug =
+        list.name
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "list";
+      const filePath = `${cacheDir}${slug}.mangalist.json`;
+
+      await FileSystem.writeAsStringAsync(filePath, JSON.stringify(file));
+
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (!isAvailable) {
+        return {
+          success: false,
+          error: "Sharing is not available on this device",
+        };
+      }
+
+      await Sharing.shareAsync(filePath, {
+        mimeType: "application/json",
+        dialogTitle: `Share "${list.name}"`,
+        UTI: "public.json",
+      });
+      return { success: true };
+    } catch (error) {
+      console.error("List export failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to export list",
+      };
+    }
+  },
+
+  async pickListFile(): Promise<SharedMangaList | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ["application/json", "text/plain", "*/*"],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.[0]) {
+      return null;
+    }
+
+    const contents = await FileSystem.readAsStringAsync(result.assets[0].uri);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(contents);
+    } catch {
+      throw new MangaListError("This file isn't a valid list.");
+    }
+    const file = (parsed || {}) as Partial<ListFile>;
+    if (file.format !== LIST_FILE_FORMAT) {
+      throw new MangaListError("This file isn't a valid list.");
+    }
+    if (typeof file.version !== "number" || file.version > LIST_FILE_VERSION) {
+      throw new MangaListError(
+        "This list was made by a newer version of the app.",
+      );
+    }
+    return toSharedList(file);
+  },
+};
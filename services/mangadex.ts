@@ -1,5 +1,52 @@
+import { apiClient, isAbortError, RequestOptions } from "./apiClient";
+import { responseCache } from "./responseCache";
+import {
+  aggregateSchema,
+  atHomeSchema,
+  authorSchema,
+  chapterSchema,
+  collectionOf,
+  customListSchema,
+  entityOf,
+  filterRelationships,
+  findRelationship,
+  mangaSchema,
+  pickLocalized,
+  tagSchema,
+  validateResponse,
+  statisticsSchema,
+  LocalizedString,
+  MdAuthor,
+  MdAuthorAttributes,
+  MdChapter,
+  MdCollection,
+  MdCustomList,
+  MdManga,
+  MdMangaAttributes,
+  MdMangaStatistics,
+  MdStatisticsResponse,
+  MdTag,
+  Validator,
+} from "./mangadexSchema";
+
 const BASE_URL = "https://api.mangadex.org";
 
+export interface MangaTitle {
+  language: string;
+  title: string;
+}
+
+export interface MangaPerson {
+  id: string;
+  name: string;
+}
+
+export interface MangaLink {
+  site: string;
+  label: string;
+  url: string;
+}
+
 export interface Manga {
   id: string;
   title: string;
@@ -10,6 +57,37 @@ export interface Manga {
   tags: string[];
   author: string;
   coverUrl: string | null;
+  titles: MangaTitle[];
+  altTitles: MangaTitle[];
+  authors: MangaPerson[];
+  artists: MangaPerson[];
+  contentRating: string | null;
+  publicationDemographic: string | null;
+  lastVolume: string | null;
+  lastChapter: string | null;
+  links: MangaLink[];
+  tagDetails: MangaTag[];
+}
+
+export interface Author {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  biography: string;
+  links: MangaLink[];
+}
+
+export interface MangaDexList {
+  id: string;
+  name: string;
+  visibility: "public" | "private";
+  ownerId: string | null;
+  mangaIds: string[];
+}
+
+export interface ScanlationGroup {
+  id: string;
+  name: string;
 }
 
 export interface Chapter {
@@ -19,6 +97,29 @@ export interface Chapter {
   volume: string | null;
   pages: number;
   publishedAt: string;
+  language: string;
+  groups: ScanlationGroup[];
+  uploader: string | null;
+  // False for oneshots and extras, whose `chapter` falls back to "0"
+  hasNumber: boolean;
+}
+
+// One page of a chapter feed, in the order MangaDex returned it
+export interface ChapterPage {
+  data: Chapter[];
+  total: number;
+  nextOffset: number | null;
+}
+
+// Narrows a chapter feed to one volume or one chapter number
+export interface ChapterQuery {
+  volume?: string;
+  chapter?: string;
+}
+
+export interface ChapterVolume {
+  volume: string | null;
+  chapters: string[];
 }
 
 export interface ChapterPages {
@@ -32,8 +133,25 @@ export interface MangaTag {
   group: "genre" | "theme" | "format" | "content";
 }
 
+export interface MangaStatistics {
+  mangaId: string;
+  rating: number | null;
+  bayesianRating: number | null;
+  // votes per score from 1 to 10; only loaded for a single manga
+  distribution: Record<number, number> | null;
+  follows: number;
+  comments: number;
+}
+
 export type SortOption = "relevance" | "latestUploadedChapter" | "followedCount" | "createdAt" | "rating";
 
+// One page of a manga listing; nextOffset is null once there is nothing left
+export interface MangaPage {
+  data: Manga[];
+  total: number;
+  nextOffset: number | null;
+}
+
 export interface SearchFilters {
   includedTags: string[];
   excludedTags: string[];
@@ -41,27 +159,194 @@ export interface SearchFilters {
   sortBy: SortOption;
 }
 
-const extractTitle = (attributes: any): string => {
-  const titles = attributes.title;
-  return (
-    titles?.en ||
-    titles?.ja ||
-    titles?.["ja-ro"] ||
-    Object.values(titles || {})[0] ||
-    "Unknown"
-  ) as string;
+const mangaCollection = collectionOf(mangaSchema);
+const mangaEntity = entityOf(mangaSchema);
+const chapterCollection = collectionOf(chapterSchema);
+const tagCollection = collectionOf(tagSchema);
+const authorEntity = entityOf(authorSchema);
+const customListEntity = entityOf(customListSchema);
+
+// Responses are checked before the mappers see them, so a changed payload
+// fails with a MangaDexSchemaError naming the field instead of bad data.
+const fetchCached = async <T>(
+  url: string,
+  validator: Validator<T>,
+  request: RequestOptions = {},
+): Promise<T> =>
+  validateResponse(validator, await responseCache.getJson(url, request), url);
+
+const fetchFresh = async <T>(
+  url: string,
+  validator: Validator<T>,
+  request: RequestOptions = {},
+): Promise<T> =>
+  validateResponse(validator, await apiClient.getJson(url, request), url);
+
+// MangaDex rejects collection requests whose offset + limit passes this
+export const MAX_RESULT_OFFSET = 10000;
+
+const pageParams = (limit: number, offset: number) =>
+  new URLSearchParams({
+    limit: Math.min(limit, MAX_RESULT_OFFSET - offset).toString(),
+    offset: offset.toString(),
+  });
+
+const toMangaPage = (
+  data: MdCollection<MdManga>,
+  offset: number,
+): MangaPage => {
+  const nextOffset = offset + data.data.length;
+  const end = Math.min(data.total, MAX_RESULT_OFFSET);
+  return {
+    data: formatMangaList(data.data),
+    total: data.total,
+    nextOffset: data.data.length > 0 && nextOffset < end ? nextOffset : null,
+  };
+};
+
+// Rankings can shift between page requests, so a title may come back twice
+export const appendUniqueManga = (
+  existing: Manga[],
+  page: Manga[],
+): Manga[] => {
+  const seen = new Set(existing.map((m) => m.id));
+  const added = page.filter((m) => {
+    if (seen.has(m.id)) return false;
+    seen.add(m.id);
+    return true;
+  });
+  return added.length > 0 ? [...existing, ...added] : existing;
 };
 
-const extractDescription = (attributes: any): string => {
-  const descriptions = attributes.description;
-  return (
-    descriptions?.en ||
-    descriptions?.ja ||
-    Object.values(descriptions || {})[0] ||
-    "No description available"
-  ) as string;
+export const compareChapters = (a: Chapter, b: Chapter) => {
+  const numA = parseFloat(a.chapter) || 0;
+  const numB = parseFloat(b.chapter) || 0;
+  return numA - numB || a.publishedAt.localeCompare(b.publishedAt);
 };
 
+// Adds a feed page to the chapters already loaded, keeping them sorted
+export const mergeChapters = (
+  existing: Chapter[],
+  page: Chapter[],
+): Chapter[] => {
+  const seen = new Set(existing.map((c) => c.id));
+  return [...existing, ...page.filter((c) => !seen.has(c.id))].sort(
+    compareChapters,
+  );
+};
+
+// Distinct chapters in the aggregate, for display. Like countChapters, a
+// number counts once per volume it repeats in; the aggregate lumps a volume's
+// unnumbered chapters into one.
+export const countVolumeChapters = (volumes: ChapterVolume[]) => {
+  const volumesByNumber = new Map<string, Set<string>>();
+  for (const v of volumes) {
+    for (const c of v.chapters) {
+      const seen = volumesByNumber.get(c) ?? new Set<string>();
+      if (v.volume) seen.add(v.volume);
+      volumesByNumber.set(c, seen);
+    }
+  }
+  return [...volumesByNumber.values()].reduce(
+    (total, seen) => total + Math.max(1, seen.size),
+    0,
+  );
+};
+
+// Feed pages are kept small so the first one shows quickly; /chapter caps limit at 100
+const CHAPTER_PAGE_SIZE = 100;
+const CHAPTER_FEED_MAX_LIMIT = 500;
+
+// The batch endpoint caps how many ids one request may carry
+const STATISTICS_BATCH_SIZE = 100;
+
+// How many ids one /manga?ids[]= request may carry
+const MANGA_IDS_BATCH_SIZE = 100;
+
+const UUID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// Bibliographies are read a page at a time up to this many titles
+const AUTHOR_WORKS_PAGE_SIZE = 100;
+const AUTHOR_WORKS_MAX = 1000;
+
+// Each title's statistics are cached under the batch URL for that title alone
+const statisticsUrl = (mangaId: string) =>
+  `${BASE_URL}/statistics/manga?manga[]=${mangaId}`;
+
+const extractTitle = (attributes: MdMangaAttributes): string =>
+  pickLocalized(attributes.title) || "Unknown";
+
+const extractDescription = (attributes: MdMangaAttributes): string =>
+  pickLocalized(attributes.description, ["en", "ja"]) ||
+  "No description available";
+
+const extractTagName = (tag: MdTag): string =>
+  pickLocalized(tag.attributes.name, ["en"]) || "Unknown";
+
+const toTitles = (titles: LocalizedString): MangaTitle[] =>
+  Object.entries(titles).map(([language, title]) => ({ language, title }));
+
+// MangaDex stores most links as an id or slug on the site rather than a URL
+const LINK_SITES: Record<
+  string,
+  { label: string; url: (value: string) => string }
+> = {
+  al: { label: "AniList", url: (id) => `https://anilist.co/manga/${id}` },
+  mal: {
+    label: "MyAnimeList",
+    url: (id) => `https://myanimelist.net/manga/${id}`,
+  },
+  mu: {
+    label: "MangaUpdates",
+    url: (id) =>
+      /^\d+$/.test(id)
+        ? `https://www.mangaupdates.com/series.html?id=${id}`
+        : `https://www.mangaupdates.com/series/${id}`,
+  },
+  kt: { label: "Kitsu", url: (id) => `https://kitsu.app/manga/${id}` },
+  ap: {
+    label: "Anime-Planet",
+    url: (slug) => `https://www.anime-planet.com/manga/${slug}`,
+  },
+  nu: {
+    label: "NovelUpdates",
+    url: (slug) => `https://www.novelupdates.com/series/${slug}`,
+  },
+  bw: { label: "BookWalker", url: (path) => `https://bookwalker.jp/${path}` },
+  amz: { label: "Amazon", url: (url) => url },
+  ebj: { label: "eBookJapan", url: (url) => url },
+  cdj: { label: "CDJapan", url: (url) => url },
+  raw: { label: "Official Raw", url: (url) => url },
+  engtl: { label: "Official English", url: (url) => url },
+};
+
+const toLinks = (links: Record<string, string> | null): MangaLink[] =>
+  Object.entries(links || {})
+    .filter(([site]) => LINK_SITES[site])
+    .map(([site, value]) => ({
+      site,
+      label: LINK_SITES[site].label,
+      url: LINK_SITES[site].url(value),
+    }));
+
+// Unlike manga links, author links are stored as full URLs
+const AUTHOR_LINK_SITES: [keyof MdAuthorAttributes, string][] = [
+  ["website", "Website"],
+  ["twitter", "Twitter"],
+  ["pixiv", "Pixiv"],
+  ["fanBox", "Fanbox"],
+  ["fantia", "Fantia"],
+  ["skeb", "Skeb"],
+  ["booth", "Booth"],
+  ["melonBook", "Melonbooks"],
+  ["nicoVideo", "Niconico"],
+  ["youtube", "YouTube"],
+  ["tumblr", "Tumblr"],
+  ["weibo", "Weibo"],
+  ["naver", "Naver"],
+];
+
 const getType = (originalLanguage: string): "Manga" | "Manhwa" | "Manhua" => {
   if (originalLanguage === "ko") return "Manhwa";
   if (originalLanguage === "zh" || originalLanguage === "zh-hk") return "Manhua";
@@ -73,21 +358,65 @@ const getCoverUrl = (mangaId: string, coverFilename: string | null, size: number
   return `https://uploads.mangadex.org/covers/${mangaId}/${coverFilename}.${size}.jpg`;
 };
 
+const arrayOr = <T>(value: unknown, fallback: T[]): T[] =>
+  Array.isArray(value) ? value : fallback;
+const stringOrNull = (value: unknown): string | null =>
+  typeof value === "string" ? value : null;
+
+// Fills in fields missing from manga saved by older versions of the app,
+// backups and imports, which only had the flat title/author/tags fields.
+export const normalizeManga = (manga: Record<string, any>): Manga => ({
+  ...manga,
+  id: String(manga.id),
+  title: typeof manga.title === "string" ? manga.title : "Unknown",
+  description: typeof manga.description === "string" ? manga.description : "",
+  status: typeof manga.status === "string" ? manga.status : "unknown",
+  year: typeof manga.year === "number" ? manga.year : null,
+  type: ["Manga", "Manhwa", "Manhua"].includes(manga.type)
+    ? manga.type
+    : "Manga",
+  tags: arrayOr(manga.tags, []),
+  author: typeof manga.author === "string" ? manga.author : "Unknown",
+  coverUrl: stringOrNull(manga.coverUrl),
+  titles: arrayOr(manga.titles, []),
+  altTitles: arrayOr(manga.altTitles, []),
+  authors: arrayOr(manga.authors, []),
+  artists: arrayOr(manga.artists, []),
+  contentRating: stringOrNull(manga.contentRating),
+  publicationDemographic: stringOrNull(manga.publicationDemographic),
+  lastVolume: stringOrNull(manga.lastVolume),
+  lastChapter: stringOrNull(manga.lastChapter),
+  links: arrayOr(manga.links, []),
+  tagDetails: arrayOr(manga.tagDetails, []),
+});
+
+// Accepts a bare list id or any link containing /list/<id>
+export const parseListId = (input: string): string | null => {
+  const value = input.trim();
+  const fromUrl = value.match(
+    new RegExp(`/list/(${UUID_PATTERN.source})`, "i"),
+  );
+  if (fromUrl) return fromUrl[1].toLowerCase();
+  const bare = value.match(new RegExp(`^${UUID_PATTERN.source}$`, "i"));
+  return bare ? value.toLowerCase() : null;
+};
+
 let cachedTags: MangaTag[] | null = null;
 
 export const mangadexApi = {
-  async getTags(): Promise<MangaTag[]> {
+  async getTags(request: RequestOptions = {}): Promise<MangaTag[]> {
     if (cachedTags) return cachedTags;
     
     try {
-      const response = await fetch(`${BASE_URL}/manga/tag`);
-      if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-      
-      const data = await response.json();
-      const tags: MangaTag[] = (data.data || []).map((tag: any) => ({
+      const data = await fetchCached(
+        `${BASE_URL}/manga/tag`,
+        tagCollection,
+        request,
+      );
+      const tags: MangaTag[] = data.data.map((tag) => ({
         id: tag.id,
-        name: tag.attributes?.name?.en || Object.values(tag.attributes?.name || {})[0] || "Unknown",
-        group: tag.attributes?.group || "genre",
+        name: extractTagName(tag),
+        group: tag.attributes.group,
       }));
       
       tags.sort((a, b) => a.name.localeCompare(b.name));
@@ -108,15 +437,17 @@ export const mangadexApi = {
       adultMode?: boolean; 
       languages?: string[];
       filters?: SearchFilters;
+      offset?: number;
+      signal?: AbortSignal;
     } = {}
-  ): Promise<{ data: Manga[]; total: number }> {
+  ): Promise<MangaPage> {
     const sortBy = options.filters?.sortBy || "relevance";
     const sortOrder = "desc";
+    const { offset = 0, signal } = options;
     
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      "includes[]": "cover_art",
-    });
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
 
     if (query) {
       params.append("title", query);
@@ -162,22 +493,25 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    return {
-      data: formatMangaList(data.data || []),
-      total: data.total || 0,
-    };
+    const data = await fetchFresh(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      { signal },
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getPopularManga(limit: number = 40, adultMode: boolean = false, languages: string[] = []): Promise<{ data: Manga[]; total: number }> {
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      "includes[]": "cover_art",
-      "order[followedCount]": "desc",
-    });
+  async getPopularManga(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    offset: number = 0,
+    request: RequestOptions = {},
+  ): Promise<MangaPage> {
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
+    params.append("order[followedCount]", "desc");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -193,17 +527,21 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    return {
-      data: formatMangaList(data.data || []),
-      total: data.total || 0,
-    };
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getRandomManga(limit: number = 40, adultMode: boolean = false, languages: string[] = [], filters?: SearchFilters): Promise<{ data: Manga[]; total: number }> {
+  async getRandomManga(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    filters?: SearchFilters,
+    request: RequestOptions = {},
+  ): Promise<{ data: Manga[]; total: number }> {
     const sortBy = filters?.sortBy || "followedCount";
     const baseParams = new URLSearchParams({
       limit: "1",
@@ -242,10 +580,12 @@ export const mangadexApi = {
       baseParams.append("contentRating[]", "suggestive");
     }
 
-    const countResponse = await fetch(`${BASE_URL}/manga?${baseParams}`);
-    if (!countResponse.ok) throw new Error(`MangaDex API error: ${countResponse.status}`);
-    const countData = await countResponse.json();
-    const total = countData.total || 0;
+    const countData = await fetchCached(
+      `${BASE_URL}/manga?${baseParams}`,
+      mangaCollection,
+      request,
+    );
+    const total = countData.total;
 
     const maxOffset = Math.max(0, total - limit);
     const randomOffset = maxOffset > 0 ? Math.floor(Math.random() * Math.min(maxOffset, 500)) : 0;
@@ -256,6 +596,7 @@ export const mangadexApi = {
       "includes[]": "cover_art",
       [`order[${sortBy}]`]: "desc",
     });
+    params.append("includes[]", "author");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -289,11 +630,12 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    const mangaList = formatMangaList(data.data || []);
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    const mangaList = formatMangaList(data.data);
     
     const shuffled = [...mangaList].sort(() => Math.random() - 0.5);
     
@@ -303,12 +645,17 @@ export const mangadexApi = {
     };
   },
 
-  async getLatestUpdates(limit: number = 40, adultMode: boolean = false, languages: string[] = []): Promise<{ data: Manga[]; total: number }> {
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      "includes[]": "cover_art",
-      "order[latestUploadedChapter]": "desc",
-    });
+  async getLatestUpdates(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    offset: number = 0,
+    request: RequestOptions = {},
+  ): Promise<MangaPage> {
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
+    params.append("order[latestUploadedChapter]", "desc");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -324,52 +671,26 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    return {
-      data: formatMangaList(data.data || []),
-      total: data.total || 0,
-    };
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getManga(limit: number = 40, adultMode: boolean = false, languages: string[] = []): Promise<{ data: Manga[]; total: number }> {
-    const baseParams = new URLSearchParams({
-      limit: "1",
-      "includes[]": "cover_art",
-      "originalLanguage[]": "ja",
-    });
-
-    if (languages.length > 0) {
-      languages.forEach(lang => {
-        baseParams.append("availableTranslatedLanguage[]", lang);
-      });
-    }
-
-    if (adultMode) {
-      baseParams.append("contentRating[]", "erotica");
-      baseParams.append("contentRating[]", "pornographic");
-    } else {
-      baseParams.append("contentRating[]", "safe");
-      baseParams.append("contentRating[]", "suggestive");
-    }
-
-    const countResponse = await fetch(`${BASE_URL}/manga?${baseParams}`);
-    if (!countResponse.ok) throw new Error(`MangaDex API error: ${countResponse.status}`);
-    const countData = await countResponse.json();
-    const total = countData.total || 0;
-
-    const maxOffset = Math.max(0, total - limit);
-    const randomOffset = maxOffset > 0 ? Math.floor(Math.random() * Math.min(maxOffset, 300)) : 0;
-
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      offset: randomOffset.toString(),
-      "includes[]": "cover_art",
-      "originalLanguage[]": "ja",
-      "order[followedCount]": "desc",
-    });
+  async getManga(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    offset: number = 0,
+    request: RequestOptions = {},
+  ): Promise<MangaPage> {
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
+    params.append("originalLanguage[]", "ja");
+    params.append("order[followedCount]", "desc");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -385,52 +706,26 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    return {
-      data: formatMangaList(data.data || []),
-      total: data.total || 0,
-    };
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getManhwa(limit: number = 40, adultMode: boolean = false, languages: string[] = []): Promise<{ data: Manga[]; total: number }> {
-    const baseParams = new URLSearchParams({
-      limit: "1",
-      "includes[]": "cover_art",
-      "originalLanguage[]": "ko",
-    });
-
-    if (languages.length > 0) {
-      languages.forEach(lang => {
-        baseParams.append("availableTranslatedLanguage[]", lang);
-      });
-    }
-
-    if (adultMode) {
-      baseParams.append("contentRating[]", "erotica");
-      baseParams.append("contentRating[]", "pornographic");
-    } else {
-      baseParams.append("contentRating[]", "safe");
-      baseParams.append("contentRating[]", "suggestive");
-    }
-
-    const countResponse = await fetch(`${BASE_URL}/manga?${baseParams}`);
-    if (!countResponse.ok) throw new Error(`MangaDex API error: ${countResponse.status}`);
-    const countData = await countResponse.json();
-    const total = countData.total || 0;
-
-    const maxOffset = Math.max(0, total - limit);
-    const randomOffset = maxOffset > 0 ? Math.floor(Math.random() * Math.min(maxOffset, 300)) : 0;
-
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      offset: randomOffset.toString(),
-      "includes[]": "cover_art",
-      "originalLanguage[]": "ko",
-      "order[followedCount]": "desc",
-    });
+  async getManhwa(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    offset: number = 0,
+    request: RequestOptions = {},
+  ): Promise<MangaPage> {
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
+    params.append("originalLanguage[]", "ko");
+    params.append("order[followedCount]", "desc");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -446,27 +741,26 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    const manhwaList = formatMangaList(data.data || []);
-    
-    const shuffled = [...manhwaList].sort(() => Math.random() - 0.5);
-    
-    return {
-      data: shuffled,
-      total: total,
-    };
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getManhua(limit: number = 40, adultMode: boolean = false, languages: string[] = []): Promise<{ data: Manga[]; total: number }> {
-    const params = new URLSearchParams({
-      limit: limit.toString(),
-      "includes[]": "cover_art",
-      "originalLanguage[]": "zh",
-      "order[followedCount]": "desc",
-    });
+  async getManhua(
+    limit: number = 40,
+    adultMode: boolean = false,
+    languages: string[] = [],
+    offset: number = 0,
+    request: RequestOptions = {},
+  ): Promise<MangaPage> {
+    const params = pageParams(limit, offset);
+    params.append("includes[]", "cover_art");
+    params.append("includes[]", "author");
+    params.append("originalLanguage[]", "zh");
+    params.append("order[followedCount]", "desc");
 
     if (languages.length > 0) {
       languages.forEach(lang => {
@@ -482,101 +776,147 @@ export const mangadexApi = {
       params.append("contentRating[]", "suggestive");
     }
 
-    const response = await fetch(`${BASE_URL}/manga?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    return {
-      data: formatMangaList(data.data || []),
-      total: data.total || 0,
-    };
+    const data = await fetchCached(
+      `${BASE_URL}/manga?${params}`,
+      mangaCollection,
+      request,
+    );
+    return toMangaPage(data, offset);
   },
 
-  async getMangaDetails(mangaId: string): Promise<Manga | null> {
+  async getMangaDetails(
+    mangaId: string,
+    request: RequestOptions = {},
+  ): Promise<Manga | null> {
     const params = new URLSearchParams();
     params.append("includes[]", "cover_art");
     params.append("includes[]", "author");
     params.append("includes[]", "artist");
 
-    const response = await fetch(`${BASE_URL}/manga/${mangaId}?${params}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-    const data = await response.json();
-    if (!data.data) return null;
-
+    const data = await fetchCached(
+      `${BASE_URL}/manga/${mangaId}?${params}`,
+      mangaEntity,
+      request,
+    );
     return formatMangaDetails(data.data);
   },
 
-  async getChapters(mangaId: string, languages: string | string[] = "en", adultMode: boolean = false): Promise<Chapter[]> {
+  // Every upload is returned, so a chapter scanlated by several groups shows up
+  // once per version; see scanlationGroups for picking one per chapter.
+  async getChapterPage(
+    mangaId: string,
+    languages: string | string[] = "en",
+    adultMode: boolean = false,
+    options: ChapterQuery & { offset?: number; limit?: number } = {},
+    request: RequestOptions = {},
+  ): Promise<ChapterPage> {
+    const { offset = 0, limit = CHAPTER_PAGE_SIZE, volume, chapter } = options;
     const langArray = Array.isArray(languages) ? languages : [languages];
-    let allChapters: Chapter[] = [];
-    let offset = 0;
-    const limit = 500;
-    let hasMore = true;
+    const params = pageParams(limit, offset);
+    params.append("order[chapter]", "asc");
+    params.append("includes[]", "scanlation_group");
+    params.append("includes[]", "user");
 
-    while (hasMore && offset < 5000) {
-      const params = new URLSearchParams({
-        limit: limit.toString(),
-        offset: offset.toString(),
-        "order[chapter]": "asc",
-      });
-
-      langArray.forEach(lang => {
-        params.append("translatedLanguage[]", lang);
-      });
-
-      if (adultMode) {
-        params.append("contentRating[]", "erotica");
-        params.append("contentRating[]", "pornographic");
-      } else {
-        params.append("contentRating[]", "safe");
-        params.append("contentRating[]", "suggestive");
-        params.append("contentRating[]", "erotica");
-      }
-
-      const response = await fetch(`${BASE_URL}/manga/${mangaId}/feed?${params}`);
-      if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
+    langArray.forEach((lang) => {
+      params.append("translatedLanguage[]", lang);
+    });
 
-      const data = await response.json();
+    if (adultMode) {
+      params.append("contentRating[]", "erotica");
+      params.append("contentRating[]", "pornographic");
+    } else {
+      params.append("contentRating[]", "safe");
+      params.append("contentRating[]", "suggestive");
+      params.append("contentRating[]", "erotica");
+    }
 
-      if (data.data && data.data.length > 0) {
-        allChapters = allChapters.concat(formatChapterList(data.data));
-        offset += limit;
-        hasMore = data.data.length === limit;
-      } else {
-        hasMore = false;
-      }
+    // The feed endpoint can't filter by volume or number, /chapter can
+    let url = `${BASE_URL}/manga/${mangaId}/feed?${params}`;
+    if (volume || chapter) {
+      params.append("manga", mangaId);
+      if (volume) params.append("volume[]", volume);
+      if (chapter) params.append("chapter[]", chapter);
+      url = `${BASE_URL}/chapter?${params}`;
     }
 
-    const uniqueChapters: Chapter[] = [];
-    const seenChapters = new Set<string>();
+    const data = await fetchCached(url, chapterCollection, request);
+    const nextOffset = offset + data.data.length;
+    return {
+      data: formatChapterList(data.data),
+      total: data.total,
+      nextOffset:
+        data.data.length > 0 &&
+        nextOffset < Math.min(data.total, MAX_RESULT_OFFSET)
+          ? nextOffset
+          : null,
+    };
+  },
 
-    for (const ch of allChapters) {
-      const key = ch.chapter;
-      if (!seenChapters.has(key)) {
-        seenChapters.add(key);
-        uniqueChapters.push(ch);
-      }
+  // Every chapter in the feed, for callers that need the whole list at once
+  async getChapters(
+    mangaId: string,
+    languages: string | string[] = "en",
+    adultMode: boolean = false,
+    request: RequestOptions = {},
+  ): Promise<Chapter[]> {
+    let allChapters: Chapter[] = [];
+    let offset: number | null = 0;
+
+    while (offset !== null) {
+      const page: ChapterPage = await this.getChapterPage(
+        mangaId,
+        languages,
+        adultMode,
+        { offset, limit: CHAPTER_FEED_MAX_LIMIT },
+        request,
+      );
+      allChapters = allChapters.concat(page.data);
+      offset = page.nextOffset;
     }
 
-    uniqueChapters.sort((a, b) => {
-      const numA = parseFloat(a.chapter) || 0;
-      const numB = parseFloat(b.chapter) || 0;
-      return numA - numB;
-    });
-
-    return uniqueChapters;
+    return allChapters.sort(compareChapters);
   },
 
-  async getChapterPages(chapterId: string, dataSaver: boolean = false): Promise<ChapterPages> {
-    const response = await fetch(`${BASE_URL}/at-home/server/${chapterId}`);
-    if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
+  async getVolumes(
+    mangaId: string,
+    languages: string | string[] = "en",
+    request: RequestOptions = {},
+  ): Promise<ChapterVolume[]> {
+    const langArray = Array.isArray(languages) ? languages : [languages];
+    const params = new URLSearchParams();
+    langArray.forEach((lang) => {
+      params.append("translatedLanguage[]", lang);
+    });
 
-    const data = await response.json();
+    const data = await fetchCached(
+      `${BASE_URL}/manga/${mangaId}/aggregate?${params}`,
+      aggregateSchema,
+      request,
+    );
+    return Object.values(data.volumes)
+      .map((volume) => ({
+        volume: volume.volume === "none" ? null : volume.volume,
+        chapters: Object.values(volume.chapters).map((c) =>
+          c.chapter === "none" ? "0" : c.chapter,
+        ),
+      }))
+      .sort((a, b) => {
+        if (a.volume === null) return 1;
+        if (b.volume === null) return -1;
+        return (parseFloat(a.volume) || 0) - (parseFloat(b.volume) || 0);
+      });
+  },
 
-    if (!data.baseUrl || !data.chapter) {
-      throw new Error("Invalid chapter data received");
-    }
+  async getChapterPages(
+    chapterId: string,
+    dataSaver: boolean = false,
+    request: RequestOptions = {},
+  ): Promise<ChapterPages> {
+    const data = await fetchFresh(
+      `${BASE_URL}/at-home/server/${chapterId}`,
+      atHomeSchema,
+      request,
+    );
 
     const baseUrl = data.baseUrl;
     const chapter = data.chapter;
@@ -584,12 +924,12 @@ export const mangadexApi = {
     const quality = dataSaver ? "data-saver" : "data";
     const imageData = dataSaver && chapter.dataSaver ? chapter.dataSaver : chapter.data;
 
-    if (!imageData || !Array.isArray(imageData) || imageData.length === 0) {
+    if (imageData.length === 0) {
       throw new Error("No page data found in chapter");
     }
 
-    const pages = imageData.map((filename: string) => 
-      `${baseUrl}/${quality}/${chapter.hash}/${filename}`
+    const pages = imageData.map(
+      (filename) => `${baseUrl}/${quality}/${chapter.hash}/${filename}`,
     );
 
     return {
@@ -602,17 +942,25 @@ export const mangadexApi = {
     return `${baseUrl}/${quality}/${hash}/${filename}`;
   },
 
-  async getSimilarManga(mangaId: string, limit: number = 10, adultMode: boolean = false): Promise<Manga[]> {
+  async getSimilarManga(
+    mangaId: string,
+    limit: number = 10,
+    adultMode: boolean = false,
+    request: RequestOptions = {},
+  ): Promise<Manga[]> {
     try {
-      const mangaResponse = await fetch(`${BASE_URL}/manga/${mangaId}`);
-      if (!mangaResponse.ok) return [];
-      
-      const mangaData = await mangaResponse.json();
-      const rawTags = mangaData.data?.attributes?.tags || [];
-      const genreTags = rawTags
-        .filter((t: any) => t.attributes?.group === "genre" || t.attributes?.group === "theme")
+      const mangaData = await fetchCached(
+        `${BASE_URL}/manga/${mangaId}`,
+        mangaEntity,
+        request,
+      );
+      const genreTags = mangaData.data.attributes.tags
+        .filter(
+          (t) =>
+            t.attributes.group === "genre" || t.attributes.group === "theme",
+        )
         .slice(0, 3)
-        .map((t: any) => t.id);
+        .map((t) => t.id);
 
       if (genreTags.length === 0) {
         return [];
@@ -623,6 +971,7 @@ export const mangadexApi = {
         "includes[]": "cover_art",
         "order[followedCount]": "desc",
       });
+      params.append("includes[]", "author");
 
       genreTags.forEach((tagId: string) => {
         params.append("includedTags[]", tagId);
@@ -636,11 +985,12 @@ export const mangadexApi = {
         params.append("contentRating[]", "suggestive");
       }
 
-      const response = await fetch(`${BASE_URL}/manga?${params}`);
-      if (!response.ok) throw new Error(`MangaDex API error: ${response.status}`);
-
-      const data = await response.json();
-      const mangaList = formatMangaList(data.data || []);
+      const data = await fetchCached(
+        `${BASE_URL}/manga?${params}`,
+        mangaCollection,
+        request,
+      );
+      const mangaList = formatMangaList(data.data);
       
       const filtered = mangaList.filter(m => m.id !== mangaId);
       return filtered.slice(0, limit);
@@ -649,54 +999,275 @@ export const mangadexApi = {
       return [];
     }
   },
-};
 
-function formatMangaList(mangaList: any[]): Manga[] {
-  if (!mangaList) return [];
-  return mangaList.map((manga) => {
-    const coverArt = manga.relationships?.find((r: any) => r.type === "cover_art");
-    const coverFilename = coverArt?.attributes?.fileName || "";
-    const originalLang = manga.attributes.originalLanguage;
+  // Cards ask for many titles at once, so fresh cached entries are reused and
+  // only the rest are fetched. Stale entries stand in if the request fails.
+  async getStatistics(
+    mangaIds: string[],
+    request: RequestOptions = {},
+  ): Promise<Record<string, MangaStatistics>> {
+    const result: Record<string, MangaStatistics> = {};
+    const missing: string[] = [];
+
+    for (const mangaId of new Set(mangaIds)) {
+      const cached = await responseCache.peek<MdStatisticsResponse>(
+        statisticsUrl(mangaId),
+      );
+      const stats = cached?.data.statistics?.[mangaId];
+      if (stats) result[mangaId] = formatStatistics(mangaId, stats);
+      if (!cached?.fresh) missing.push(mangaId);
+    }
 
-    return {
-      id: manga.id,
-      title: extractTitle(manga.attributes),
-      description: extractDescription(manga.attributes),
-      coverUrl: getCoverUrl(manga.id, coverFilename, 256),
-      status: manga.attributes.status,
-      type: getType(originalLang),
-      year: manga.attributes.year,
-      tags: (manga.attributes.tags || []).map(
-        (t: any) => t.attributes?.name?.en || Object.values(t.attributes?.name || {})[0] || "Unknown"
-      ),
-      author: "Unknown",
-    };
-  });
-}
+    try {
+      for (let i = 0; i < missing.length; i += STATISTICS_BATCH_SIZE) {
+        const params = new URLSearchParams();
+        missing.slice(i, i + STATISTICS_BATCH_SIZE).forEach((id) => {
+          params.append("manga[]", id);
+        });
+
+        const data = await fetchFresh(
+          `${BASE_URL}/statistics/manga?${params}`,
+          statisticsSchema,
+          request,
+        );
+        for (const [mangaId, stats] of Object.entries(data.statistics)) {
+          result[mangaId] = formatStatistics(mangaId, stats);
+          await responseCache.put(statisticsUrl(mangaId), {
+            result: "ok",
+            statistics: { [mangaId]: stats },
+          });
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Failed to fetch statistics:", error);
+    }
+
+    return result;
+  },
+
+  async getMangaStatistics(
+    mangaId: string,
+    request: RequestOptions = {},
+  ): Promise<MangaStatistics | null> {
+    const data = await fetchCached(
+      `${BASE_URL}/statistics/manga/${mangaId}`,
+      statisticsSchema,
+      request,
+    );
+    const stats = data.statistics[mangaId];
+    return stats ? formatStatistics(mangaId, stats) : null;
+  },
+
+  // Only public lists can be read without logging in
+  async getList(
+    listId: string,
+    request: RequestOptions = {},
+  ): Promise<MangaDexList> {
+    const data = await fetchCached(
+      `${BASE_URL}/list/${listId}`,
+      customListEntity,
+      request,
+    );
+    return formatList(data.data);
+  },
+
+  // Returned in the order the ids were given; ids that no longer exist or
+  // are hidden by the content filter are left out
+  async getMangaByIds(
+    mangaIds: string[],
+    adultMode: boolean = false,
+    request: RequestOptions = {},
+  ): Promise<Manga[]> {
+    const found = new Map<string, Manga>();
+
+    for (let i = 0; i < mangaIds.length; i += MANGA_IDS_BATCH_SIZE) {
+      const batch = mangaIds.slice(i, i + MANGA_IDS_BATCH_SIZE);
+      const params = new URLSearchParams({
+        limit: batch.length.toString(),
+        "includes[]": "cover_art",
+      });
+      params.append("includes[]", "author");
+      batch.forEach((id) => {
+        params.append("ids[]", id);
+      });
+
+      if (adultMode) {
+        params.append("contentRating[]", "erotica");
+        params.append("contentRating[]", "pornographic");
+      } else {
+        params.append("contentRating[]", "safe");
+        params.append("contentRating[]", "suggestive");
+      }
+
+      const data = await fetchCached(
+        `${BASE_URL}/manga?${params}`,
+        mangaCollection,
+        request,
+      );
+      formatMangaList(data.data).forEach((manga) => found.set(manga.id, manga));
+    }
+
+    return mangaIds.flatMap((id) => {
+      const manga = found.get(id);
+      return manga ? [manga] : [];
+    });
+  },
+
+  async getAuthor(
+    authorId: string,
+    request: RequestOptions = {},
+  ): Promise<Author> {
+    const data = await fetchCached(
+      `${BASE_URL}/author/${authorId}`,
+      authorEntity,
+      request,
+    );
+    return formatAuthor(data.data);
+  },
+
+  // Everything the person wrote or drew, newest first
+  async getAuthorWorks(
+    authorId: string,
+    adultMode: boolean = false,
+    request: RequestOptions = {},
+  ): Promise<Manga[]> {
+    let works: Manga[] = [];
+    let offset = 0;
+    let total = Infinity;
+
+    while (offset < total && offset < AUTHOR_WORKS_MAX) {
+      const params = new URLSearchParams({
+        authorOrArtist: authorId,
+        limit: AUTHOR_WORKS_PAGE_SIZE.toString(),
+        offset: offset.toString(),
+        "includes[]": "cover_art",
+        "order[year]": "desc",
+      });
+      params.append("includes[]", "author");
+
+      if (adultMode) {
+        params.append("contentRating[]", "erotica");
+        params.append("contentRating[]", "pornographic");
+      } else {
+        params.append("contentRating[]", "safe");
+        params.append("contentRating[]", "suggestive");
+      }
+
+      const data = await fetchCached(
+        `${BASE_URL}/manga?${params}`,
+        mangaCollection,
+        request,
+      );
+      works = works.concat(formatMangaList(data.data));
+      total = data.total;
+      offset += AUTHOR_WORKS_PAGE_SIZE;
+      if (data.data.length === 0) break;
+    }
 
-function formatMangaDetails(manga: any): Manga {
-  const coverArt = manga.relationships?.find((r: any) => r.type === "cover_art");
-  const author = manga.relationships?.find((r: any) => r.type === "author");
+    return works;
+  },
+};
+
+function formatManga(manga: MdManga, coverSize: number = 256): Manga {
+  const { attributes } = manga;
+  const coverArt = findRelationship(manga.relationships, "cover_art");
   const coverFilename = coverArt?.attributes?.fileName || "";
-  const originalLang = manga.attributes.originalLanguage;
+
+  // Relationships only carry a name when the request asked for them
+  const people = (type: "author" | "artist"): MangaPerson[] =>
+    filterRelationships(manga.relationships, type).map((r) => ({
+      id: r.id,
+      name: r.attributes?.name || "Unknown",
+    }));
+  const authors = people("author");
+  const artists = people("artist");
 
   return {
     id: manga.id,
-    title: extractTitle(manga.attributes),
-    description: extractDescription(manga.attributes),
-    coverUrl: getCoverUrl(manga.id, coverFilename, 512),
-    author: author?.attributes?.name || "Unknown",
-    status: manga.attributes.status,
-    type: getType(originalLang),
-    year: manga.attributes.year,
-    tags: (manga.attributes.tags || []).map(
-      (t: any) => t.attributes?.name?.en || Object.values(t.attributes?.name || {})[0] || "Unknown"
-    ),
+    title: extractTitle(attributes),
+    description: extractDescription(attributes),
+    coverUrl: getCoverUrl(manga.id, coverFilename, coverSize),
+    author: authors.map((a) => a.name).join(", ") || "Unknown",
+    status: attributes.status,
+    type: getType(attributes.originalLanguage),
+    year: attributes.year,
+    tags: attributes.tags.map(extractTagName),
+    titles: toTitles(attributes.title),
+    altTitles: attributes.altTitles.flatMap(toTitles),
+    authors,
+    artists,
+    contentRating: attributes.contentRating,
+    publicationDemographic: attributes.publicationDemographic,
+    lastVolume: attributes.lastVolume || null,
+    lastChapter: attributes.lastChapter || null,
+    links: toLinks(attributes.links),
+    tagDetails: attributes.tags.map((tag) => ({
+      id: tag.id,
+      name: extractTagName(tag),
+      group: tag.attributes.group,
+    })),
+  };
+}
+
+export function formatMangaList(mangaList: MdManga[]): Manga[] {
+  return mangaList.map((manga) => formatManga(manga, 256));
+}
+
+export function formatMangaDetails(manga: MdManga): Manga {
+  return formatManga(manga, 512);
+}
+
+function formatList(list: MdCustomList): MangaDexList {
+  return {
+    id: list.id,
+    name: list.attributes.name,
+    visibility: list.attributes.visibility,
+    ownerId: findRelationship(list.relationships, "user")?.id || null,
+    // Only ids come back; the titles themselves are fetched with getMangaByIds
+    mangaIds: list.relationships
+      .filter((r) => r.type === "manga")
+      .map((r) => r.id),
+  };
+}
+
+function formatAuthor(author: MdAuthor): Author {
+  const { attributes } = author;
+  return {
+    id: author.id,
+    name: attributes.name,
+    imageUrl: attributes.imageUrl,
+    biography: pickLocalized(attributes.biography, ["en", "ja"]) || "",
+    links: AUTHOR_LINK_SITES.flatMap(([site, label]) => {
+      const url = attributes[site];
+      return typeof url === "string" && url ? [{ site, label, url }] : [];
+    }),
+  };
+}
+
+function formatStatistics(
+  mangaId: string,
+  stats: MdMangaStatistics,
+): MangaStatistics {
+  const { distribution } = stats.rating;
+  return {
+    mangaId,
+    rating: stats.rating.average,
+    bayesianRating: stats.rating.bayesian,
+    distribution: distribution
+      ? Object.fromEntries(
+          Object.entries(distribution).map(([score, votes]) => [
+            Number(score),
+            votes,
+          ]),
+        )
+      : null,
+    follows: stats.follows,
+    comments: stats.comments?.repliesCount || 0,
   };
 }
 
-function formatChapterList(chapters: any[]): Chapter[] {
-  if (!chapters) return [];
+export function formatChapterList(chapters: MdChapter[]): Chapter[] {
   return chapters
     .filter((chapter) => {
       const hasExternalUrl = chapter.attributes.externalUrl;
@@ -710,5 +1281,17 @@ function formatChapterList(chapters: any[]): Chapter[] {
       volume: chapter.attributes.volume,
       pages: chapter.attributes.pages,
       publishedAt: chapter.attributes.publishAt,
+      language: chapter.attributes.translatedLanguage,
+      groups: filterRelationships(
+        chapter.relationships,
+        "scanlation_group",
+      ).map((group) => ({
+        id: group.id,
+        name: group.attributes?.name || "Unknown Group",
+      })),
+      uploader:
+        findRelationship(chapter.relationships, "user")?.attributes?.username ||
+        null,
+      hasNumber: chapter.attributes.chapter !== null,
     }));
 }
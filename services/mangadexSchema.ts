@@ -0,0 +1,584 @@
+// Raw MangaDex API payloads and the runtime checks for them. The API serves
+// empty objects as `[]` in a few places (descriptions, links, biographies),
+// so those are accepted and normalised to `{}`.
+
+export type LocalizedString = Record<string, string>;
+
+export type MdTagGroup = "genre" | "theme" | "format" | "content";
+export type MdMangaStatus = "ongoing" | "completed" | "hiatus" | "cancelled";
+export type MdContentRating =
+  | "safe"
+  | "suggestive"
+  | "erotica"
+  | "pornographic";
+export type MdDemographic = "shounen" | "shoujo" | "josei" | "seinen";
+
+export interface MdTagAttributes {
+  name: LocalizedString;
+  description: LocalizedString;
+  group: MdTagGroup;
+  version: number;
+}
+
+export interface MdMangaAttributes {
+  title: LocalizedString;
+  altTitles: LocalizedString[];
+  description: LocalizedString;
+  isLocked?: boolean;
+  links: Record<string, string> | null;
+  originalLanguage: string;
+  lastVolume: string | null;
+  lastChapter: string | null;
+  publicationDemographic: MdDemographic | null;
+  status: MdMangaStatus;
+  year: number | null;
+  contentRating: MdContentRating;
+  tags: MdTag[];
+  state?: string;
+  chapterNumbersResetOnNewVolume?: boolean;
+  availableTranslatedLanguages: (string | null)[];
+  latestUploadedChapter: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export interface MdChapterAttributes {
+  title: string | null;
+  volume: string | null;
+  chapter: string | null;
+  pages: number;
+  translatedLanguage: string;
+  externalUrl: string | null;
+  publishAt: string;
+  readableAt: string;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export interface MdCoverAttributes {
+  description: string;
+  volume: string | null;
+  fileName: string;
+  locale: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export interface MdAuthorAttributes {
+  name: string;
+  imageUrl: string | null;
+  biography: LocalizedString;
+  twitter?: string | null;
+  pixiv?: string | null;
+  melonBook?: string | null;
+  fanBox?: string | null;
+  booth?: string | null;
+  nicoVideo?: string | null;
+  skeb?: string | null;
+  fantia?: string | null;
+  tumblr?: string | null;
+  youtube?: string | null;
+  weibo?: string | null;
+  naver?: string | null;
+  website?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export interface MdScanlationGroupAttributes {
+  name: string;
+  altNames: LocalizedString[];
+  website: string | null;
+  discord: string | null;
+  description: string | null;
+  official: boolean;
+  verified: boolean;
+  inactive: boolean;
+  focusedLanguages: string[] | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export interface MdUserAttributes {
+  username: string;
+  roles: string[];
+  version: number;
+}
+
+// Attributes only come back for relationships named in `includes[]`
+export interface RelationshipAttributes {
+  cover_art: MdCoverAttributes;
+  author: MdAuthorAttributes;
+  artist: MdAuthorAttributes;
+  scanlation_group: MdScanlationGroupAttributes;
+  user: MdUserAttributes;
+}
+
+export interface MdCustomListAttributes {
+  name: string;
+  visibility: "public" | "private";
+  version: number;
+}
+
+export interface MdRelationship<A = unknown> {
+  id: string;
+  type: string;
+  related?: string;
+  attributes?: A;
+}
+
+export interface MdEntity<T extends string, A> {
+  id: string;
+  type: T;
+  attributes: A;
+  relationships: MdRelationship[];
+}
+
+export type MdTag = MdEntity<"tag", MdTagAttributes>;
+export type MdManga = MdEntity<"manga", MdMangaAttributes>;
+export type MdChapter = MdEntity<"chapter", MdChapterAttributes>;
+export type MdCover = MdEntity<"cover_art", MdCoverAttributes>;
+export type MdAuthor = MdEntity<"author", MdAuthorAttributes>;
+export type MdScanlationGroup = MdEntity<
+  "scanlation_group",
+  MdScanlationGroupAttributes
+>;
+export type MdCustomList = MdEntity<"custom_list", MdCustomListAttributes>;
+
+export interface MdCollection<T> {
+  result: "ok";
+  response: "collection";
+  data: T[];
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+export interface MdEntityResponse<T> {
+  result: "ok";
+  response: "entity";
+  data: T;
+}
+
+export interface MdAtHome {
+  result: "ok";
+  baseUrl: string;
+  chapter: {
+    hash: string;
+    data: string[];
+    dataSaver: string[];
+  };
+}
+
+export interface MdMangaStatistics {
+  comments: { threadId: number; repliesCount: number } | null;
+  rating: {
+    average: number | null;
+    bayesian: number | null;
+    // only returned when asking for a single manga
+    distribution?: Record<string, number>;
+  };
+  follows: number;
+}
+
+export interface MdStatisticsResponse {
+  result: "ok";
+  statistics: Record<string, MdMangaStatistics>;
+}
+
+// Chapter numbers per volume from /manga/{id}/aggregate; "none" keys stand
+// for a missing volume or chapter number
+export interface MdAggregateChapter {
+  chapter: string;
+  id: string;
+  others: string[];
+  count: number;
+}
+
+export interface MdAggregateVolume {
+  volume: string;
+  count: number;
+  chapters: Record<string, MdAggregateChapter>;
+}
+
+export interface MdAggregateResponse {
+  result: "ok";
+  volumes: Record<string, MdAggregateVolume>;
+}
+
+export class MangaDexSchemaError extends Error {
+  url: string = "";
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`Unexpected MangaDex response at ${path}: ${message}`);
+    this.name = "MangaDexSchemaError";
+    this.path = path;
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const mismatch = (path: string, expected: string, value: unknown) =>
+  new MangaDexSchemaError(path, `expected ${expected}, got ${describe(value)}`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string: Validator<string> = (value, path) => {
+  if (typeof value !== "string") throw mismatch(path, "string", value);
+  return value;
+};
+
+const number: Validator<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw mismatch(path, "number", value);
+  }
+  return value;
+};
+
+const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw mismatch(path, "boolean", value);
+  return value;
+};
+
+const oneOf =
+  <T extends string>(...values: T[]): Validator<T> =>
+  (value, path) => {
+    if (!values.includes(value as T)) {
+      throw mismatch(path, `one of ${values.join(", ")}`, value);
+    }
+    return value as T;
+  };
+
+const nullable =
+  <T>(validator: Validator<T>): Validator<T | null> =>
+  (value, path) =>
+    value === null ? null : validator(value, path);
+
+const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined ? undefined : validator(value, path);
+
+const arrayOf =
+  <T>(validator: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw mismatch(path, "array", value);
+    return value.map((item, i) => validator(item, `${path}[${i}]`));
+  };
+
+const recordOf =
+  <T>(validator: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (Array.isArray(value) && value.length === 0) return {};
+    if (!isRecord(value)) throw mismatch(path, "object", value);
+    const record: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      record[key] = validator(item, `${path}.${key}`);
+    }
+    return record;
+  };
+
+const object =
+  <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (!isRecord(value)) throw mismatch(path, "object", value);
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](value[key], `${path}.${key}`);
+    }
+    return result;
+  };
+
+const localizedString = recordOf(string);
+
+const tagAttributes = object<MdTagAttributes>({
+  name: localizedString,
+  description: localizedString,
+  group: oneOf("genre", "theme", "format", "content"),
+  version: number,
+});
+
+const coverAttributes = object<MdCoverAttributes>({
+  description: string,
+  volume: nullable(string),
+  fileName: string,
+  locale: nullable(string),
+  createdAt: string,
+  updatedAt: string,
+  version: number,
+});
+
+const authorAttributes = object<MdAuthorAttributes>({
+  name: string,
+  imageUrl: nullable(string),
+  biography: localizedString,
+  twitter: optional(nullable(string)),
+  pixiv: optional(nullable(string)),
+  melonBook: optional(nullable(string)),
+  fanBox: optional(nullable(string)),
+  booth: optional(nullable(string)),
+  nicoVideo: optional(nullable(string)),
+  skeb: optional(nullable(string)),
+  fantia: optional(nullable(string)),
+  tumblr: optional(nullable(string)),
+  youtube: optional(nullable(string)),
+  weibo: optional(nullable(string)),
+  naver: optional(nullable(string)),
+  website: optional(nullable(string)),
+  createdAt: string,
+  updatedAt: string,
+  version: number,
+});
+
+const scanlationGroupAttributes = object<MdScanlationGroupAttributes>({
+  name: string,
+  altNames: arrayOf(localizedString),
+  website: nullable(string),
+  discord: nullable(string),
+  description: nullable(string),
+  official: boolean,
+  verified: boolean,
+  inactive: boolean,
+  focusedLanguages: nullable(arrayOf(string)),
+  createdAt: string,
+  updatedAt: string,
+  version: number,
+});
+
+const userAttributes = object<MdUserAttributes>({
+  username: string,
+  roles: arrayOf(string),
+  version: number,
+});
+
+const relationshipAttributes: {
+  [K in keyof RelationshipAttributes]: Validator<RelationshipAttributes[K]>;
+} = {
+  cover_art: coverAttributes,
+  author: authorAttributes,
+  artist: authorAttributes,
+  scanlation_group: scanlationGroupAttributes,
+  user: userAttributes,
+};
+
+const relationshipBase = object<Omit<MdRelationship, "attributes">>({
+  id: string,
+  type: string,
+  related: optional(string),
+});
+
+// Attributes of relationship types we don't read are kept unchecked
+const relationship: Validator<MdRelationship> = (value, path) => {
+  const base = relationshipBase(value, path);
+  const attributes = (value as Record<string, unknown>).attributes;
+  if (attributes === undefined || attributes === null) return base;
+  const validator =
+    relationshipAttributes[base.type as keyof RelationshipAttributes];
+  return {
+    ...base,
+    attributes: validator
+      ? validator(attributes, `${path}.attributes`)
+      : attributes,
+  };
+};
+
+const entity = <T extends string, A>(
+  type: T,
+  attributes: Validator<A>,
+): Validator<MdEntity<T, A>> =>
+  object<MdEntity<T, A>>({
+    id: string,
+    type: oneOf(type),
+    attributes,
+    // tags embedded in manga come without relationships
+    relationships: (value, path) =>
+      value === undefined ? [] : arrayOf(relationship)(value, path),
+  });
+
+const tag: Validator<MdTag> = entity("tag", tagAttributes);
+
+const mangaAttributes = object<MdMangaAttributes>({
+  title: localizedString,
+  altTitles: arrayOf(localizedString),
+  description: localizedString,
+  isLocked: optional(boolean),
+  links: nullable(recordOf(string)),
+  originalLanguage: string,
+  lastVolume: nullable(string),
+  lastChapter: nullable(string),
+  publicationDemographic: nullable(
+    oneOf("shounen", "shoujo", "josei", "seinen"),
+  ),
+  status: oneOf("ongoing", "completed", "hiatus", "cancelled"),
+  year: nullable(number),
+  contentRating: oneOf("safe", "suggestive", "erotica", "pornographic"),
+  tags: arrayOf(tag),
+  state: optional(string),
+  chapterNumbersResetOnNewVolume: optional(boolean),
+  availableTranslatedLanguages: arrayOf(nullable(string)),
+  latestUploadedChapter: nullable(string),
+  createdAt: string,
+  updatedAt: string,
+  version: number,
+});
+
+const chapterAttributes = object<MdChapterAttributes>({
+  title: nullable(string),
+  volume: nullable(string),
+  chapter: nullable(string),
+  pages: number,
+  translatedLanguage: string,
+  externalUrl: nullable(string),
+  publishAt: string,
+  readableAt: string,
+  createdAt: string,
+  updatedAt: string,
+  version: number,
+});
+
+const customListAttributes = object<MdCustomListAttributes>({
+  name: string,
+  visibility: oneOf("public", "private"),
+  version: number,
+});
+
+export const mangaSchema: Validator<MdManga> = entity("manga", mangaAttributes);
+export const chapterSchema: Validator<MdChapter> = entity(
+  "chapter",
+  chapterAttributes,
+);
+export const tagSchema = tag;
+export const coverSchema: Validator<MdCover> = entity(
+  "cover_art",
+  coverAttributes,
+);
+export const authorSchema: Validator<MdAuthor> = entity(
+  "author",
+  authorAttributes,
+);
+export const scanlationGroupSchema: Validator<MdScanlationGroup> = entity(
+  "scanlation_group",
+  scanlationGroupAttributes,
+);
+
+export const customListSchema: Validator<MdCustomList> = entity(
+  "custom_list",
+  customListAttributes,
+);
+
+export const collectionOf = <T>(
+  item: Validator<T>,
+): Validator<MdCollection<T>> =>
+  object<MdCollection<T>>({
+    result: oneOf("ok"),
+    response: oneOf("collection"),
+    data: arrayOf(item),
+    limit: number,
+    offset: number,
+    total: number,
+  });
+
+export const entityOf = <T>(
+  item: Validator<T>,
+): Validator<MdEntityResponse<T>> =>
+  object<MdEntityResponse<T>>({
+    result: oneOf("ok"),
+    response: oneOf("entity"),
+    data: item,
+  });
+
+export const atHomeSchema = object<MdAtHome>({
+  result: oneOf("ok"),
+  baseUrl: string,
+  chapter: object<MdAtHome["chapter"]>({
+    hash: string,
+    data: arrayOf(string),
+    dataSaver: arrayOf(string),
+  }),
+});
+
+const mangaStatistics = object<MdMangaStatistics>({
+  comments: nullable(
+    object<{ threadId: number; repliesCount: number }>({
+      threadId: number,
+      repliesCount: number,
+    }),
+  ),
+  rating: object<MdMangaStatistics["rating"]>({
+    average: nullable(number),
+    bayesian: nullable(number),
+    distribution: optional(recordOf(number)),
+  }),
+  follows: number,
+});
+
+export const statisticsSchema = object<MdStatisticsResponse>({
+  result: oneOf("ok"),
+  statistics: recordOf(mangaStatistics),
+});
+
+const aggregateChapter = object<MdAggregateChapter>({
+  chapter: string,
+  id: string,
+  others: arrayOf(string),
+  count: number,
+});
+
+const aggregateVolume = object<MdAggregateVolume>({
+  volume: string,
+  count: number,
+  chapters: recordOf(aggregateChapter),
+});
+
+export const aggregateSchema = object<MdAggregateResponse>({
+  result: oneOf("ok"),
+  volumes: recordOf(aggregateVolume),
+});
+
+export const validateResponse = <T>(
+  validator: Validator<T>,
+  data: unknown,
+  url: string,
+): T => {
+  try {
+    return validator(data, "response");
+  } catch (error) {
+    if (error instanceof MangaDexSchemaError) error.url = url;
+    throw error;
+  }
+};
+
+export const filterRelationships = <K extends keyof RelationshipAttributes>(
+  relationships: MdRelationship[],
+  type: K,
+): MdRelationship<RelationshipAttributes[K]>[] =>
+  relationships.filter((r) => r.type === type) as MdRelationship<
+    RelationshipAttributes[K]
+  >[];
+
+export const findRelationship = <K extends keyof RelationshipAttributes>(
+  relationships: MdRelationship[],
+  type: K,
+): MdRelationship<RelationshipAttributes[K]> | undefined =>
+  filterRelationships(relationships, type)[0];
+
+// Picks English, then Japanese, then whatever language comes first
+export const pickLocalized = (
+  value: LocalizedString,
+  preferred: string[] = ["en", "ja", "ja-ro"],
+): string | null => {
+  for (const lang of preferred) {
+    if (value[lang]) return value[lang];
+  }
+  return Object.values(value)[0] || null;
+};
@@ -0,0 +1,532 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  KEYS,
+  defaultSettings,
+  BookmarkedManga,
+  ReadingHistoryItem,
+  ReadingProgress,
+} from "./storage";
+import { DownloadedChapter, DownloadedMangaInfo } from "./downloadManager";
+import {
+  getDatabase,
+  toHistoryItem,
+  writeBookmark,
+  writeDownload,
+  writeDownloadedMangaInfo,
+  writeHistoryItem,
+  writeReadingProgress,
+  writeReadState,
+  HistoryRow,
+} from "./database";
+import { LAST_CHAPTER_COUNTS_KEY } from "./notificationService";
+import { ReadStateIndex } from "./readState";
+import { DEFAULT_CATEGORIES } from "./categories";
+import { normalizeManga } from "./mangadex";
+
+const SCHEMA_VERSION_KEY = "@mangareader_schema_version";
+const LEGACY_READ_CHAPTERS_PREFIX = "@mangareader_read_";
+// Read state lived in one AsyncStorage index from v2 until v6
+const LEGACY_READ_STATE_KEY = "@mangareader_readstate";
+
+// Library data that lived in AsyncStorage before the SQLite move (v3)
+const LEGACY_KEYS = {
+  BOOKMARKS: "@mangareader_bookmarks",
+  READING_HISTORY: "@mangareader_history",
+  READING_PROGRESS: "@mangareader_progress",
+  DOWNLOADS: "@mangareader_downloads",
+  MANGA_INFO: "@mangareader_manga_info",
+};
+
+export interface SchemaVersionRecord {
+  version: number;
+  updatedAt: number;
+  applied: { version: number; name: string; appliedAt: number }[];
+}
+
+export interface MigrationContext {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): void;
+  remove(key: string): void;
+  getAllKeys(): Promise<string[]>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(ctx: MigrationContext): Promise<void>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  failed: { version: number; name: string; error: string } | null;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "normalize legacy records",
+    async up(ctx) {
+      const now = Date.now();
+
+      const bookmarks = await ctx.get<unknown>(LEGACY_KEYS.BOOKMARKS);
+      if (bookmarks !== null) {
+        const list = Array.isArray(bookmarks) ? bookmarks : [];
+        const seen = new Set<string>();
+        const normalized: BookmarkedManga[] = [];
+        for (const item of list) {
+          if (!isObject(item) || typeof item.id !== "string") continue;
+          if (seen.has(item.id)) continue;
+          seen.add(item.id);
+          normalized.push({
+            ...normalizeManga(item),
+            id: item.id,
+            bookmarkedAt:
+              typeof item.bookmarkedAt === "number" ? item.bookmarkedAt : now,
+          } as BookmarkedManga);
+        }
+        ctx.set(LEGACY_KEYS.BOOKMARKS, normalized);
+      }
+
+      const history = await ctx.get<unknown>(LEGACY_KEYS.READING_HISTORY);
+      if (history !== null) {
+        const list = Array.isArray(history) ? history : [];
+        const normalized: ReadingHistoryItem[] = list
+          .filter(
+            (item) =>
+              isObject(item) &&
+              isObject(item.manga) &&
+              typeof item.manga.id === "string",
+          )
+          .map((item) => ({
+            manga: { ...normalizeManga(item.manga), id: item.manga.id },
+            lastReadAt:
+              typeof item.lastReadAt === "number" ? item.lastReadAt : 0,
+            lastChapterId: String(item.lastChapterId ?? ""),
+            lastChapterNumber: String(item.lastChapterNumber ?? ""),
+          }));
+        ctx.set(LEGACY_KEYS.READING_HISTORY, normalized);
+      }
+
+      const progress = await ctx.get<unknown>(LEGACY_KEYS.READING_PROGRESS);
+      if (progress !== null) {
+        const normalized: Record<string, ReadingProgress> = {};
+        if (isObject(progress)) {
+          for (const [mangaId, entry] of Object.entries(progress)) {
+            if (!isObject(entry) || typeof entry.chapterId !== "string") {
+              continue;
+            }
+            normalized[mangaId] = {
+              mangaId,
+              chapterId: entry.chapterId,
+              chapterNumber: String(entry.chapterNumber ?? ""),
+              page: Math.max(0, Number(entry.page) || 0),
+              totalPages: Math.max(0, Number(entry.totalPages) || 0),
+              updatedAt:
+                typeof entry.updatedAt === "number" ? entry.updatedAt : 0,
+            };
+          }
+        }
+        ctx.set(LEGACY_KEYS.READING_PROGRESS, normalized);
+      }
+
+      const settings = await ctx.get<unknown>(KEYS.SETTINGS);
+      if (settings !== null) {
+        const stored = isObject(settings) ? settings : {};
+        const defaults: Record<string, unknown> = { ...defaultSettings };
+        const merged = { ...defaults };
+        for (const key of Object.keys(defaults)) {
+          const value = stored[key];
+          if (value !== undefined && typeof value === typeof defaults[key]) {
+            merged[key] = value;
+          }
+        }
+        ctx.set(KEYS.SETTINGS, merged);
+      }
+
+      const downloads = await ctx.get<unknown>(LEGACY_KEYS.DOWNLOADS);
+      if (downloads !== null) {
+        const list = Array.isArray(downloads) ? downloads : [];
+        const normalized: DownloadedChapter[] = list
+          .filter(
+            (item) =>
+              isObject(item) &&
+              typeof item.chapterId === "string" &&
+              typeof item.mangaId === "string",
+          )
+          .map((item) => {
+            const pages: string[] = Array.isArray(item.pages) ? item.pages : [];
+            const size = Number(item.totalSize ?? item.sizeInBytes) || 0;
+            return {
+              chapterId: item.chapterId,
+              mangaId: item.mangaId,
+              mangaTitle: String(item.mangaTitle ?? "Unknown"),
+              chapterNumber: String(item.chapterNumber ?? "0"),
+              pages,
+              downloadedAt:
+                typeof item.downloadedAt === "number" ? item.downloadedAt : now,
+              sizeInBytes: size,
+              pageCount:
+                typeof item.pageCount === "number"
+                  ? item.pageCount
+                  : pages.length,
+              totalSize: size,
+            };
+          });
+        ctx.set(LEGACY_KEYS.DOWNLOADS, normalized);
+      }
+
+      const keys = await ctx.getAllKeys();
+      for (const key of keys.filter((k) =>
+        k.startsWith(LEGACY_READ_CHAPTERS_PREFIX),
+      )) {
+        const readChapters = await ctx.get<unknown>(key);
+        const list = Array.isArray(readChapters) ? readChapters : [];
+        ctx.set(key, [...new Set(list.filter((id) => typeof id === "string"))]);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: "move read chapters into the read-state index",
+    async up(ctx) {
+      const index: ReadStateIndex =
+        (await ctx.get<ReadStateIndex>(LEGACY_READ_STATE_KEY)) || {};
+
+      // The old per-manga arrays never recorded when a chapter was read, so
+      // fall back to the manga's last history entry where we have one.
+      const history =
+        (await ctx.get<ReadingHistoryItem[]>(LEGACY_KEYS.READING_HISTORY)) ||
+        [];
+      const lastReadAt = new Map(
+        history.map((item) => [item.manga.id, item.lastReadAt]),
+      );
+      const counts =
+        (await ctx.get<Record<string, { lastChapterCount?: number }>>(
+          LAST_CHAPTER_COUNTS_KEY,
+        )) || {};
+
+      const keys = await ctx.getAllKeys();
+      for (const key of keys.filter((k) =>
+        k.startsWith(LEGACY_READ_CHAPTERS_PREFIX),
+      )) {
+        const mangaId = key.slice(LEGACY_READ_CHAPTERS_PREFIX.length);
+        const list = (await ctx.get<string[]>(key)) || [];
+        const readAt = lastReadAt.get(mangaId) || 0;
+        const state = index[mangaId] || {
+          chapters: {},
+          chapterCount: 0,
+          updatedAt: 0,
+        };
+        for (const chapterId of list) {
+          if (state.chapters[chapterId] === undefined) {
+            state.chapters[chapterId] = readAt;
+          }
+        }
+        state.updatedAt = Math.max(state.updatedAt, readAt);
+        index[mangaId] = state;
+        ctx.remove(key);
+      }
+
+      for (const [mangaId, record] of Object.entries(counts)) {
+        const chapterCount = Number(record?.lastChapterCount) || 0;
+        if (chapterCount <= 0) continue;
+        const state = index[mangaId] || {
+          chapters: {},
+          chapterCount: 0,
+          updatedAt: 0,
+        };
+        if (state.chapterCount === 0) state.chapterCount = chapterCount;
+        index[mangaId] = state;
+      }
+
+      ctx.set(LEGACY_READ_STATE_KEY, index);
+    },
+  },
+  {
+    version: 3,
+    name: "move library into SQLite",
+    async up(ctx) {
+      const bookmarks =
+        (await ctx.get<BookmarkedManga[]>(LEGACY_KEYS.BOOKMARKS)) || [];
+      const history =
+        (await ctx.get<ReadingHistoryItem[]>(LEGACY_KEYS.READING_HISTORY)) ||
+        [];
+      const progress =
+        (await ctx.get<Record<string, ReadingProgress>>(
+          LEGACY_KEYS.READING_PROGRESS,
+        )) || {};
+      const downloads =
+        (await ctx.get<DownloadedChapter[]>(LEGACY_KEYS.DOWNLOADS)) || [];
+      const mangaInfo =
+        (await ctx.get<Record<string, DownloadedMangaInfo>>(
+          LEGACY_KEYS.MANGA_INFO,
+        )) || {};
+
+      // Rows are upserted, so if the AsyncStorage cleanup below fails and the
+      // migration reruns on next launch, the import is simply repeated.
+      const db = await getDatabase();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const bookmark of bookmarks) {
+          await writeBookmark(txn, bookmark);
+        }
+        for (const item of history) {
+          await writeHistoryItem(txn, item);
+        }
+        for (const entry of Object.values(progress)) {
+          await writeReadingProgress(txn, entry);
+        }
+        for (const chapter of downloads) {
+          await writeDownload(txn, chapter);
+        }
+        for (const info of Object.values(mangaInfo)) {
+          await writeDownloadedMangaInfo(txn, info);
+        }
+      });
+
+      for (const key of Object.values(LEGACY_KEYS)) {
+        ctx.remove(key);
+      }
+    },
+  },
+  {
+    version: 4,
+    name: "seed default bookmark categories",
+    async up() {
+      const db = await getDatabase();
+      const existing = await db.getFirstAsync("SELECT 1 FROM categories");
+      if (existing) return;
+
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const [index, name] of DEFAULT_CATEGORIES.entries()) {
+          await txn.runAsync(
+            "INSERT OR IGNORE INTO categories (name, sort_order) VALUES (?, ?)",
+            name,
+            index,
+          );
+        }
+      });
+    },
+  },
+  {
+    version: 5,
+    name: "fill in expanded manga fields",
+    async up() {
+      const db = await getDatabase();
+      const bookmarks = await db.getAllAsync<{ manga: string }>(
+        "SELECT manga FROM bookmarks",
+      );
+      const history = await db.getAllAsync<HistoryRow>("SELECT * FROM history");
+      const infos = await db.getAllAsync<{ info: string }>(
+        "SELECT info FROM downloaded_manga",
+      );
+
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const row of bookmarks) {
+          const bookmark = JSON.parse(row.manga);
+          await writeBookmark(txn, {
+            ...normalizeManga(bookmark),
+            bookmarkedAt: bookmark.bookmarkedAt,
+          });
+        }
+        for (const row of history) {
+          const item = toHistoryItem(row);
+          await writeHistoryItem(txn, {
+            ...item,
+            manga: normalizeManga(item.manga),
+          });
+        }
+        for (const row of infos) {
+          const info = JSON.parse(row.info);
+          const { id: _id, ...details } = normalizeManga({
+            ...info,
+            id: info.mangaId,
+          });
+          await writeDownloadedMangaInfo(txn, { ...info, ...details });
+        }
+      });
+    },
+  },
+  {
+    version: 6,
+    name: "move read state into SQLite",
+    async up(ctx) {
+      const index =
+        (await ctx.get<ReadStateIndex>(LEGACY_READ_STATE_KEY)) || {};
+
+      const db = await getDatabase();
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const [mangaId, state] of Object.entries(index)) {
+          if (!state || typeof state.chapters !== "object") continue;
+          await writeReadState(txn, mangaId, {
+            chapters: state.chapters,
+            chapterCount: Number(state.chapterCount) || 0,
+            updatedAt: Number(state.updatedAt) || 0,
+          });
+        }
+      });
+
+      ctx.remove(LEGACY_READ_STATE_KEY);
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.reduce(
+  (max, m) => Math.max(max, m.version),
+  0,
+);
+
+// Reads are served from the staged writes first so later steps of the same
+// migration see earlier ones; nothing touches AsyncStorage until commit.
+const createContext = () => {
+  const originals = new Map<string, string | null>();
+  const staged = new Map<string, string | null>();
+
+  const read = async (key: string): Promise<string | null> => {
+    if (staged.has(key)) return staged.get(key) ?? null;
+    if (!originals.has(key)) {
+      originals.set(key, await AsyncStorage.getItem(key));
+    }
+    return originals.get(key) ?? null;
+  };
+
+  const ctx: MigrationContext = {
+    async get<T>(key: string): Promise<T | null> {
+      const raw = await read(key);
+      if (raw === null) return null;
+      try {
+        return JSON.parse(raw) as T;
+      } catch {
+        return null;
+      }
+    },
+    set(key, value) {
+      staged.set(key, JSON.stringify(value));
+    },
+    remove(key) {
+      staged.set(key, null);
+    },
+    async getAllKeys() {
+      const stored = await AsyncStorage.getAllKeys();
+      const keys = new Set<string>(stored);
+      staged.forEach((value, key) => {
+        if (value === null) keys.delete(key);
+        else keys.add(key);
+      });
+      return [...keys];
+    },
+  };
+
+  const commit = async () => {
+    for (const key of staged.keys()) {
+      if (!originals.has(key)) {
+        originals.set(key, await AsyncStorage.getItem(key));
+      }
+    }
+
+    const writes: [string, string][] = [];
+    const removals: string[] = [];
+    staged.forEach((value, key) => {
+      if (value === null) removals.push(key);
+      else writes.push([key, value]);
+    });
+
+    try {
+      if (writes.length > 0) await AsyncStorage.multiSet(writes);
+      if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+    } catch (error) {
+      await rollback();
+      throw error;
+    }
+  };
+
+  const rollback = async () => {
+    const restores: [string, string][] = [];
+    const removals: string[] = [];
+    staged.forEach((_, key) => {
+      const original = originals.get(key);
+      if (original === null || original === undefined) removals.push(key);
+      else restores.push([key, original]);
+    });
+    if (restores.length > 0) await AsyncStorage.multiSet(restores);
+    if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+  };
+
+  return { ctx, commit };
+};
+
+export const getSchemaVersion = async (): Promise<SchemaVersionRecord> => {
+  try {
+    const data = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    if (data) return JSON.parse(data);
+  } catch {
+    // fall through to the unversioned record
+  }
+  return { version: 0, updatedAt: 0, applied: [] };
+};
+
+let pendingRun: Promise<MigrationResult> | null = null;
+
+export const runMigrations = (): Promise<MigrationResult> => {
+  if (!pendingRun) {
+    pendingRun = applyPendingMigrations().finally(() => {
+      pendingRun = null;
+    });
+  }
+  return pendingRun;
+};
+
+const applyPendingMigrations = async (): Promise<MigrationResult> => {
+  const record = await getSchemaVersion();
+  const fromVersion = record.version;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(
+      `Storage schema v${fromVersion} is newer than this app supports (v${CURRENT_SCHEMA_VERSION})`,
+    );
+    return { fromVersion, toVersion: fromVersion, failed: null };
+  }
+
+  const pending = migrations
+    .filter((m) => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let current = record;
+  for (const migration of pending) {
+    const { ctx, commit } = createContext();
+    try {
+      await migration.up(ctx);
+      await commit();
+    } catch (error) {
+      console.error(
+        `Storage migration v${migration.version} (${migration.name}) failed:`,
+        error,
+      );
+      return {
+        fromVersion,
+        toVersion: current.version,
+        failed: {
+          version: migration.version,
+          name: migration.name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    const appliedAt = Date.now();
+    current = {
+      version: migration.version,
+      updatedAt: appliedAt,
+      applied: [
+        ...current.applied,
+        { version: migration.version, name: migration.name, appliedAt },
+      ],
+    };
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, JSON.stringify(current));
+  }
+
+  return { fromVersion, toVersion: current.version, failed: null };
+};
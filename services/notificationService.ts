@@ -1,7 +1,11 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import { storage, BookmarkedManga } from "./storage";
-import { mangadexApi } from "./mangadex";
+import { mangadexApi, Chapter, Manga } from "./mangadex";
+import { readState } from "./readState";
+import { countChapters } from "./scanlationGroups";
+import { authorFollows, FollowedAuthor } from "./authorFollows";
+import { autoDownload, AutoDownloadCandidate } from "./autoDownload";
 
 let Notifications: any = null;
 let TaskManager: any = null;
@@ -14,26 +18,89 @@ if (Platform.OS !== "web") {
 }
 
 const BACKGROUND_FETCH_TASK = "MANGA_UPDATE_CHECK_TASK";
-const LAST_CHAPTER_COUNTS_KEY = "@mangareader_last_chapter_counts";
-const NOTIFICATION_SETTINGS_KEY = "@mangareader_notification_settings";
+export const LAST_CHAPTER_COUNTS_KEY = "@mangareader_last_chapter_counts";
+export const NOTIFICATION_SETTINGS_KEY = "@mangareader_notification_settings";
 
 export interface NotificationSettings {
   enabled: boolean;
   checkIntervalMinutes: number;
 }
 
-interface ChapterCountRecord {
+export interface ChapterCountRecord {
   mangaId: string;
   lastChapterCount: number;
   lastCheckedAt: number;
   latestChapterNumber: string;
+  // publish time of the newest chapter, used to sort the library
+  latestUploadAt?: number;
 }
 
-const defaultNotificationSettings: NotificationSettings = {
+export interface NewSeriesUpdate {
+  author: FollowedAuthor;
+  manga: Manga;
+}
+
+export const defaultNotificationSettings: NotificationSettings = {
   enabled: true,
   checkIntervalMinutes: 60,
 };
 
+const getLatestUploadAt = (chapters: Chapter[]): number | undefined => {
+  let latest = 0;
+  for (const chapter of chapters) {
+    const publishedAt = Date.parse(chapter.publishedAt);
+    if (publishedAt > latest) latest = publishedAt;
+  }
+  return latest || undefined;
+};
+
+// Looks for titles by followed authors that weren't there last time and
+// remembers them so each new series is reported once.
+const checkFollowedAuthors = async (
+  adultMode: boolean,
+  notify: boolean,
+): Promise<NewSeriesUpdate[]> => {
+  const followed = await authorFollows.getFollowedAuthors();
+  const updates: NewSeriesUpdate[] = [];
+
+  for (const author of followed) {
+    try {
+      const works = await mangadexApi.getAuthorWorks(author.id, adultMode, {
+        cache: "no-cache",
+      });
+      const known = new Set(author.knownMangaIds);
+      const newWorks = works.filter((manga) => !known.has(manga.id));
+      if (newWorks.length === 0) continue;
+
+      for (const manga of newWorks) {
+        updates.push({ author, manga });
+        if (!notify) continue;
+        await Notifications?.scheduleNotificationAsync({
+          content: {
+            title: `New Series from ${author.name}`,
+            body: manga.title,
+            data: {
+              mangaId: manga.id,
+              authorId: author.id,
+              type: "new_series",
+            },
+            sound: true,
+          },
+          trigger: null,
+        });
+      }
+      await authorFollows.addKnownManga(
+        author.id,
+        newWorks.map((manga) => manga.id),
+      );
+    } catch (error) {
+      console.error(`Failed to check works by ${author.name}:`, error);
+    }
+  }
+
+  return updates;
+};
+
 if (Notifications) {
   Notifications.setNotificationHandler({
     handleNotification: async () => ({
@@ -52,60 +119,76 @@ const checkForUpdatesTask = async () => {
     ? { ...defaultNotificationSettings, ...JSON.parse(settings) }
     : defaultNotificationSettings;
 
-  if (!notificationSettings.enabled) {
-    return BackgroundFetch?.BackgroundFetchResult?.NoData || 1;
-  }
+  const notify: boolean = notificationSettings.enabled;
 
   try {
-    const bookmarksData = await AsyncStorage.getItem("@mangareader_bookmarks");
-    const bookmarks = bookmarksData ? JSON.parse(bookmarksData) : [];
+    const allBookmarks = await storage.getBookmarks();
+    const appSettings = await storage.getSettings();
+    // With notifications off the task only runs for auto-downloads, so only
+    // opted-in manga need their feeds fetched. New series left unreported
+    // would be marked as known.
+    const enabledIds = notify ? null : await autoDownload.getEnabledMangaIds();
+    const bookmarks = enabledIds
+      ? allBookmarks.filter((manga) => enabledIds.has(manga.id))
+      : allBookmarks;
+    const newSeries = notify
+      ? await checkFollowedAuthors(appSettings.adultMode, true)
+      : [];
     if (bookmarks.length === 0) {
-      return BackgroundFetch?.BackgroundFetchResult?.NoData || 1;
+      return newSeries.length > 0
+        ? BackgroundFetch?.BackgroundFetchResult?.NewData || 2
+        : BackgroundFetch?.BackgroundFetchResult?.NoData || 1;
     }
 
-    const settingsData = await AsyncStorage.getItem("@mangareader_settings");
-    const appSettings = settingsData ? JSON.parse(settingsData) : { chapterLanguages: ["en"], adultMode: false };
-
     const countsData = await AsyncStorage.getItem(LAST_CHAPTER_COUNTS_KEY);
     const lastCounts = countsData ? JSON.parse(countsData) : {};
+    const candidates: AutoDownloadCandidate[] = [];
 
     for (const manga of bookmarks) {
       try {
-        await new Promise((resolve) => setTimeout(resolve, 500));
         const chapters = await mangadexApi.getChapters(
           manga.id,
           appSettings.chapterLanguages,
-          appSettings.adultMode
+          appSettings.adultMode,
+          { cache: "no-cache" },
         );
 
-        const chapterCount = chapters.length;
+        const chapterCount = countChapters(chapters);
         const latestChapter = chapters.length > 0 ? chapters[chapters.length - 1].chapter : "0";
         const lastRecord = lastCounts[manga.id];
 
         if (lastRecord && chapterCount > lastRecord.lastChapterCount) {
-          await Notifications?.scheduleNotificationAsync({
-            content: {
-              title: "New Chapter Available!",
-              body: `${manga.title} - Chapter ${latestChapter} is now available`,
-              data: { mangaId: manga.id, type: "new_chapter" },
-              sound: true,
-            },
-            trigger: null,
-          });
+          if (notify) {
+            await Notifications?.scheduleNotificationAsync({
+              content: {
+                title: "New Chapter Available!",
+                body: `${manga.title} - Chapter ${latestChapter} is now available`,
+                data: { mangaId: manga.id, type: "new_chapter" },
+                sound: true,
+              },
+              trigger: null,
+            });
+          }
         }
+        candidates.push({ manga, chapters });
 
         lastCounts[manga.id] = {
           mangaId: manga.id,
           lastChapterCount: chapterCount,
           lastCheckedAt: Date.now(),
           latestChapterNumber: latestChapter,
+          latestUploadAt: getLatestUploadAt(chapters),
         };
+        await readState.setChapterCount(manga.id, chapterCount);
       } catch (error) {
         console.error(`Background: Failed to check ${manga.title}:`, error);
       }
     }
 
     await AsyncStorage.setItem(LAST_CHAPTER_COUNTS_KEY, JSON.stringify(lastCounts));
+    await autoDownload.queueNewChapters(candidates).catch((error) => {
+      console.error("Background: Failed to queue new chapters:", error);
+    });
     console.log("Background fetch task completed successfully");
     return BackgroundFetch?.BackgroundFetchResult?.NewData || 2;
   } catch (error) {
@@ -203,8 +286,15 @@ export const notificationService = {
       JSON.stringify(updated)
     );
 
-    if (updated.enabled) {
-      await this.registerBackgroundTask(updated.checkIntervalMinutes);
+    await this.syncBackgroundTask();
+  },
+
+  // The update check also queues auto-downloads, so it keeps running
+  // while notifications are off as long as something is opted in
+  async syncBackgroundTask(): Promise<void> {
+    const settings = await this.getNotificationSettings();
+    if (settings.enabled || (await autoDownload.hasOptIns())) {
+      await this.registerBackgroundTask(settings.checkIntervalMinutes);
     } else {
       await this.unregisterBackgroundTask();
     }
@@ -222,7 +312,8 @@ export const notificationService = {
   async saveChapterCount(
     mangaId: string,
     chapterCount: number,
-    latestChapterNumber: string
+    latestChapterNumber: string,
+    latestUploadAt?: number,
   ): Promise<void> {
     const counts = await this.getLastChapterCounts();
     counts[mangaId] = {
@@ -230,11 +321,13 @@ export const notificationService = {
       lastChapterCount: chapterCount,
       lastCheckedAt: Date.now(),
       latestChapterNumber,
+      latestUploadAt,
     };
     await AsyncStorage.setItem(
       LAST_CHAPTER_COUNTS_KEY,
       JSON.stringify(counts)
     );
+    await readState.setChapterCount(mangaId, chapterCount);
   },
 
   async checkForUpdates(): Promise<{
@@ -243,36 +336,39 @@ export const notificationService = {
       newChapterCount: number;
       latestChapter: string;
     }>;
+    newSeries: NewSeriesUpdate[];
+    queuedChapters: number;
   }> {
     const settings = await this.getNotificationSettings();
-    if (!settings.enabled) {
-      return { updatedManga: [] };
-    }
+    const appSettings = await storage.getSettings();
+    const newSeries = await checkFollowedAuthors(
+      appSettings.adultMode,
+      settings.enabled,
+    );
 
     const bookmarks = await storage.getBookmarks();
     if (bookmarks.length === 0) {
-      return { updatedManga: [] };
+      return { updatedManga: [], newSeries, queuedChapters: 0 };
     }
 
     const lastCounts = await this.getLastChapterCounts();
-    const appSettings = await storage.getSettings();
     const updatedManga: Array<{
       manga: BookmarkedManga;
       newChapterCount: number;
       latestChapter: string;
     }> = [];
+    const candidates: AutoDownloadCandidate[] = [];
 
     for (const manga of bookmarks) {
       try {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
         const chapters = await mangadexApi.getChapters(
           manga.id,
           appSettings.chapterLanguages,
-          appSettings.adultMode
+          appSettings.adultMode,
+          { cache: "no-cache" },
         );
 
-        const chapterCount = chapters.length;
+        const chapterCount = countChapters(chapters);
         const latestChapter =
           chapters.length > 0
             ? chapters[chapters.length - 1].chapter
@@ -290,15 +386,23 @@ export const notificationService = {
               latestChapter,
             });
 
-            await this.sendNewChapterNotification(
-              manga.title,
-              latestChapter,
-              manga.id
-            );
+            if (settings.enabled) {
+              await this.sendNewChapterNotification(
+                manga.title,
+                latestChapter,
+                manga.id,
+              );
+            }
           }
         }
+        candidates.push({ manga, chapters });
 
-        await this.saveChapterCount(manga.id, chapterCount, latestChapter);
+        await this.saveChapterCount(
+          manga.id,
+          chapterCount,
+          latestChapter,
+          getLatestUploadAt(chapters),
+        );
       } catch (error) {
         console.error(
           `Failed to check updates for ${manga.title}:`,
@@ -307,7 +411,14 @@ export const notificationService = {
       }
     }
 
-    return { updatedManga };
+    let queuedChapters = 0;
+    try {
+      queuedChapters = await autoDownload.queueNewChapters(candidates);
+    } catch (error) {
+      console.error("Failed to queue new chapters:", error);
+    }
+
+    return { updatedManga, newSeries, queuedChapters };
   },
 
   async initializeChapterCounts(): Promise<void> {
@@ -318,7 +429,6 @@ export const notificationService = {
     for (const manga of bookmarks) {
       if (!lastCounts[manga.id]) {
         try {
-          await new Promise((resolve) => setTimeout(resolve, 500));
           const chapters = await mangadexApi.getChapters(
             manga.id,
             appSettings.chapterLanguages,
@@ -330,8 +440,9 @@ export const notificationService = {
               : "0";
           await this.saveChapterCount(
             manga.id,
-            chapters.length,
-            latestChapter
+            countChapters(chapters),
+            latestChapter,
+            getLatestUploadAt(chapters),
           );
         } catch (error) {
           console.error(
@@ -403,8 +514,9 @@ export const notificationService = {
   async initialize(): Promise<void> {
     const settings = await this.getNotificationSettings();
     const hasPermission = await this.requestPermissions();
+    const autoDownloading = await autoDownload.hasOptIns();
 
-    if (hasPermission && settings.enabled) {
+    if ((hasPermission && settings.enabled) || autoDownloading) {
       await this.initializeChapterCounts();
       await this.registerBackgroundTask(settings.checkIntervalMinutes);
     }
@@ -416,6 +528,8 @@ export const notificationService = {
       newChapterCount: number;
       latestChapter: string;
     }>;
+    newSeries: NewSeriesUpdate[];
+    queuedChapters: number;
   }> {
     return await this.checkForUpdates();
   },
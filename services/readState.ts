@@ -0,0 +1,219 @@
+import * as SQLite from "expo-sqlite";
+import {
+  getDatabase,
+  writeReadState,
+  ReadChapterRow,
+  ReadStateRow,
+} from "./database";
+import { Chapter } from "./mangadex";
+
+export interface MangaReadState {
+  // chapterId -> when it was read (0 when imported without a timestamp)
+  chapters: Record<string, number>;
+  // last chapter total seen for this manga, used for unread counts
+  chapterCount: number;
+  updatedAt: number;
+}
+
+export type ReadStateIndex = Record<string, MangaReadState>;
+
+// Versions of a chapter share its number, so reads are counted per number.
+// number is null for chapters without one.
+export interface ReadChapter {
+  id: string;
+  number: string | null;
+}
+
+export const toReadChapter = (chapter: Chapter): ReadChapter => ({
+  id: chapter.id,
+  number: chapter.hasNumber ? chapter.chapter : null,
+});
+
+const emptyState = (): MangaReadState => ({
+  chapters: {},
+  chapterCount: 0,
+  updatedAt: 0,
+});
+
+// Creates the manga's row on first use and bumps it otherwise
+const touch = (db: SQLite.SQLiteDatabase, mangaId: string) =>
+  db.runAsync(
+    "INSERT INTO read_state (manga_id, chapter_count, updated_at) VALUES (?, 0, ?) ON CONFLICT (manga_id) DO UPDATE SET updated_at = excluded.updated_at",
+    mangaId,
+    Date.now(),
+  );
+
+export const replaceReadState = async (
+  db: SQLite.SQLiteDatabase,
+  index: ReadStateIndex,
+): Promise<void> => {
+  await db.execAsync("DELETE FROM read_state; DELETE FROM read_chapters;");
+  for (const [mangaId, state] of Object.entries(index)) {
+    await writeReadState(db, mangaId, state);
+  }
+};
+
+export const readState = {
+  async getAll(): Promise<ReadStateIndex> {
+    try {
+      const db = await getDatabase();
+      const states = await db.getAllAsync<ReadStateRow>(
+        "SELECT * FROM read_state",
+      );
+      const chapters = await db.getAllAsync<ReadChapterRow>(
+        "SELECT * FROM read_chapters",
+      );
+      const index: ReadStateIndex = {};
+      for (const row of states) {
+        index[row.manga_id] = {
+          chapters: {},
+          chapterCount: row.chapter_count,
+          updatedAt: row.updated_at,
+        };
+      }
+      for (const row of chapters) {
+        const state = index[row.manga_id] || emptyState();
+        state.chapters[row.chapter_id] = row.read_at;
+        index[row.manga_id] = state;
+      }
+      return index;
+    } catch {
+      return {};
+    }
+  },
+
+  async getMangaState(mangaId: string): Promise<MangaReadState> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<ReadStateRow>(
+        "SELECT * FROM read_state WHERE manga_id = ?",
+        mangaId,
+      );
+      const chapters = await db.getAllAsync<ReadChapterRow>(
+        "SELECT * FROM read_chapters WHERE manga_id = ?",
+        mangaId,
+      );
+      const state: MangaReadState = row
+        ? {
+            chapters: {},
+            chapterCount: row.chapter_count,
+            updatedAt: row.updated_at,
+          }
+        : emptyState();
+      for (const chapter of chapters) {
+        state.chapters[chapter.chapter_id] = chapter.read_at;
+      }
+      return state;
+    } catch {
+      return emptyState();
+    }
+  },
+
+  async getReadChapters(mangaId: string): Promise<Record<string, number>> {
+    const state = await this.getMangaState(mangaId);
+    return state.chapters;
+  },
+
+  async markRead(
+    mangaId: string,
+    chapter: ReadChapter,
+    readAt: number = Date.now(),
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync(
+        "INSERT OR REPLACE INTO read_chapters (manga_id, chapter_id, chapter_number, read_at) VALUES (?, ?, ?, ?)",
+        mangaId,
+        chapter.id,
+        chapter.number,
+        readAt,
+      );
+      await touch(txn, mangaId);
+    });
+  },
+
+  async markManyRead(
+    mangaId: string,
+    chapters: ReadChapter[],
+    readAt: number = Date.now(),
+  ): Promise<number> {
+    if (chapters.length === 0) return 0;
+    const db = await getDatabase();
+    let added = 0;
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const chapter of chapters) {
+        const result = await txn.runAsync(
+          "INSERT OR IGNORE INTO read_chapters (manga_id, chapter_id, chapter_number, read_at) VALUES (?, ?, ?, ?)",
+          mangaId,
+          chapter.id,
+          chapter.number,
+          readAt,
+        );
+        added += result.changes;
+      }
+      await touch(txn, mangaId);
+    });
+    return added;
+  },
+
+  async markPreviousAsRead(
+    mangaId: string,
+    orderedChapters: ReadChapter[],
+    chapterId: string,
+  ): Promise<number> {
+    const position = orderedChapters.findIndex((c) => c.id === chapterId);
+    if (position <= 0) return 0;
+    return this.markManyRead(mangaId, orderedChapters.slice(0, position));
+  },
+
+  async markUnread(mangaId: string, chapterIds: string[]): Promise<void> {
+    if (chapterIds.length === 0) return;
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const chapterId of chapterIds) {
+        await txn.runAsync(
+          "DELETE FROM read_chapters WHERE manga_id = ? AND chapter_id = ?",
+          mangaId,
+          chapterId,
+        );
+      }
+      await txn.runAsync(
+        "UPDATE read_state SET updated_at = ? WHERE manga_id = ?",
+        Date.now(),
+        mangaId,
+      );
+    });
+  },
+
+  // The comparison is part of the upsert so it can't act on a stale count
+  async setChapterCount(mangaId: string, chapterCount: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "INSERT INTO read_state (manga_id, chapter_count, updated_at) VALUES (?, ?, ?) ON CONFLICT (manga_id) DO UPDATE SET chapter_count = excluded.chapter_count, updated_at = excluded.updated_at WHERE chapter_count != excluded.chapter_count",
+      mangaId,
+      chapterCount,
+      Date.now(),
+    );
+  },
+
+  // Reading two versions of a chapter still counts it once
+  async getUnreadCounts(): Promise<Record<string, number>> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{
+        manga_id: string;
+        chapter_count: number;
+        read_count: number;
+      }>(
+        "SELECT s.manga_id, s.chapter_count, COUNT(DISTINCT COALESCE(c.chapter_number, c.chapter_id)) AS read_count FROM read_state s LEFT JOIN read_chapters c ON c.manga_id = s.manga_id WHERE s.chapter_count > 0 GROUP BY s.manga_id",
+      );
+      const counts: Record<string, number> = {};
+      for (const row of rows) {
+        counts[row.manga_id] = Math.max(0, row.chapter_count - row.read_count);
+      }
+      return counts;
+    } catch {
+      return {};
+    }
+  },
+};
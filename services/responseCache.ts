@@ -0,0 +1,209 @@
+import {
+  apiClient,
+  isAbortError,
+  NetworkError,
+  RateLimitError,
+  RequestOptions,
+  ServerError,
+} from "./apiClient";
+import { getDatabase } from "./database";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Least recently read entries are dropped once the cache grows past this
+const MAX_CACHE_BYTES = 20 * 1024 * 1024;
+
+interface CacheRule {
+  pattern: RegExp;
+  // served without a request while younger than this
+  ttlMs: number;
+  // served while revalidating in the background until this age
+  staleMs: number;
+}
+
+// First matching rule wins; URLs that match none aren't cached.
+const CACHE_RULES: CacheRule[] = [
+  { pattern: /\/statistics\/manga[/?]/, ttlMs: HOUR, staleMs: 7 * DAY },
+  { pattern: /\/manga\/tag$/, ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  { pattern: /\/manga\/[^/?]+\/feed\?/, ttlMs: 30 * MINUTE, staleMs: 7 * DAY },
+  {
+    pattern: /\/manga\/[^/?]+\/aggregate\?/,
+    ttlMs: 30 * MINUTE,
+    staleMs: 7 * DAY,
+  },
+  { pattern: /\/chapter\?/, ttlMs: 30 * MINUTE, staleMs: 7 * DAY },
+  { pattern: /\/manga\/[^/?]+(\?|$)/, ttlMs: DAY, staleMs: 30 * DAY },
+  { pattern: /\/author\/[^/?]+$/, ttlMs: DAY, staleMs: 30 * DAY },
+  { pattern: /\/list\/[^/?]+$/, ttlMs: HOUR, staleMs: 7 * DAY },
+  { pattern: /\/manga\?/, ttlMs: 15 * MINUTE, staleMs: DAY },
+];
+
+interface CacheRow {
+  body: string;
+  fetched_at: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const ruleFor = (url: string) => CACHE_RULES.find((r) => r.pattern.test(url));
+
+// Failures where an old copy is better than an error screen
+const canServeStale = (error: unknown) =>
+  error instanceof NetworkError ||
+  error instanceof RateLimitError ||
+  error instanceof ServerError;
+
+const revalidating = new Map<string, Promise<unknown>>();
+
+const readEntry = async (url: string): Promise<CacheRow | null> => {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<CacheRow>(
+      "SELECT body, fetched_at FROM response_cache WHERE url = ?",
+      url,
+    );
+    if (row) {
+      await db.runAsync(
+        "UPDATE response_cache SET accessed_at = ? WHERE url = ?",
+        Date.now(),
+        url,
+      );
+    }
+    return row;
+  } catch {
+    return null;
+  }
+};
+
+const evict = async () => {
+  const db = await getDatabase();
+  const total = await db.getFirstAsync<{ bytes: number | null }>(
+    "SELECT SUM(size) AS bytes FROM response_cache",
+  );
+  let excess = (total?.bytes || 0) - MAX_CACHE_BYTES;
+  if (excess <= 0) return;
+
+  const rows = await db.getAllAsync<{ url: string; size: number }>(
+    "SELECT url, size FROM response_cache ORDER BY accessed_at ASC",
+  );
+  const doomed: string[] = [];
+  for (const row of rows) {
+    if (excess <= 0) break;
+    doomed.push(row.url);
+    excess -= row.size;
+  }
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const url of doomed) {
+      await txn.runAsync("DELETE FROM response_cache WHERE url = ?", url);
+    }
+  });
+};
+
+const writeEntry = async (url: string, data: unknown) => {
+  try {
+    const body = JSON.stringify(data);
+    const now = Date.now();
+    const db = await getDatabase();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO response_cache (url, body, size, fetched_at, accessed_at) VALUES (?, ?, ?, ?, ?)",
+      url,
+      body,
+      body.length,
+      now,
+      now,
+    );
+    await evict();
+  } catch (error) {
+    console.error("Failed to write response cache:", error);
+  }
+};
+
+const fetchAndStore = async <T>(
+  url: string,
+  options: RequestOptions,
+): Promise<T> => {
+  const data = await apiClient.getJson<T>(url, options);
+  await writeEntry(url, data);
+  return data;
+};
+
+const revalidate = (url: string) => {
+  if (revalidating.has(url)) return;
+  // Not tied to the caller's signal; the screen may already be gone
+  const promise = fetchAndStore(url, {})
+    .catch((error) => {
+      if (!isAbortError(error)) {
+        console.warn("Background refresh failed:", url, error);
+      }
+    })
+    .finally(() => revalidating.delete(url));
+  revalidating.set(url, promise);
+};
+
+export const responseCache = {
+  async getJson<T = any>(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const rule = ruleFor(url);
+    if (!rule) return apiClient.getJson<T>(url, options);
+
+    const cached = await readEntry(url);
+    if (cached && options.cache !== "no-cache") {
+      const age = Date.now() - cached.fetched_at;
+      if (age < rule.ttlMs) return JSON.parse(cached.body);
+      if (age < rule.staleMs) {
+        revalidate(url);
+        return JSON.parse(cached.body);
+      }
+    }
+
+    try {
+      return await fetchAndStore<T>(url, options);
+    } catch (error) {
+      // Offline or MangaDex is struggling: fall back to any copy we have
+      if (cached && canServeStale(error)) return JSON.parse(cached.body);
+      throw error;
+    }
+  },
+
+  // For callers that fill several entries from one batched request
+  async peek<T = any>(
+    url: string,
+  ): Promise<{ data: T; fresh: boolean } | null> {
+    const rule = ruleFor(url);
+    const cached = rule ? await readEntry(url) : null;
+    if (!rule || !cached) return null;
+    return {
+      data: JSON.parse(cached.body),
+      fresh: Date.now() - cached.fetched_at < rule.ttlMs,
+    };
+  },
+
+  async put(url: string, data: unknown): Promise<void> {
+    if (ruleFor(url)) await writeEntry(url, data);
+  },
+
+  async getStats(): Promise<ResponseCacheStats> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{
+        entries: number;
+        bytes: number | null;
+      }>("SELECT COUNT(*) AS entries, SUM(size) AS bytes FROM response_cache");
+      return { entries: row?.entries || 0, bytes: row?.bytes || 0 };
+    } catch {
+      return { entries: 0, bytes: 0 };
+    }
+  },
+
+  async clear(): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM response_cache");
+  },
+};
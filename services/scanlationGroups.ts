@@ -0,0 +1,165 @@
+import { getDatabase } from "./database";
+import { Chapter, ScanlationGroup } from "./mangadex";
+
+// Per-manga choice of which scanlation to read. Preferred groups are ranked
+// in the order they were picked; blocked groups are never picked.
+export interface GroupPreferences {
+  preferred: string[];
+  blocked: string[];
+}
+
+export interface ChapterVersions {
+  key: string;
+  chapter: string;
+  versions: Chapter[];
+}
+
+interface GroupPreferencesRow {
+  manga_id: string;
+  preferred: string;
+  blocked: string;
+}
+
+export const emptyGroupPreferences: GroupPreferences = {
+  preferred: [],
+  blocked: [],
+};
+
+const toPreferences = (row: GroupPreferencesRow): GroupPreferences => ({
+  preferred: JSON.parse(row.preferred),
+  blocked: JSON.parse(row.blocked),
+});
+
+// Numbers that turn up in more than one volume. Chapters without a volume
+// don't count, since groups often leave it empty.
+const repeatedNumbers = (chapters: Chapter[]): Set<string> => {
+  const volumes = new Map<string, Set<string>>();
+  for (const chapter of chapters) {
+    if (!chapter.hasNumber || !chapter.volume) continue;
+    const seen = volumes.get(chapter.chapter) ?? new Set<string>();
+    seen.add(chapter.volume);
+    volumes.set(chapter.chapter, seen);
+  }
+  return new Set(
+    [...volumes].filter(([, seen]) => seen.size > 1).map(([number]) => number),
+  );
+};
+
+// Versions of a chapter share its number, and its volume too when the number
+// repeats across volumes. Chapters without a number are never versions of
+// each other.
+const chapterKey = (chapter: Chapter, repeated: Set<string>): string => {
+  if (!chapter.hasNumber) return `id:${chapter.id}`;
+  return repeated.has(chapter.chapter)
+    ? `${chapter.volume ?? ""}:${chapter.chapter}`
+    : chapter.chapter;
+};
+
+// Groups keep the order their first version appears in
+export const groupByChapter = (chapters: Chapter[]): ChapterVersions[] => {
+  const repeated = repeatedNumbers(chapters);
+  const grouped = new Map<string, ChapterVersions>();
+  for (const chapter of chapters) {
+    const key = chapterKey(chapter, repeated);
+    const group = grouped.get(key);
+    if (group) {
+      group.versions.push(chapter);
+    } else {
+      grouped.set(key, { key, chapter: chapter.chapter, versions: [chapter] });
+    }
+  }
+  return [...grouped.values()];
+};
+
+export const isBlockedVersion = (
+  chapter: Chapter,
+  preferences: GroupPreferences,
+): boolean =>
+  chapter.groups.length > 0 &&
+  chapter.groups.every((group) => preferences.blocked.includes(group.id));
+
+// Lower is better; versions from no preferred group rank after all others
+const rankVersion = (chapter: Chapter, preferences: GroupPreferences) => {
+  const ranks = chapter.groups
+    .map((group) => preferences.preferred.indexOf(group.id))
+    .filter((rank) => rank >= 0);
+  return ranks.length > 0 ? Math.min(...ranks) : preferences.preferred.length;
+};
+
+// Best preferred group first, then the earliest upload. Returns null when
+// every version comes from a blocked group.
+export const pickVersion = (
+  versions: Chapter[],
+  preferences: GroupPreferences,
+): Chapter | null => {
+  const allowed = versions.filter((v) => !isBlockedVersion(v, preferences));
+  if (allowed.length === 0) return null;
+  return allowed.reduce((best, version) => {
+    const diff =
+      rankVersion(version, preferences) - rankVersion(best, preferences);
+    if (diff !== 0) return diff < 0 ? version : best;
+    return version.publishedAt < best.publishedAt ? version : best;
+  });
+};
+
+// One chapter per number, the version that reading and downloads should use
+export const resolveChapters = (
+  chapters: Chapter[],
+  preferences: GroupPreferences,
+): Chapter[] =>
+  groupByChapter(chapters)
+    .map(({ versions }) => pickVersion(versions, preferences))
+    .filter((chapter): chapter is Chapter => chapter !== null);
+
+export const countChapters = (chapters: Chapter[]): number =>
+  groupByChapter(chapters).length;
+
+export const getGroups = (chapters: Chapter[]): ScanlationGroup[] => {
+  const groups = new Map<string, ScanlationGroup>();
+  for (const chapter of chapters) {
+    for (const group of chapter.groups) {
+      groups.set(group.id, group);
+    }
+  }
+  return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const scanlationGroups = {
+  async getPreferences(mangaId: string): Promise<GroupPreferences> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<GroupPreferencesRow>(
+        "SELECT * FROM group_preferences WHERE manga_id = ?",
+        mangaId,
+      );
+      return row ? toPreferences(row) : emptyGroupPreferences;
+    } catch {
+      return emptyGroupPreferences;
+    }
+  },
+
+  async savePreferences(
+    mangaId: string,
+    preferences: GroupPreferences,
+  ): Promise<void> {
+    const db = await getDatabase();
+    const blocked = [...new Set(preferences.blocked)];
+    const preferred = [...new Set(preferences.preferred)].filter(
+      (id) => !blocked.includes(id),
+    );
+    if (preferred.length === 0 && blocked.length === 0) {
+      await db.runAsync(
+        "DELETE FROM group_preferences WHERE manga_id = ?",
+        mangaId,
+      );
+      return;
+    }
+    await db.runAsync(
+      "INSERT OR REPLACE INTO group_preferences (manga_id, preferred, blocked, updated_at) VALUES (?, ?, ?, ?)",
+      mangaId,
+      JSON.stringify(preferred),
+      JSON.stringify(blocked),
+      Date.now(),
+    );
+  },
+};
@@ -0,0 +1,267 @@
+import { historyLog, HistoryEntry } from "./historyLog";
+import { storage } from "./storage";
+import { downloadManager } from "./downloadManager";
+import { Manga, MangaPerson } from "./mangadex";
+
+export type StatsPeriod = "day" | "week" | "month";
+
+export interface StatsBucket {
+  key: string;
+  label: string;
+  start: number;
+  chapters: number;
+  pages: number;
+  timeMs: number;
+}
+
+export interface RankedItem {
+  // Tells apart items that share a name, like two authors
+  key: string;
+  name: string;
+  chapters: number;
+}
+
+export interface ReadingStats {
+  totalTimeMs: number;
+  totalSessions: number;
+  chaptersRead: number;
+  pagesRead: number;
+  mangaRead: number;
+  pagesPerMinute: number;
+  currentStreak: number;
+  longestStreak: number;
+  buckets: Record<StatsPeriod, StatsBucket[]>;
+  topTags: RankedItem[];
+  topAuthors: RankedItem[];
+  types: RankedItem[];
+}
+
+interface MangaMeta {
+  tags: string[];
+  authors: MangaPerson[];
+  type: string;
+}
+
+const BUCKET_COUNTS: Record<StatsPeriod, number> = {
+  day: 14,
+  week: 8,
+  month: 6,
+};
+const TOP_LIMIT = 5;
+// Sessions shorter than this are usually a reader opened by accident and
+// would skew the pages-per-minute rate.
+const MIN_TIMED_SESSION_MS = 30 * 1000;
+
+const startOfDay = (timestamp: number): Date => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+const periodStart = (timestamp: number, period: StatsPeriod): Date => {
+  const date = startOfDay(timestamp);
+  if (period === "week") {
+    // weeks start on Monday
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (period === "month") {
+    date.setDate(1);
+  }
+  return date;
+};
+
+const stepBack = (date: Date, period: StatsPeriod): Date => {
+  const previous = new Date(date);
+  if (period === "day") previous.setDate(previous.getDate() - 1);
+  else if (period === "week") previous.setDate(previous.getDate() - 7);
+  else previous.setMonth(previous.getMonth() - 1);
+  return previous;
+};
+
+const bucketLabel = (date: Date, period: StatsPeriod): string => {
+  if (period === "month") {
+    return date.toLocaleDateString([], { month: "short" });
+  }
+  return `${date.getDate()}/${date.getMonth() + 1}`;
+};
+
+const buildBuckets = (
+  sessions: HistoryEntry[],
+  period: StatsPeriod,
+  now: number,
+): StatsBucket[] => {
+  const buckets: StatsBucket[] = [];
+  let cursor = periodStart(now, period);
+  for (let i = 0; i < BUCKET_COUNTS[period]; i++) {
+    buckets.unshift({
+      key: `${period}-${cursor.getTime()}`,
+      label: bucketLabel(cursor, period),
+      start: cursor.getTime(),
+      chapters: 0,
+      pages: 0,
+      timeMs: 0,
+    });
+    cursor = stepBack(cursor, period);
+  }
+
+  const chaptersPerBucket = buckets.map(() => new Set<string>());
+  for (const session of sessions) {
+    const start = periodStart(session.startedAt, period).getTime();
+    const index = buckets.findIndex((b) => b.start === start);
+    if (index === -1) continue;
+    chaptersPerBucket[index].add(session.chapterId);
+    buckets[index].pages += session.pagesRead;
+    buckets[index].timeMs += session.endedAt - session.startedAt;
+  }
+  buckets.forEach((bucket, i) => {
+    bucket.chapters = chaptersPerBucket[i].size;
+  });
+
+  return buckets;
+};
+
+const computeStreaks = (sessions: HistoryEntry[], now: number) => {
+  const days = new Set(sessions.map((s) => dayKey(s.startedAt)));
+
+  let currentStreak = 0;
+  let cursor = startOfDay(now);
+  // A streak is still alive today if yesterday was a reading day.
+  if (!days.has(dayKey(cursor.getTime()))) cursor = stepBack(cursor, "day");
+  while (days.has(dayKey(cursor.getTime()))) {
+    currentStreak++;
+    cursor = stepBack(cursor, "day");
+  }
+
+  const sortedDays = [
+    ...new Set(sessions.map((s) => startOfDay(s.startedAt).getTime())),
+  ].sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  let previousKey: string | null = null;
+  for (const day of sortedDays) {
+    const yesterday = dayKey(stepBack(new Date(day), "day").getTime());
+    run = yesterday === previousKey ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previousKey = dayKey(day);
+  }
+
+  return { currentStreak, longestStreak };
+};
+
+const rank = (
+  counts: Map<string, number>,
+  limit?: number,
+  label: (key: string) => string = (key) => key,
+): RankedItem[] => {
+  const ranked = [...counts.entries()]
+    .map(([key, chapters]) => ({ key, name: label(key), chapters }))
+    .sort((a, b) => b.chapters - a.chapters);
+  return limit ? ranked.slice(0, limit) : ranked;
+};
+
+// Records saved before manga kept their author list only have the names
+// joined into one string
+const getAuthors = (
+  manga: Pick<Manga, "author" | "authors">,
+): MangaPerson[] => {
+  if (manga.authors?.length) return manga.authors;
+  if (!manga.author || manga.author === "Unknown") return [];
+  return manga.author.split(", ").map((name) => ({ id: name, name }));
+};
+
+// Sessions only carry the manga title, so tags/authors/types come from
+// whatever copy of the manga we still have locally.
+const loadMangaMeta = async (): Promise<Map<string, MangaMeta>> => {
+  const [bookmarks, history, savedInfo] = await Promise.all([
+    storage.getBookmarks(),
+    storage.getReadingHistory(),
+    downloadManager.getAllSavedMangaInfo(),
+  ]);
+
+  const meta = new Map<string, MangaMeta>();
+  for (const info of savedInfo) {
+    meta.set(info.mangaId, {
+      tags: info.tags,
+      authors: getAuthors(info),
+      type: info.type,
+    });
+  }
+  for (const manga of [...history.map((h) => h.manga), ...bookmarks]) {
+    meta.set(manga.id, {
+      tags: manga.tags,
+      authors: getAuthors(manga),
+      type: manga.type,
+    });
+  }
+  return meta;
+};
+
+export const statistics = {
+  async getReadingStats(now: number = Date.now()): Promise<ReadingStats> {
+    const [sessions, meta] = await Promise.all([
+      historyLog.getAllEntries(),
+      loadMangaMeta(),
+    ]);
+
+    let totalTimeMs = 0;
+    let pagesRead = 0;
+    let timedMs = 0;
+    let timedPages = 0;
+    const chapters = new Map<string, string>();
+    for (const session of sessions) {
+      const duration = Math.max(0, session.endedAt - session.startedAt);
+      totalTimeMs += duration;
+      pagesRead += session.pagesRead;
+      if (duration >= MIN_TIMED_SESSION_MS) {
+        timedMs += duration;
+        timedPages += session.pagesRead;
+      }
+      chapters.set(session.chapterId, session.mangaId);
+    }
+
+    const tagCounts = new Map<string, number>();
+    // Keyed by author id so two people with the same name stay apart
+    const authorCounts = new Map<string, number>();
+    const authorNames = new Map<string, string>();
+    const typeCounts = new Map<string, number>();
+    const bump = (counts: Map<string, number>, key: string) =>
+      counts.set(key, (counts.get(key) || 0) + 1);
+
+    for (const mangaId of chapters.values()) {
+      const manga = meta.get(mangaId);
+      if (!manga) continue;
+      manga.tags.forEach((tag) => bump(tagCounts, tag));
+      for (const author of manga.authors) {
+        authorNames.set(author.id, author.name);
+        bump(authorCounts, author.id);
+      }
+      bump(typeCounts, manga.type);
+    }
+
+    return {
+      totalTimeMs,
+      totalSessions: sessions.length,
+      chaptersRead: chapters.size,
+      pagesRead,
+      mangaRead: new Set(chapters.values()).size,
+      pagesPerMinute: timedMs > 0 ? timedPages / (timedMs / 60000) : 0,
+      ...computeStreaks(sessions, now),
+      buckets: {
+        day: buildBuckets(sessions, "day", now),
+        week: buildBuckets(sessions, "week", now),
+        month: buildBuckets(sessions, "month", now),
+      },
+      topTags: rank(tagCounts, TOP_LIMIT),
+      topAuthors: rank(
+        authorCounts,
+        TOP_LIMIT,
+        (id) => authorNames.get(id) || id,
+      ),
+      types: rank(typeCounts),
+    };
+  },
+};
@@ -1,12 +1,21 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { SQLiteDatabase } from "expo-sqlite";
 import { Manga } from "./mangadex";
-
-const KEYS = {
-  BOOKMARKS: "@mangareader_bookmarks",
-  READING_HISTORY: "@mangareader_history",
-  READING_PROGRESS: "@mangareader_progress",
+import {
+  getDatabase,
+  toHistoryItem,
+  toReadingProgress,
+  writeBookmark,
+  writeHistoryItem,
+  writeReadingProgress,
+  HistoryRow,
+  ReadingProgressRow,
+} from "./database";
+
+export const KEYS = {
   RECENT_SEARCHES: "@mangareader_searches",
   SETTINGS: "@mangareader_settings",
+  DOWNLOAD_QUEUE_PAUSED: "@mangareader_download_queue_paused",
 };
 
 export interface BookmarkedManga extends Manga {
@@ -29,6 +38,28 @@ export interface ReadingProgress {
   updatedAt: number;
 }
 
+export type RetentionRule =
+  | "forever"
+  | "afterRead"
+  | "daysAfterRead"
+  | "keepLatest";
+
+export interface RetentionPolicy {
+  rule: RetentionRule;
+  // Used by the "daysAfterRead" and "keepLatest" rules
+  days: number;
+  keepLatest: number;
+  // Total download size cap in MB, applied on top of the rule
+  quotaMb: number | null;
+}
+
+export interface AutoDownloadLimits {
+  wifiOnly: boolean;
+  maxChaptersPerRun: number;
+  // No new chapters are queued once downloads take up this many MB
+  storageCeilingMb: number | null;
+}
+
 export interface AppSettings {
   readingMode: "vertical" | "horizontal";
   readerType: "standard" | "lite" | "html";
@@ -38,9 +69,15 @@ export interface AppSettings {
   adultMode: boolean;
   volumeScrollEnabled: boolean;
   volumeScrollSensitivity: number;
+  showCardStatistics: boolean;
+  // Chapters downloaded side by side, and pages fetched at once per chapter
+  downloadConcurrency: number;
+  pageConcurrency: number;
+  downloadRetention: RetentionPolicy;
+  autoDownload: AutoDownloadLimits;
 }
 
-const defaultSettings: AppSettings = {
+export const defaultSettings: AppSettings = {
   readingMode: "vertical",
   readerType: "lite",
   theme: "auto",
@@ -49,47 +86,127 @@ const defaultSettings: AppSettings = {
   adultMode: false,
   volumeScrollEnabled: true,
   volumeScrollSensitivity: 50,
+  showCardStatistics: false,
+  downloadConcurrency: 2,
+  pageConcurrency: 4,
+  downloadRetention: {
+    rule: "forever",
+    days: 7,
+    keepLatest: 10,
+    quotaMb: null,
+  },
+  autoDownload: {
+    wifiOnly: true,
+    maxChaptersPerRun: 10,
+    storageCeilingMb: 2048,
+  },
+};
+
+const MAX_HISTORY_ITEMS = 50;
+
+// Takes the caller's transaction so a restore can land with the rest of
+// the library in one go
+export const replaceLibrary = async (
+  db: SQLiteDatabase,
+  library: {
+    bookmarks: BookmarkedManga[];
+    history: ReadingHistoryItem[];
+    progress: Record<string, ReadingProgress>;
+  },
+): Promise<void> => {
+  await db.execAsync(
+    "DELETE FROM bookmarks; DELETE FROM history; DELETE FROM reading_progress;",
+  );
+  for (const bookmark of library.bookmarks) {
+    await writeBookmark(db, bookmark);
+  }
+  for (const item of library.history.slice(0, MAX_HISTORY_ITEMS)) {
+    await writeHistoryItem(db, item);
+  }
+  for (const progress of Object.values(library.progress)) {
+    await writeReadingProgress(db, progress);
+  }
+  await db.runAsync(
+    "DELETE FROM bookmark_categories WHERE manga_id NOT IN (SELECT manga_id FROM bookmarks)",
+  );
 };
 
 export const storage = {
   async getBookmarks(): Promise<BookmarkedManga[]> {
     try {
-      const data = await AsyncStorage.getItem(KEYS.BOOKMARKS);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ manga: string }>(
+        "SELECT manga FROM bookmarks ORDER BY bookmarked_at DESC",
+      );
+      return rows.map((row) => JSON.parse(row.manga));
     } catch {
       return [];
     }
   },
 
-  async addBookmark(manga: Manga): Promise<void> {
-    const bookmarks = await this.getBookmarks();
-    const exists = bookmarks.some((b) => b.id === manga.id);
+  async addBookmark(
+    manga: Manga,
+    bookmarkedAt: number = Date.now(),
+  ): Promise<void> {
+    const db = await getDatabase();
+    await writeBookmark(db, { ...manga, bookmarkedAt }, false);
+  },
 
-    if (!exists) {
-      const bookmarkedManga: BookmarkedManga = {
-        ...manga,
-        bookmarkedAt: Date.now(),
-      };
-      bookmarks.unshift(bookmarkedManga);
-      await AsyncStorage.setItem(KEYS.BOOKMARKS, JSON.stringify(bookmarks));
+  // Keeps a bookmark's saved details in step with MangaDex
+  async updateBookmarkedManga(manga: Manga): Promise<void> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ bookmarked_at: number }>(
+      "SELECT bookmarked_at FROM bookmarks WHERE manga_id = ?",
+      manga.id,
+    );
+    if (row) {
+      await writeBookmark(db, { ...manga, bookmarkedAt: row.bookmarked_at });
     }
   },
 
   async removeBookmark(mangaId: string): Promise<void> {
-    const bookmarks = await this.getBookmarks();
-    const filtered = bookmarks.filter((b) => b.id !== mangaId);
-    await AsyncStorage.setItem(KEYS.BOOKMARKS, JSON.stringify(filtered));
+    const db = await getDatabase();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync("DELETE FROM bookmarks WHERE manga_id = ?", mangaId);
+      await txn.runAsync(
+        "DELETE FROM bookmark_categories WHERE manga_id = ?",
+        mangaId,
+      );
+    });
   },
 
   async isBookmarked(mangaId: string): Promise<boolean> {
-    const bookmarks = await this.getBookmarks();
-    return bookmarks.some((b) => b.id === mangaId);
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync(
+        "SELECT 1 FROM bookmarks WHERE manga_id = ?",
+        mangaId,
+      );
+      return row !== null;
+    } catch {
+      return false;
+    }
   },
 
+  // History rows keep a snapshot of each opened manga; the chapter and time
+  // come from its latest session, which also covers chapters reached inside
+  // the reader. SQLite fills the bare session columns from the MAX() row.
   async getReadingHistory(): Promise<ReadingHistoryItem[]> {
     try {
-      const data = await AsyncStorage.getItem(KEYS.READING_HISTORY);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<HistoryRow>(
+        `SELECT h.manga_id, h.manga,
+          COALESCE(s.chapter_id, h.last_chapter_id) AS last_chapter_id,
+          COALESCE(s.chapter_number, h.last_chapter_number) AS last_chapter_number,
+          COALESCE(MAX(s.started_at), h.last_read_at) AS last_read_at
+        FROM history h
+        LEFT JOIN reading_sessions s ON s.manga_id = h.manga_id
+        GROUP BY h.manga_id
+        ORDER BY last_read_at DESC
+        LIMIT ?`,
+        MAX_HISTORY_ITEMS,
+      );
+      return rows.map(toHistoryItem);
     } catch {
       return [];
     }
@@ -100,80 +217,55 @@ export const storage = {
     chapterId: string,
     chapterNumber: string,
   ): Promise<void> {
-    let history = await this.getReadingHistory();
-
-    history = history.filter((h) => h.manga.id !== manga.id);
-
-    const historyItem: ReadingHistoryItem = {
+    const db = await getDatabase();
+    await writeHistoryItem(db, {
       manga,
       lastReadAt: Date.now(),
       lastChapterId: chapterId,
       lastChapterNumber: chapterNumber,
-    };
-
-    history.unshift(historyItem);
-
-    if (history.length > 50) {
-      history = history.slice(0, 50);
-    }
-
-    await AsyncStorage.setItem(KEYS.READING_HISTORY, JSON.stringify(history));
+    });
   },
 
   async clearHistory(): Promise<void> {
-    await AsyncStorage.removeItem(KEYS.READING_HISTORY);
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM history");
   },
 
   async getReadingProgress(mangaId: string): Promise<ReadingProgress | null> {
     try {
-      const data = await AsyncStorage.getItem(KEYS.READING_PROGRESS);
-      const allProgress: Record<string, ReadingProgress> = data
-        ? JSON.parse(data)
-        : {};
-      return allProgress[mangaId] || null;
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<ReadingProgressRow>(
+        "SELECT * FROM reading_progress WHERE manga_id = ?",
+        mangaId,
+      );
+      return row ? toReadingProgress(row) : null;
     } catch {
       return null;
     }
   },
 
-  async saveReadingProgress(progress: ReadingProgress): Promise<void> {
+  async getAllReadingProgress(): Promise<Record<string, ReadingProgress>> {
     try {
-      const data = await AsyncStorage.getItem(KEYS.READING_PROGRESS);
-      const allProgress: Record<string, ReadingProgress> = data
-        ? JSON.parse(data)
-        : {};
-
-      allProgress[progress.mangaId] = {
-        ...progress,
-        updatedAt: Date.now(),
-      };
-
-      await AsyncStorage.setItem(
-        KEYS.READING_PROGRESS,
-        JSON.stringify(allProgress),
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ReadingProgressRow>(
+        "SELECT * FROM reading_progress",
       );
-    } catch (error) {
-      console.error("Failed to save reading progress:", error);
-    }
-  },
-
-  async getReadChapters(mangaId: string): Promise<string[]> {
-    try {
-      const key = `@mangareader_read_${mangaId}`;
-      const data = await AsyncStorage.getItem(key);
-      return data ? JSON.parse(data) : [];
+      const allProgress: Record<string, ReadingProgress> = {};
+      for (const row of rows) {
+        allProgress[row.manga_id] = toReadingProgress(row);
+      }
+      return allProgress;
     } catch {
-      return [];
+      return {};
     }
   },
 
-  async markChapterAsRead(mangaId: string, chapterId: string): Promise<void> {
-    const key = `@mangareader_read_${mangaId}`;
-    const readChapters = await this.getReadChapters(mangaId);
-
-    if (!readChapters.includes(chapterId)) {
-      readChapters.push(chapterId);
-      await AsyncStorage.setItem(key, JSON.stringify(readChapters));
+  async saveReadingProgress(progress: ReadingProgress): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeReadingProgress(db, { ...progress, updatedAt: Date.now() });
+    } catch (error) {
+      console.error("Failed to save reading progress:", error);
     }
   },
 
@@ -0,0 +1,588 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as DocumentPicker from "expo-document-picker";
+import { ungzip } from "pako";
+import { storage } from "./storage";
+import { getDatabase, writeReadingProgress } from "./database";
+import { readState, ReadChapter } from "./readState";
+import { Manga, normalizeManga } from "./mangadex";
+
+const UUID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+const MANGA_URL_PATTERN = new RegExp(
+  `/(?:manga|title)/(${UUID_PATTERN.source})`,
+  "i",
+);
+const CHAPTER_URL_PATTERN = new RegExp(
+  `/chapter/(${UUID_PATTERN.source})`,
+  "i",
+);
+// Source id of the English MangaDex extension, for backups that don't name
+// their sources
+const MANGADEX_SOURCE_ID = "2499283573021220255";
+
+export type TachiyomiBackupFormat = "protobuf" | "legacy-json";
+
+export interface BackupChapterEntry {
+  url: string;
+  name: string;
+  read: boolean;
+  lastPageRead: number;
+  chapterNumber: number;
+}
+
+export interface BackupHistoryEntry {
+  url: string;
+  lastRead: number;
+}
+
+export interface BackupMangaEntry {
+  source: string;
+  // From the backup's source list, when it has one
+  sourceName: string | null;
+  url: string;
+  title: string;
+  author: string | null;
+  artist: string | null;
+  description: string | null;
+  genres: string[];
+  status: number;
+  thumbnailUrl: string | null;
+  dateAdded: number;
+  favorite: boolean;
+  chapters: BackupChapterEntry[];
+  history: BackupHistoryEntry[];
+}
+
+export interface ImportedManga {
+  manga: Manga;
+  bookmarkedAt: number;
+  favorite: boolean;
+  readChapters: ReadChapter[];
+  progress: {
+    chapterId: string;
+    chapterNumber: string;
+    page: number;
+    lastReadAt: number;
+  } | null;
+  unmatchedChapters: number;
+}
+
+export interface UnmatchedEntry {
+  title: string;
+  source: string;
+  reason: string;
+}
+
+export interface ImportPlan {
+  format: TachiyomiBackupFormat;
+  matched: ImportedManga[];
+  unmatched: UnmatchedEntry[];
+}
+
+export interface ImportResult {
+  bookmarksAdded: number;
+  chaptersMarkedRead: number;
+  progressRestored: number;
+  unmatched: UnmatchedEntry[];
+}
+
+export class TachiyomiBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TachiyomiBackupError";
+  }
+}
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  let out = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i++];
+    if (b < 0x80) {
+      out += String.fromCharCode(b);
+    } else if (b < 0xe0) {
+      out += String.fromCharCode(((b & 0x1f) << 6) | (bytes[i++] & 0x3f));
+    } else if (b < 0xf0) {
+      out += String.fromCharCode(
+        ((b & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f),
+      );
+    } else {
+      out += String.fromCodePoint(
+        ((b & 0x07) << 18) |
+          ((bytes[i++] & 0x3f) << 12) |
+          ((bytes[i++] & 0x3f) << 6) |
+          (bytes[i++] & 0x3f),
+      );
+    }
+  }
+  return out;
+};
+
+// Minimal protobuf wire-format reader; only the field types used by the
+// Tachiyomi/Mihon backup schema are supported.
+class ProtoReader {
+  private pos = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  // Source ids use all 64 bits, more than a number holds exactly
+  varintString(): string {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    while (true) {
+      if (this.pos >= this.bytes.length) {
+        throw new TachiyomiBackupError("Backup file is truncated.");
+      }
+      const byte = this.bytes[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result.toString();
+      shift += BigInt(7);
+    }
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    while (true) {
+      if (this.pos >= this.bytes.length) {
+        throw new TachiyomiBackupError("Backup file is truncated.");
+      }
+      const byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+  }
+
+  tag(): { field: number; wireType: number } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wireType: key % 8 };
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    const end = this.pos + length;
+    if (end > this.bytes.length) {
+      throw new TachiyomiBackupError("Backup file is truncated.");
+    }
+    const slice = this.bytes.subarray(this.pos, end);
+    this.pos = end;
+    return slice;
+  }
+
+  string(): string {
+    return decodeUtf8(this.bytesField());
+  }
+
+  float(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.varint();
+        break;
+      case 1:
+        this.pos += 8;
+        break;
+      case 2:
+        this.bytesField();
+        break;
+      case 5:
+        this.pos += 4;
+        break;
+      default:
+        throw new TachiyomiBackupError(
+          `Unsupported protobuf wire type ${wireType}.`,
+        );
+    }
+  }
+}
+
+const decodeChapter = (bytes: Uint8Array): BackupChapterEntry => {
+  const reader = new ProtoReader(bytes);
+  const chapter: BackupChapterEntry = {
+    url: "",
+    name: "",
+    read: false,
+    lastPageRead: 0,
+    chapterNumber: 0,
+  };
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === 2) chapter.url = reader.string();
+    else if (field === 2 && wireType === 2) chapter.name = reader.string();
+    else if (field === 4 && wireType === 0)
+      chapter.read = reader.varint() !== 0;
+    else if (field === 6 && wireType === 0)
+      chapter.lastPageRead = reader.varint();
+    else if (field === 9 && wireType === 5)
+      chapter.chapterNumber = reader.float();
+    else reader.skip(wireType);
+  }
+  return chapter;
+};
+
+const decodeHistory = (bytes: Uint8Array): BackupHistoryEntry => {
+  const reader = new ProtoReader(bytes);
+  const history: BackupHistoryEntry = { url: "", lastRead: 0 };
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === 2) history.url = reader.string();
+    else if (field === 2 && wireType === 0) history.lastRead = reader.varint();
+    else reader.skip(wireType);
+  }
+  return history;
+};
+
+const decodeManga = (bytes: Uint8Array): BackupMangaEntry => {
+  const reader = new ProtoReader(bytes);
+  const manga: BackupMangaEntry = {
+    source: "",
+    sourceName: null,
+    url: "",
+    title: "",
+    author: null,
+    artist: null,
+    description: null,
+    genres: [],
+    status: 0,
+    thumbnailUrl: null,
+    dateAdded: 0,
+    favorite: true,
+    chapters: [],
+    history: [],
+  };
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === 0) manga.source = reader.varintString();
+    else if (field === 2 && wireType === 2) manga.url = reader.string();
+    else if (field === 3 && wireType === 2) manga.title = reader.string();
+    else if (field === 4 && wireType === 2) manga.artist = reader.string();
+    else if (field === 5 && wireType === 2) manga.author = reader.string();
+    else if (field === 6 && wireType === 2) manga.description = reader.string();
+    else if (field === 7 && wireType === 2) manga.genres.push(reader.string());
+    else if (field === 8 && wireType === 0) manga.status = reader.varint();
+    else if (field === 9 && wireType === 2)
+      manga.thumbnailUrl = reader.string();
+    else if (field === 13 && wireType === 0) manga.dateAdded = reader.varint();
+    else if (field === 16 && wireType === 2)
+      manga.chapters.push(decodeChapter(reader.bytesField()));
+    else if (field === 100 && wireType === 0)
+      manga.favorite = reader.varint() !== 0;
+    else if (field === 104 && wireType === 2)
+      manga.history.push(decodeHistory(reader.bytesField()));
+    else reader.skip(wireType);
+  }
+  return manga;
+};
+
+const decodeSource = (bytes: Uint8Array): [string, string] => {
+  const reader = new ProtoReader(bytes);
+  let name = "";
+  let sourceId = "";
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === 2) name = reader.string();
+    else if (field === 2 && wireType === 0) sourceId = reader.varintString();
+    else reader.skip(wireType);
+  }
+  return [sourceId, name];
+};
+
+export const decodeProtobufBackup = (bytes: Uint8Array): BackupMangaEntry[] => {
+  const reader = new ProtoReader(bytes);
+  const entries: BackupMangaEntry[] = [];
+  const sources = new Map<string, string>();
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === 2) {
+      entries.push(decodeManga(reader.bytesField()));
+    } else if (field === 101 && wireType === 2) {
+      const [sourceId, name] = decodeSource(reader.bytesField());
+      sources.set(sourceId, name);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  for (const entry of entries) {
+    entry.sourceName = sources.get(entry.source) ?? null;
+  }
+  return entries;
+};
+
+export const decodeLegacyJsonBackup = (json: any): BackupMangaEntry[] => {
+  if (!json || !Array.isArray(json.mangas)) {
+    throw new TachiyomiBackupError("Legacy backup has no manga list.");
+  }
+
+  // Listed as "id:name"; ids are compared as numbers since JSON.parse has
+  // already rounded the ones on each manga
+  const sources = new Map<number, string>();
+  for (const extension of Array.isArray(json.extensions)
+    ? json.extensions
+    : []) {
+    const [sourceId, ...name] = String(extension).split(":");
+    sources.set(Number(sourceId), name.join(":"));
+  }
+
+  return json.mangas
+    .filter((entry: any) => Array.isArray(entry?.manga))
+    .map((entry: any): BackupMangaEntry => {
+      const [url, title, source] = entry.manga;
+      const chapters: BackupChapterEntry[] = (entry.chapters || []).map(
+        (c: any) => ({
+          url: String(c.u ?? ""),
+          name: "",
+          read: c.r === 1 || c.r === true,
+          lastPageRead: Number(c.l) || 0,
+          // Legacy backups don't carry chapter numbers
+          chapterNumber: -1,
+        }),
+      );
+      const history: BackupHistoryEntry[] = (entry.history || []).map(
+        (h: any) => ({ url: String(h.u ?? ""), lastRead: Number(h.r) || 0 }),
+      );
+      return {
+        source: String(source ?? ""),
+        sourceName: sources.get(Number(source)) ?? null,
+        url: String(url ?? ""),
+        title: String(title ?? ""),
+        author: null,
+        artist: null,
+        description: null,
+        genres: [],
+        status: 0,
+        thumbnailUrl: null,
+        dateAdded: 0,
+        favorite: true,
+        chapters,
+        history,
+      };
+    });
+};
+
+const TACHIYOMI_STATUS: Record<number, string> = {
+  1: "ongoing",
+  2: "completed",
+  4: "completed",
+  5: "cancelled",
+  6: "hiatus",
+};
+
+const formatChapterNumber = (value: number): string =>
+  value > 0 ? String(Math.round(value * 100) / 100) : "0";
+
+const isMangaDexSource = (entry: BackupMangaEntry): boolean =>
+  entry.sourceName !== null
+    ? entry.sourceName.toLowerCase() === "mangadex"
+    : Number(entry.source) === Number(MANGADEX_SOURCE_ID);
+
+export const mapBackupEntry = (
+  entry: BackupMangaEntry,
+): ImportedManga | UnmatchedEntry => {
+  // Other sources can have URLs that look like MangaDex ones, so the
+  // source decides before the URL does
+  if (!isMangaDexSource(entry)) {
+    return {
+      title: entry.title || entry.url,
+      source: entry.sourceName || entry.source,
+      reason: "Not from the MangaDex source",
+    };
+  }
+
+  const mangaMatch = entry.url.match(MANGA_URL_PATTERN);
+  if (!mangaMatch) {
+    return {
+      title: entry.title || entry.url,
+      source: entry.sourceName || entry.source,
+      reason: "Not a MangaDex title",
+    };
+  }
+
+  const mangaId = mangaMatch[1].toLowerCase();
+  const chapterIds = new Map<string, BackupChapterEntry>();
+  let unmatchedChapters = 0;
+  for (const chapter of entry.chapters) {
+    const chapterMatch = chapter.url.match(CHAPTER_URL_PATTERN);
+    if (chapterMatch) {
+      chapterIds.set(chapterMatch[1].toLowerCase(), chapter);
+    } else if (chapter.read) {
+      unmatchedChapters++;
+    }
+  }
+
+  // Tachiyomi stores -1 for chapters without a number
+  const readChapters = [...chapterIds.entries()]
+    .filter(([, chapter]) => chapter.read)
+    .map(([id, chapter]) => ({
+      id,
+      number:
+        chapter.chapterNumber >= 0
+          ? formatChapterNumber(chapter.chapterNumber)
+          : null,
+    }));
+
+  let progress: ImportedManga["progress"] = null;
+  const latest = [...entry.history].sort((a, b) => b.lastRead - a.lastRead)[0];
+  const latestMatch = latest?.url.match(CHAPTER_URL_PATTERN);
+  if (latest && latestMatch) {
+    const chapterId = latestMatch[1].toLowerCase();
+    const chapter = chapterIds.get(chapterId);
+    progress = {
+      chapterId,
+      chapterNumber: formatChapterNumber(chapter?.chapterNumber ?? 0),
+      page: chapter?.read ? 0 : (chapter?.lastPageRead ?? 0),
+      lastReadAt: latest.lastRead,
+    };
+  }
+
+  const author = [entry.author, entry.artist]
+    .filter((name): name is string => !!name)
+    .filter((name, index, all) => all.indexOf(name) === index)
+    .join(", ");
+
+  return {
+    manga: normalizeManga({
+      id: mangaId,
+      title: entry.title || "Unknown",
+      description: entry.description || "No description available",
+      status: TACHIYOMI_STATUS[entry.status] || "unknown",
+      year: null,
+      type: "Manga",
+      tags: entry.genres,
+      author: author || "Unknown",
+      coverUrl: entry.thumbnailUrl,
+    }),
+    bookmarkedAt: entry.dateAdded || Date.now(),
+    favorite: entry.favorite,
+    readChapters,
+    progress,
+    unmatchedChapters,
+  };
+};
+
+const isGzip = (bytes: Uint8Array) =>
+  bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+export const parseTachiyomiBackup = (raw: Uint8Array): ImportPlan => {
+  let bytes = raw;
+  if (isGzip(bytes)) {
+    try {
+      bytes = ungzip(bytes);
+    } catch {
+      throw new TachiyomiBackupError("Backup file could not be decompressed.");
+    }
+  }
+
+  const firstChar = String.fromCharCode(bytes[0] ?? 0);
+  let format: TachiyomiBackupFormat;
+  let entries: BackupMangaEntry[];
+
+  if (firstChar === "{" || firstChar === "[") {
+    format = "legacy-json";
+    try {
+      entries = decodeLegacyJsonBackup(JSON.parse(decodeUtf8(bytes)));
+    } catch (error) {
+      if (error instanceof TachiyomiBackupError) throw error;
+      throw new TachiyomiBackupError("Legacy backup is not valid JSON.");
+    }
+  } else {
+    format = "protobuf";
+    entries = decodeProtobufBackup(bytes);
+  }
+
+  const plan: ImportPlan = { format, matched: [], unmatched: [] };
+  for (const entry of entries) {
+    const mapped = mapBackupEntry(entry);
+    if ("manga" in mapped) plan.matched.push(mapped);
+    else plan.unmatched.push(mapped);
+  }
+  return plan;
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const tachiyomiImporter = {
+  async pickBackup(): Promise<ImportPlan | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: "*/*",
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.[0]) {
+      return null;
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return parseTachiyomiBackup(base64ToBytes(base64));
+  },
+
+  async applyImport(plan: ImportPlan): Promise<ImportResult> {
+    const result: ImportResult = {
+      bookmarksAdded: 0,
+      chaptersMarkedRead: 0,
+      progressRestored: 0,
+      unmatched: [...plan.unmatched],
+    };
+
+    for (const item of plan.matched) {
+      if (item.favorite && !(await storage.isBookmarked(item.manga.id))) {
+        await storage.addBookmark(item.manga, item.bookmarkedAt);
+        result.bookmarksAdded++;
+      }
+
+      result.chaptersMarkedRead += await readState.markManyRead(
+        item.manga.id,
+        item.readChapters,
+        0,
+      );
+
+      if (item.progress) {
+        const existing = await storage.getReadingProgress(item.manga.id);
+        if (!existing || existing.updatedAt < item.progress.lastReadAt) {
+          // Written directly so it keeps the backup's last-read time
+          const db = await getDatabase();
+          await writeReadingProgress(db, {
+            mangaId: item.manga.id,
+            chapterId: item.progress.chapterId,
+            chapterNumber: item.progress.chapterNumber,
+            page: item.progress.page,
+            totalPages: 0,
+            updatedAt: item.progress.lastReadAt,
+          });
+          result.progressRestored++;
+        }
+      }
+
+      if (item.unmatchedChapters > 0) {
+        result.unmatched.push({
+          title: item.manga.title,
+          source: "MangaDex",
+          reason: `${item.unmatchedChapters} read chapter${item.unmatchedChapters !== 1 ? "s" : ""} could not be matched`,
+        });
+      }
+    }
+
+    return result;
+  },
+};